@@ -0,0 +1,80 @@
+import { TerminalSignal, TerminalSignalDetection } from '../types';
+import { TerminalSignalClassifier, TerminalSignalInput } from './TerminalSignalClassifier';
+
+interface KeywordRule {
+  signal: TerminalSignal;
+  pattern: RegExp;
+  confidence: number;
+  negated?: boolean; // The pattern itself starts with a negation, so NEGATION is not applied before it
+}
+
+/**
+ * Outcomes that are themselves a terminal signal (set by the agent or a human reviewer)
+ */
+const OUTCOME_SIGNALS: Record<string, TerminalSignal> = {
+  opt_out: 'opt_out',
+  opted_out: 'opt_out',
+  unsubscribe: 'opt_out',
+  do_not_call: 'do_not_call',
+  dnc: 'do_not_call',
+  wrong_number: 'wrong_number',
+  project_completed: 'project_completed',
+};
+
+/**
+ * Phrases callees use, matched against lower-cased utterances
+ */
+const KEYWORD_RULES: KeywordRule[] = [
+  { signal: 'do_not_call', pattern: /\bdo not call (list|register)\b/, confidence: 0.95 },
+  { signal: 'do_not_call', pattern: /\b(stop|quit) (calling|ringing|phoning)\b/, confidence: 0.9 },
+  { signal: 'do_not_call', pattern: /\b(don'?t|do not|never) (call|ring|phone|contact) (me|us|this number)( again| anymore| ever)\b/, confidence: 0.9, negated: true },
+  { signal: 'opt_out', pattern: /\b(take|get) (me|us|my number|my name) off (your|the|this) (list|database|system|records)\b/, confidence: 0.9 },
+  { signal: 'opt_out', pattern: /\bremove (me|us|my number|my name|my details) from (your|the|this) (list|database|system|records)\b/, confidence: 0.9 },
+  { signal: 'opt_out', pattern: /\b(unsubscribe|opt out)\b/, confidence: 0.85 },
+  { signal: 'wrong_number', pattern: /\bwrong number\b/, confidence: 0.9 },
+  { signal: 'wrong_number', pattern: /\b(no one|nobody|no-one) (here )?(by|called|named) that name\b/, confidence: 0.85 },
+  { signal: 'project_completed', pattern: /\b(job|project|building|site)( is| was| has been|'s) (finished|completed|complete|done|handed over)\b/, confidence: 0.85 },
+  { signal: 'project_completed', pattern: /\b(already )?(let|awarded) all the (packages|trades|work)\b/, confidence: 0.8 },
+];
+
+/**
+ * Words that flip the meaning of a match when they come right before it
+ * ("please don't take me off your list")
+ */
+const NEGATION = /\b(don'?t|do not|no need to|not|never)\s+(\w+\s+)?$/;
+
+/**
+ * KeywordTerminalSignalClassifier
+ * Rule-based classifier: explicit outcomes first, then phrase rules over callee speech
+ */
+export class KeywordTerminalSignalClassifier implements TerminalSignalClassifier {
+  readonly name = 'keyword';
+
+  async classify(input: TerminalSignalInput): Promise<TerminalSignalDetection[]> {
+    const detections = new Map<TerminalSignal, TerminalSignalDetection>();
+    const detect = (detection: TerminalSignalDetection) => {
+      const existing = detections.get(detection.signal);
+      if (!existing || existing.confidence < detection.confidence) {
+        detections.set(detection.signal, detection);
+      }
+    };
+
+    const outcomeSignal = input.outcome ? OUTCOME_SIGNALS[input.outcome.toLowerCase()] : undefined;
+    if (outcomeSignal) {
+      detect({ signal: outcomeSignal, confidence: 1, evidence: `outcome: ${input.outcome}` });
+    }
+
+    for (const utterance of input.callee_utterances) {
+      const text = utterance.toLowerCase().replace(/[’‘]/g, "'");
+      for (const rule of KEYWORD_RULES) {
+        const match = rule.pattern.exec(text);
+        if (!match) continue;
+        // "don't call me again" is itself the do-not-call phrase, not a negation of it
+        if (!rule.negated && NEGATION.test(text.slice(0, match.index))) continue;
+        detect({ signal: rule.signal, confidence: rule.confidence, evidence: utterance.trim() });
+      }
+    }
+
+    return Array.from(detections.values());
+  }
+}
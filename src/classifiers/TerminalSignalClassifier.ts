@@ -0,0 +1,22 @@
+import { TerminalSignalDetection } from '../types';
+
+/**
+ * What a classifier sees of a finished call
+ */
+export interface TerminalSignalInput {
+  outcome?: string;
+  callee_utterances: string[]; // What the callee said, in order (agent speech excluded)
+}
+
+/**
+ * Pluggable detector for terminal signals (opt-out, do-not-call, wrong number,
+ * project completed) in a finished call
+ *
+ * Implementations return every signal they detect with a confidence; the
+ * post-call processor decides which ones are strong enough to act on.
+ */
+export interface TerminalSignalClassifier {
+  readonly name: string;
+
+  classify(input: TerminalSignalInput): Promise<TerminalSignalDetection[]>;
+}
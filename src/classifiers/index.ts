@@ -0,0 +1,22 @@
+import dotenv from 'dotenv';
+import { TerminalSignalClassifier } from './TerminalSignalClassifier';
+import { KeywordTerminalSignalClassifier } from './KeywordTerminalSignalClassifier';
+
+dotenv.config();
+
+export * from './TerminalSignalClassifier';
+export { KeywordTerminalSignalClassifier } from './KeywordTerminalSignalClassifier';
+
+/**
+ * Build the configured terminal signal classifier
+ * TERMINAL_SIGNAL_CLASSIFIER: 'keyword' (default)
+ */
+export function createTerminalSignalClassifier(): TerminalSignalClassifier {
+  const classifier = process.env.TERMINAL_SIGNAL_CLASSIFIER || 'keyword';
+
+  if (classifier !== 'keyword') {
+    console.warn(`Unknown TERMINAL_SIGNAL_CLASSIFIER "${classifier}", using keyword classifier`);
+  }
+
+  return new KeywordTerminalSignalClassifier();
+}
@@ -0,0 +1,89 @@
+import { PoolClient } from 'pg';
+import { getClient } from './connection';
+import { BatchItemResult } from '../types';
+
+/** Items written per transaction by batch upserts */
+export const BATCH_CHUNK_SIZE = parseInt(process.env.BATCH_CHUNK_SIZE || '500', 10);
+
+/** Maximum items per batch request */
+export const BATCH_MAX_ITEMS = parseInt(process.env.BATCH_MAX_ITEMS || '5000', 10);
+
+/** What an item's upsert wrote */
+export interface BatchUpsertOutcome {
+  key?: string;
+  id?: string;
+  created: boolean;
+}
+
+/** Error reported for items that fail in the database (as single-item routes; details are logged) */
+const ITEM_ERROR = 'Internal server error';
+
+/**
+ * Upsert items in chunked transactions (chunkSize items each)
+ * Each item runs in its own savepoint: a failing item is rolled back and reported as an
+ * error without aborting the rest of its chunk. If a chunk cannot be committed (or its
+ * connection fails), all of its items are reported as errors; earlier chunks stay
+ * committed and later chunks are still attempted.
+ */
+export async function upsertInChunks<T>(
+  items: T[],
+  upsert: (client: PoolClient, item: T) => Promise<BatchUpsertOutcome>,
+  chunkSize: number = BATCH_CHUNK_SIZE
+): Promise<BatchItemResult[]> {
+  const results: BatchItemResult[] = [];
+
+  for (let start = 0; start < items.length; start += chunkSize) {
+    const chunk = items.slice(start, start + chunkSize);
+    let chunkResults: BatchItemResult[] = [];
+    let client: PoolClient | undefined;
+    let connectionError: Error | undefined;
+
+    try {
+      client = await getClient();
+      await client.query('BEGIN');
+      for (const [offset, item] of chunk.entries()) {
+        await client.query('SAVEPOINT batch_item');
+        try {
+          const outcome = await upsert(client, item);
+          await client.query('RELEASE SAVEPOINT batch_item');
+          chunkResults.push({
+            index: start + offset,
+            key: outcome.key,
+            id: outcome.id,
+            status: outcome.created ? 'created' : 'updated',
+          });
+        } catch (error) {
+          console.error(`Error upserting batch item ${start + offset}:`, error);
+          await client.query('ROLLBACK TO SAVEPOINT batch_item');
+          chunkResults.push({ index: start + offset, status: 'error', error: ITEM_ERROR });
+        }
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      console.error(`Error upserting batch items ${start}-${start + chunk.length - 1}:`, error);
+      // A connection that cannot roll back is discarded instead of returned to the pool
+      await client?.query('ROLLBACK').catch((rollbackError: Error) => {
+        connectionError = rollbackError;
+      });
+      chunkResults = chunk.map((_, offset) => ({ index: start + offset, status: 'error', error: ITEM_ERROR }));
+    } finally {
+      client?.release(connectionError);
+    }
+
+    results.push(...chunkResults);
+  }
+
+  return results;
+}
+
+/**
+ * Item counts of a batch by status
+ */
+export function summarizeBatch(results: BatchItemResult[]) {
+  return {
+    total: results.length,
+    created: results.filter(result => result.status === 'created').length,
+    updated: results.filter(result => result.status === 'updated').length,
+    errors: results.filter(result => result.status === 'error').length,
+  };
+}
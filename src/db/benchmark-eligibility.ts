@@ -0,0 +1,205 @@
+import dotenv from 'dotenv';
+import { PoolClient } from 'pg';
+import pool, { query, getClient } from './connection';
+import { CallEligibilityService } from '../services/CallEligibilityService';
+
+dotenv.config();
+
+/**
+ * Eligibility benchmark
+ *
+ * Seeds a fixture of ~100k project_contacts (prefixed 'bench_') into the configured
+ * database, times CallEligibilityService.getEligibleCalls and removes the fixture.
+ * The fixture is seeded in one transaction that drops the HubSpot sync jobs its rows
+ * enqueue before committing, so it is never pushed to HubSpot.
+ *
+ * Run it against a separate benchmark database: it refuses to seed a database holding
+ * projects or contacts of its own, since fixture contacts are eligible for calling (their
+ * numbers are in the ACMA ranges reserved for fictional use, so they reach no one).
+ *
+ * Env:
+ * - BENCH_PROJECTS: number of projects (default 20000, 5 contacts each)
+ * - BENCH_RUNS: timed runs per limit (default 5)
+ * - BENCH_KEEP=1: keep the fixture after the run
+ */
+
+const PREFIX = 'bench_';
+const CONTACTS_PER_PROJECT = 5;
+
+/**
+ * Throw unless the database holds nothing but (a kept) benchmark fixture
+ */
+async function assertBenchmarkDatabase(): Promise<void> {
+  const result = await query(
+    `SELECT
+       EXISTS (SELECT 1 FROM crm_projects WHERE project_id NOT LIKE '${PREFIX}%') AS has_projects,
+       EXISTS (SELECT 1 FROM contacts WHERE contact_id IS NULL OR contact_id NOT LIKE '${PREFIX}%') AS has_contacts`
+  );
+  const { has_projects, has_contacts } = result.rows[0];
+  if (has_projects || has_contacts) {
+    throw new Error(
+      'Database has non-benchmark projects or contacts; point DATABASE_URL at a separate benchmark database'
+    );
+  }
+}
+
+async function seedFixture(projects: number): Promise<void> {
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    await insertFixture(client, projects);
+    await client.query(
+      `DELETE FROM sync_jobs
+       WHERE entity_id IN (SELECT id FROM crm_projects WHERE project_id LIKE '${PREFIX}%')
+          OR entity_id IN (SELECT id FROM contacts WHERE contact_id LIKE '${PREFIX}%')
+          OR entity_id IN (SELECT id FROM project_contacts WHERE project_id LIKE '${PREFIX}%')
+          OR entity_id IN (
+            SELECT cs.id FROM call_sessions cs
+            INNER JOIN crm_projects p ON p.id = cs.project_id
+            WHERE p.project_id LIKE '${PREFIX}%'
+          )
+          OR entity_id IN (SELECT id FROM terminal_sessions WHERE created_by = 'benchmark')`
+    );
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  await query('ANALYZE crm_projects');
+  await query('ANALYZE contacts');
+  await query('ANALYZE project_contacts');
+  await query('ANALYZE call_sessions');
+  await query('ANALYZE terminal_sessions');
+}
+
+async function insertFixture(client: PoolClient, projects: number): Promise<void> {
+  const contacts = Math.ceil(projects * 1.25);
+
+  await client.query(
+    `INSERT INTO crm_projects (project_id, name, state, category, call_suppressed, last_contacted_at, next_call_eligible_at)
+     SELECT
+       '${PREFIX}p' || g,
+       'Benchmark Project ' || g,
+       (ARRAY['VIC', 'NSW', 'QLD', 'SA', 'WA', 'TAS', 'NT', 'ACT'])[1 + g % 8],
+       (ARRAY['Education', 'Health', 'Residential', 'Commercial'])[1 + g % 4],
+       g % 50 = 0,
+       CASE WHEN g % 10 = 0 THEN NOW() - (g % 72) * INTERVAL '1 hour' END,
+       CASE WHEN g % 20 = 0 THEN NOW() + INTERVAL '1 day' END
+     FROM generate_series(1, $1) g
+     ON CONFLICT (project_id) DO NOTHING`,
+    [projects]
+  );
+
+  await client.query(
+    `INSERT INTO contacts (contact_id, name, phonenumber, authority_level, do_not_call)
+     SELECT
+       '${PREFIX}c' || g,
+       'Benchmark Contact ' || g,
+       -- Fictional-use landlines: (02|03|07|08) 5550 xxxx
+       CASE WHEN g % 40 = 0 THEN NULL
+            ELSE '+61' || (ARRAY['2', '3', '7', '8'])[1 + g % 4] || '5550' || LPAD((g / 4 % 10000)::text, 4, '0') END,
+       (ARRAY['decision_maker', 'influencer', NULL])[1 + g % 3],
+       g % 100 = 0
+     FROM generate_series(1, $1) g
+     ON CONFLICT DO NOTHING`,
+    [contacts]
+  );
+
+  await client.query(
+    `INSERT INTO project_contacts (project_id, contact_id, role_for_project, role_confidence, suppress_for_project)
+     SELECT
+       '${PREFIX}p' || p,
+       '${PREFIX}c' || (1 + (p * 7 + k * 13) % $2),
+       (ARRAY['builder', 'estimator', 'site_manager', 'owner', 'pm'])[1 + k],
+       0.5 + (k * 0.1),
+       (p + k) % 75 = 0
+     FROM generate_series(1, $1) p, generate_series(0, ${CONTACTS_PER_PROJECT - 1}) k
+     ON CONFLICT (project_id, contact_id) DO NOTHING`,
+    [projects, contacts]
+  );
+
+  // Recent calls for fatigue windows (~1 per 2 projects in the last week)
+  await client.query(
+    `INSERT INTO call_sessions (project_id, contact_id, call_type, call_status, started_at)
+     SELECT p.id, c.id, 'ai', 'completed', NOW() - (g % 168) * INTERVAL '1 hour'
+     FROM generate_series(1, $1) g
+     INNER JOIN crm_projects p ON p.project_id = '${PREFIX}p' || (1 + (g * 2) % $2)
+     INNER JOIN contacts c ON c.contact_id = '${PREFIX}c' || (1 + (g * 3) % $3)`,
+    [Math.floor(projects / 2), projects, contacts]
+  );
+
+  // Terminal sessions on ~1% of projects and contacts
+  await client.query(
+    `INSERT INTO terminal_sessions (scope, project_id, reason, created_by)
+     SELECT 'project', id, 'project_completed', 'benchmark'
+     FROM crm_projects WHERE project_id LIKE '${PREFIX}%' AND substring(project_id from 8)::int % 97 = 0`
+  );
+  await client.query(
+    `INSERT INTO terminal_sessions (scope, contact_id, reason, created_by)
+     SELECT 'contact', id, 'opt_out', 'benchmark'
+     FROM contacts WHERE contact_id LIKE '${PREFIX}%' AND substring(contact_id from 8)::int % 89 = 0`
+  );
+}
+
+async function removeFixture(): Promise<void> {
+  console.log('Removing fixture...');
+  await query(`DELETE FROM terminal_sessions WHERE created_by = 'benchmark'`);
+  await query(
+    `DELETE FROM call_sessions WHERE project_id IN (SELECT id FROM crm_projects WHERE project_id LIKE '${PREFIX}%')`
+  );
+  await query(`DELETE FROM crm_projects WHERE project_id LIKE '${PREFIX}%'`);
+  await query(`DELETE FROM contacts WHERE contact_id LIKE '${PREFIX}%'`);
+}
+
+async function runBenchmark() {
+  const projects = parseInt(process.env.BENCH_PROJECTS || '20000', 10);
+  const runs = parseInt(process.env.BENCH_RUNS || '5', 10);
+  const eligibilityService = new CallEligibilityService();
+
+  // Query logging in connection.query would dominate timings
+  const log = console.log;
+  console.log = () => {};
+  const report = (...args: unknown[]) => log(...args);
+
+  try {
+    await assertBenchmarkDatabase();
+    report(`Seeding ${projects} projects (${projects * CONTACTS_PER_PROJECT} project_contacts)...`);
+    await seedFixture(projects);
+
+    for (const limit of [10, 100, 1000]) {
+      const timings: number[] = [];
+      let count = 0;
+      for (let i = 0; i < runs; i++) {
+        const start = Date.now();
+        const calls = await eligibilityService.getEligibleCalls(limit);
+        timings.push(Date.now() - start);
+        count = calls.length;
+      }
+      timings.sort((a, b) => a - b);
+      report(
+        `limit=${limit}: returned ${count}, median ${timings[Math.floor(timings.length / 2)]}ms, ` +
+        `min ${timings[0]}ms, max ${timings[timings.length - 1]}ms`
+      );
+    }
+  } finally {
+    if (process.env.BENCH_KEEP !== '1') {
+      await removeFixture();
+    }
+    console.log = log;
+    await pool.end();
+  }
+}
+
+if (require.main === module) {
+  runBenchmark()
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error('Benchmark failed:', err);
+      process.exit(1);
+    });
+}
+
+export { runBenchmark };
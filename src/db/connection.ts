@@ -1,4 +1,5 @@
-import { Pool, PoolConfig } from 'pg';
+import { Pool, PoolClient, PoolConfig } from 'pg';
+import { AsyncLocalStorage } from 'async_hooks';
 import dotenv from 'dotenv';
 import { readFileSync } from 'fs';
 import { join } from 'path';
@@ -99,13 +100,28 @@ export async function testConnection(): Promise<boolean> {
   }
 }
 
+/**
+ * Transaction of the current dry run (see withDryRun)
+ */
+const dryRunTransaction = new AsyncLocalStorage<PoolClient>();
+
+/**
+ * Dry runs keep the rows they write locked until they roll back, so callers cap their
+ * input at DRY_RUN_MAX_ROWS rows, and a dry run gives up on a row a live writer holds
+ * after DRY_RUN_LOCK_TIMEOUT_MS instead of queueing while holding its own locks
+ */
+export const DRY_RUN_MAX_ROWS = parseInt(process.env.DRY_RUN_MAX_ROWS || '5000', 10);
+const DRY_RUN_LOCK_TIMEOUT_MS = parseInt(process.env.DRY_RUN_LOCK_TIMEOUT_MS || '2000', 10);
+
+let savepointCount = 0;
+
 /**
  * Execute a query with error handling
  */
 export async function query(text: string, params?: any[]) {
   const start = Date.now();
   try {
-    const res = await pool.query(text, params);
+    const res = await (dryRunTransaction.getStore() ?? pool).query(text, params);
     const duration = Date.now() - start;
     console.log('Executed query', { text, duration, rows: res.rowCount });
     return res;
@@ -117,9 +133,61 @@ export async function query(text: string, params?: any[]) {
 
 /**
  * Get a client from the pool for transactions
+ * (during a dry run: the dry-run transaction, with BEGIN/COMMIT/ROLLBACK run as a savepoint)
+ */
+export async function getClient(): Promise<PoolClient> {
+  const transaction = dryRunTransaction.getStore();
+  return transaction ? savepointClient(transaction) : pool.connect();
+}
+
+/**
+ * Run fn as a dry run: all queries and transactions it makes (via query/getClient) share
+ * one transaction that is rolled back at the end, so nothing it writes is kept
  */
-export function getClient() {
-  return pool.connect();
+export async function withDryRun<T>(fn: () => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query("SELECT set_config('lock_timeout', $1, true)", [`${DRY_RUN_LOCK_TIMEOUT_MS}ms`]);
+    return await dryRunTransaction.run(client, fn);
+  } finally {
+    await client.query('ROLLBACK').catch(() => undefined);
+    client.release();
+  }
+}
+
+/**
+ * Run fn outside the current dry run (its queries see committed data only)
+ */
+export function outsideDryRun<T>(fn: () => T): T {
+  return dryRunTransaction.exit(fn);
+}
+
+/**
+ * Dry-run transaction client for a service transaction: BEGIN/COMMIT/ROLLBACK become
+ * savepoint commands and release is a no-op
+ */
+function savepointClient(transaction: PoolClient): PoolClient {
+  const savepoint = `dry_run_${++savepointCount}`;
+  const statements: Record<string, string> = {
+    BEGIN: `SAVEPOINT ${savepoint}`,
+    COMMIT: `RELEASE SAVEPOINT ${savepoint}`,
+    ROLLBACK: `ROLLBACK TO SAVEPOINT ${savepoint}`,
+  };
+
+  return new Proxy(transaction, {
+    get(target, property) {
+      if (property === 'release') return () => undefined;
+      if (property === 'query') {
+        return (text: unknown, ...args: unknown[]) =>
+          typeof text === 'string' && statements[text.trim().toUpperCase()]
+            ? target.query(statements[text.trim().toUpperCase()])
+            : (target.query as (...queryArgs: unknown[]) => unknown)(text, ...args);
+      }
+      const value = Reflect.get(target, property, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
 }
 
 export default pool;
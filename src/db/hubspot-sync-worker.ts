@@ -0,0 +1,86 @@
+import dotenv from 'dotenv';
+import { hostname } from 'os';
+import pool from './connection';
+import { SyncJobService } from '../services/SyncJobService';
+
+dotenv.config();
+
+/**
+ * HubSpot sync worker
+ *
+ * Drains the sync outbox (sync_jobs): pushes written projects, contacts, project-contact
+ * associations, call sessions and terminal sessions to HubSpot, retrying failures with
+ * backoff (see SyncJobService). Several workers can run side by side.
+ *
+ * Usage: npm run sync:hubspot            (runs until SIGINT/SIGTERM)
+ *        npm run sync:hubspot -- --once  (processes the jobs due now, then exits)
+ *
+ * Env:
+ * - SYNC_BATCH_SIZE: jobs claimed per batch (default 50)
+ * - SYNC_POLL_INTERVAL_MS: wait when no jobs are due (default 5000)
+ */
+async function runHubSpotSyncWorker(options: { once?: boolean } = {}) {
+  const batchSize = parseInt(process.env.SYNC_BATCH_SIZE || '50', 10);
+  const pollIntervalMs = parseInt(process.env.SYNC_POLL_INTERVAL_MS || '5000', 10);
+  const workerId = `${hostname()}-${process.pid}`;
+  const syncJobService = new SyncJobService();
+
+  let stopping = false;
+  let wake: (() => void) | null = null;
+  const stop = () => {
+    stopping = true;
+    wake?.();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  try {
+    if (!syncJobService.isEnabled()) {
+      console.log('HubSpot sync disabled (HUBSPOT_ACCESS_TOKEN not set); jobs stay queued');
+      return;
+    }
+
+    console.log(`HubSpot sync worker ${workerId} started`);
+    while (!stopping) {
+      const result = await syncJobService.processJobs(workerId, batchSize);
+      if (result.claimed > 0) {
+        console.log(`Synced ${result.succeeded}/${result.claimed} jobs, ${result.retried} retried, ${result.dead} dead`);
+      }
+
+      let waitMs = result.claimed < batchSize ? pollIntervalMs : 0;
+      if (result.rate_limited_until) {
+        waitMs = Math.max(result.rate_limited_until.getTime() - Date.now(), 0);
+        console.log(`HubSpot rate limit hit, pausing until ${result.rate_limited_until.toISOString()}`);
+      } else if (options.once && result.claimed < batchSize) {
+        break;
+      }
+
+      if (waitMs > 0) {
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, waitMs);
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        wake = null;
+      }
+    }
+    console.log(`HubSpot sync worker ${workerId} stopped`);
+  } finally {
+    process.off('SIGINT', stop);
+    process.off('SIGTERM', stop);
+    await pool.end();
+  }
+}
+
+if (require.main === module) {
+  runHubSpotSyncWorker({ once: process.argv.includes('--once') })
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error('HubSpot sync worker failed:', err);
+      process.exit(1);
+    });
+}
+
+export { runHubSpotSyncWorker };
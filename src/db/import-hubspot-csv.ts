@@ -0,0 +1,83 @@
+import dotenv from 'dotenv';
+import { readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { basename, join } from 'path';
+import pool from './connection';
+import { HubSpotImportService } from '../services/HubSpotImportService';
+import { DIFF_CSV_COLUMNS, importReportDiffRows } from '../services/RecordDiffService';
+import { toCsv } from '../utils/csv';
+
+dotenv.config();
+
+/**
+ * HubSpot CSV importer
+ *
+ * Imports HubSpot CRM export files (all-projects, all-contacts, all-records) given as
+ * paths or directories of .csv files; the format of each file is detected from its header.
+ * Projects are imported first, then contacts, then project-contact records.
+ *
+ * Usage: npm run import:hubspot -- sample_csv
+ *        npm run import:hubspot -- projects.csv contacts.csv records.csv
+ *        npm run import:hubspot -- --dry-run [--output diff.json|diff.csv] sample_csv
+ *
+ * Rows that were skipped or failed are listed; exits with 1 if any row failed.
+ * --dry-run writes nothing and reports rows as created, updated or unchanged; --output
+ * saves the reports (JSON) or the field-level diff (CSV), by file extension.
+ */
+async function importHubSpotCsv(
+  paths: string[],
+  options: { dry_run?: boolean; output?: string } = {}
+): Promise<boolean> {
+  const files = paths.flatMap(path =>
+    statSync(path).isDirectory()
+      ? readdirSync(path).filter(name => name.toLowerCase().endsWith('.csv')).sort().map(name => join(path, name))
+      : [path]
+  );
+  if (files.length === 0) {
+    throw new Error('No CSV files given (usage: import-hubspot-csv <file or directory>...)');
+  }
+
+  const importService = new HubSpotImportService();
+  try {
+    const reports = await importService.importFiles(
+      files.map(file => ({ name: basename(file), content: readFileSync(file, 'utf-8') })),
+      { dry_run: options.dry_run }
+    );
+
+    let failed = false;
+    for (const report of reports) {
+      console.log(`${report.file} (${report.format}${report.dry_run ? ', dry run' : ''}): ${report.total} rows, ${report.created} created, ${report.updated} updated, ${report.dry_run ? `${report.unchanged} unchanged, ` : ''}${report.skipped} skipped, ${report.errors} errors`);
+      for (const row of report.rows) {
+        if (row.status === 'skipped' || row.status === 'error' || row.message) {
+          console.log(`  row ${row.row}${row.key ? ` (${row.key})` : ''}: ${row.status}${row.message ? ` - ${row.message}` : ''}`);
+        }
+      }
+      failed = failed || report.errors > 0;
+    }
+
+    if (options.output) {
+      writeFileSync(options.output, options.output.toLowerCase().endsWith('.csv')
+        ? toCsv(importReportDiffRows(reports), DIFF_CSV_COLUMNS)
+        : JSON.stringify(reports, null, 2));
+      console.log(`Report written to ${options.output}`);
+    }
+    return !failed;
+  } finally {
+    await pool.end();
+  }
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const outputIndex = args.indexOf('--output');
+  const output = outputIndex >= 0 ? args[outputIndex + 1] : undefined;
+  const paths = args.filter((arg, i) => !arg.startsWith('--') && (outputIndex < 0 || i !== outputIndex + 1));
+
+  importHubSpotCsv(paths, { dry_run: args.includes('--dry-run'), output })
+    .then((ok) => process.exit(ok ? 0 : 1))
+    .catch((err) => {
+      console.error('Import failed:', err);
+      process.exit(1);
+    });
+}
+
+export { importHubSpotCsv };
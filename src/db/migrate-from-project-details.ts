@@ -1,9 +1,13 @@
-import { query } from './connection';
+import { DRY_RUN_MAX_ROWS, query, withDryRun } from './connection';
 import dotenv from 'dotenv';
+import { writeFileSync } from 'fs';
 import pool from './connection';
 import { ProjectService } from '../services/ProjectService';
 import { ContactService } from '../services/ContactService';
 import { ProjectContactService } from '../services/ProjectContactService';
+import { DIFF_CSV_COLUMNS, RecordDiffService, recordDiffRows } from '../services/RecordDiffService';
+import { DiffTable, RecordDiff } from '../types';
+import { toCsv } from '../utils/csv';
 
 dotenv.config();
 
@@ -186,8 +190,12 @@ async function ensureCoreTablesExist(): Promise<void> {
       awarded_date DATE,
       distance DECIMAL(12, 4),
       budget VARCHAR(255),
+      budget_min DECIMAL(14, 2),
+      budget_max DECIMAL(14, 2),
       quotes_due_date DATE,
       country VARCHAR(100) DEFAULT 'AU',
+      timezone VARCHAR(64),
+      priority_score DECIMAL(5, 4),
       last_contacted_at TIMESTAMP WITH TIME ZONE,
       next_call_eligible_at TIMESTAMP WITH TIME ZONE,
       call_suppressed BOOLEAN DEFAULT false,
@@ -204,11 +212,19 @@ async function ensureCoreTablesExist(): Promise<void> {
       email VARCHAR(255),
       companyname VARCHAR(500),
       phonenumber VARCHAR(50),
+      phonenumber_raw VARCHAR(50),
+      phone_valid BOOLEAN,
+      phone_type VARCHAR(20),
+      phone_country VARCHAR(2),
       global_role VARCHAR(100),
       authority_level VARCHAR(100),
       preferred_channel VARCHAR(50),
       do_not_call BOOLEAN DEFAULT false,
       last_ai_contact TIMESTAMP WITH TIME ZONE,
+      last_contacted_at TIMESTAMP WITH TIME ZONE,
+      next_call_eligible_at TIMESTAMP WITH TIME ZONE,
+      merged_into_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+      merged_at TIMESTAMP WITH TIME ZONE,
       created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
       updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
     )
@@ -229,6 +245,9 @@ async function ensureCoreTablesExist(): Promise<void> {
       preferred_channel_project VARCHAR(50),
       last_contacted_at TIMESTAMP WITH TIME ZONE,
       suppress_for_project BOOLEAN DEFAULT false,
+      next_call_eligible_at TIMESTAMP WITH TIME ZONE,
+      callback_at TIMESTAMP WITH TIME ZONE,
+      follow_up_reason VARCHAR(100),
       created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
       updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
       CONSTRAINT project_contacts_unique UNIQUE (project_id, contact_id)
@@ -239,16 +258,61 @@ async function ensureCoreTablesExist(): Promise<void> {
   console.log('Core tables ready.');
 }
 
+export interface ProjectDetailsBuildResult {
+  projects: number;
+  contacts: number;
+  project_contacts: number;
+  diffs?: RecordDiff[]; // Dry run: per written record, created/updated/unchanged and field changes
+}
+
+/** Record written by the build (table, row id, display key) */
+type WrittenRecord = { table: DiffTable; id: string; key: string };
+
 /**
  * Build contacts, projects (crm_projects), and project_contacts from project_details rows.
  * - projects: project_id, name, address, suburb, postcode, state, category, distance, budget, quotes_due_date
  * - contacts: from stages.builderDetails (name, email, phonenumber, companyname, contact_id)
  * - project_contacts: project_id (project's id string), contact_id (contact's id string), est_start_date, est_end_date
+ *
+ * With dry_run the build runs in a transaction that is rolled back, and each written record
+ * (in its final state) is diffed against its committed row. Dry runs read at most
+ * DRY_RUN_MAX_ROWS project_details rows; more throws 'Dry run too large' (pass a limit).
  */
-export async function buildTablesFromProjectDetails(limit?: number): Promise<{ projects: number; contacts: number; project_contacts: number }> {
+export async function buildTablesFromProjectDetails(
+  limit?: number,
+  options: { dry_run?: boolean } = {}
+): Promise<ProjectDetailsBuildResult> {
+  if (!options.dry_run) return writeTablesFromProjectDetails(limit);
+
+  return withDryRun(async () => {
+    const written = new Map<string, WrittenRecord>();
+    const counts = await writeTablesFromProjectDetails(
+      limit,
+      record => written.set(`${record.table}:${record.id}`, record),
+      DRY_RUN_MAX_ROWS
+    );
+
+    const recordDiffService = new RecordDiffService();
+    const diffs: RecordDiff[] = [];
+    for (const record of written.values()) {
+      diffs.push(await recordDiffService.diffRecord(record.table, record.id, record.key));
+    }
+    return { ...counts, diffs };
+  });
+}
+
+async function writeTablesFromProjectDetails(
+  limit?: number,
+  onWrite: (record: WrittenRecord) => void = () => undefined,
+  maxRows?: number
+): Promise<ProjectDetailsBuildResult> {
   await ensureCoreTablesExist();
 
-  const rows = await readProjectDetails(limit);
+  // One row past maxRows tells whether the input exceeds it
+  const rows = await readProjectDetails(maxRows !== undefined ? Math.min(limit ?? maxRows + 1, maxRows + 1) : limit);
+  if (maxRows !== undefined && rows.length > maxRows) {
+    throw new Error(`Dry run too large: more than ${maxRows} project_details rows (pass a limit of at most ${maxRows})`);
+  }
   const projectService = new ProjectService();
   const contactService = new ContactService();
   const projectContactService = new ProjectContactService();
@@ -300,7 +364,7 @@ export async function buildTablesFromProjectDetails(limit?: number): Promise<{ p
           ? Number(detail.distance)
           : undefined;
 
-    await projectService.upsertProject({
+    const project = await projectService.upsertProject({
       project_id: projectId,
       name: detail.name ?? 'Unnamed Project',
       address: fullAddress ?? undefined,
@@ -314,6 +378,7 @@ export async function buildTablesFromProjectDetails(limit?: number): Promise<{ p
       quotes_due_date: detail.tenderQuoteDueAt ? parseDate(detail.tenderQuoteDueAt) ?? undefined : undefined,
       country: 'AU',
     });
+    onWrite({ table: 'crm_projects', id: project.id!, key: projectId });
     projectsCount++;
 
     const seenProjectContactKeys = new Set<string>();
@@ -335,6 +400,7 @@ export async function buildTablesFromProjectDetails(limit?: number): Promise<{ p
         phonenumber,
         companyname,
       });
+      onWrite({ table: 'contacts', id: contact.id!, key: contact.contact_id ?? contact.id! });
 
       const contactKey = email ? `email:${email}` : phonenumber ? `phonenumber:${phonenumber}` : contactId;
       if (!seenContactKeys.has(contactKey)) {
@@ -345,10 +411,11 @@ export async function buildTablesFromProjectDetails(limit?: number): Promise<{ p
       const linkKey = `${projectId}:${contactId}`;
       if (!seenProjectContactKeys.has(linkKey)) {
         seenProjectContactKeys.add(linkKey);
-        await projectContactService.upsertProjectContact(projectId, contactId, {
+        const projectContact = await projectContactService.upsertProjectContact(projectId, contactId, {
           est_start_date: stage.constructionStartDate ? parseDate(stage.constructionStartDate) ?? undefined : undefined,
           est_end_date: stage.constructionEndDate ? parseDate(stage.constructionEndDate) ?? undefined : undefined,
         });
+        onWrite({ table: 'project_contacts', id: projectContact.id!, key: linkKey });
         projectContactsCount++;
       }
     }
@@ -357,15 +424,39 @@ export async function buildTablesFromProjectDetails(limit?: number): Promise<{ p
   return { projects: projectsCount, contacts: contactsCount, project_contacts: projectContactsCount };
 }
 
+/**
+ * Usage: npm run migrate:project-details [-- --dry-run [--output diff.json|diff.csv]]
+ *
+ * --dry-run writes nothing and prints how many records would be created, updated or left
+ * unchanged; --output saves the field-level diff as JSON or CSV (by file extension).
+ */
 async function runMigration() {
   try {
-    console.log('Building contacts, projects (crm_projects), project_contacts from project_details...');
+    const dryRun = process.argv.includes('--dry-run');
+    const outputIndex = process.argv.indexOf('--output');
+    const output = outputIndex >= 0 ? process.argv[outputIndex + 1] : undefined;
+
+    console.log(`${dryRun ? 'Dry run: diffing' : 'Building'} contacts, projects (crm_projects), project_contacts from project_details...`);
     const limit = process.env.MIGRATE_LIMIT ? parseInt(process.env.MIGRATE_LIMIT, 10) : undefined;
-    const counts = await buildTablesFromProjectDetails(limit);
+    const counts = await buildTablesFromProjectDetails(limit, { dry_run: dryRun });
     console.log('Done.');
     console.log('  projects (crm_projects):', counts.projects);
     console.log('  contacts:', counts.contacts);
     console.log('  project_contacts:', counts.project_contacts);
+
+    if (counts.diffs) {
+      for (const table of ['crm_projects', 'contacts', 'project_contacts'] as DiffTable[]) {
+        const diffs = counts.diffs.filter(diff => diff.table === table);
+        const byStatus = (status: RecordDiff['status']) => diffs.filter(diff => diff.status === status).length;
+        console.log(`  ${table}: ${byStatus('created')} created, ${byStatus('updated')} updated, ${byStatus('unchanged')} unchanged`);
+      }
+      if (output) {
+        writeFileSync(output, output.toLowerCase().endsWith('.csv')
+          ? toCsv(recordDiffRows(counts.diffs, 'project_details'), DIFF_CSV_COLUMNS)
+          : JSON.stringify(counts.diffs, null, 2));
+        console.log('  diff written to', output);
+      }
+    }
     return counts;
   } catch (error) {
     console.error('Migration failed:', error);
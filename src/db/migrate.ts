@@ -2,6 +2,33 @@ import { readFileSync } from 'fs';
 import { join } from 'path';
 import pool, { query } from './connection';
 
+/**
+ * SQL migrations applied after the initial schema, in order
+ */
+const SQL_MIGRATIONS = [
+  '003_call_leases',
+  '004_project_timezone',
+  '005_eligibility_policies',
+  '006_eligibility_indexes',
+  '007_project_priority_score',
+  '008_campaigns',
+  '009_telephony',
+  '010_call_status_lifecycle',
+  '011_call_session_events',
+  '012_call_transcript_turns',
+  '013_post_call_terminal_signals',
+  '014_follow_up_scheduling',
+  '015_contact_cooldowns',
+  '016_escalations',
+  '017_contact_phone_normalization',
+  '018_contact_merges',
+  '019_hubspot_sync_outbox',
+  '020_eligibility_policy_scope_case',
+  '021_post_call_failures',
+  '022_call_leases_per_contact',
+  '023_hubspot_object_ids',
+];
+
 /**
  * Migration runner
  * Applies SQL migrations in order
@@ -184,6 +211,16 @@ $fn$ language 'plpgsql'`);
       }
     }
 
+    // Numbered migrations in ./migrations, each applied as a single multi-statement query
+    for (const version of SQL_MIGRATIONS) {
+      if (appliedVersions.has(version)) continue;
+      console.log(`Applying ${version}...`);
+      const sql = readFileSync(join(__dirname, 'migrations', `${version}.sql`), 'utf-8');
+      await query(sql);
+      await query('INSERT INTO schema_migrations (version) VALUES ($1)', [version]);
+      console.log(`${version} applied`);
+    }
+
     console.log('Migrations completed');
   } catch (error) {
     console.error('Migration failed:', error);
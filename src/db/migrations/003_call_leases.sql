@@ -0,0 +1,19 @@
+-- 003_call_leases
+-- Dialer work queue: leased project/contact assignments
+
+CREATE TABLE IF NOT EXISTS call_leases (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id VARCHAR(255) NOT NULL REFERENCES crm_projects(project_id) ON DELETE CASCADE,
+    contact_id VARCHAR(255) NOT NULL,
+    worker_id VARCHAR(255) NOT NULL,
+    leased_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    heartbeat_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    released_at TIMESTAMP WITH TIME ZONE,
+    release_reason VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_call_leases_active_unique ON call_leases(project_id, contact_id) WHERE released_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_call_leases_worker_id ON call_leases(worker_id) WHERE released_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_call_leases_expires_at ON call_leases(expires_at) WHERE released_at IS NULL;
@@ -0,0 +1,4 @@
+-- 004_project_timezone
+-- Per-project timezone for calling windows (NULL = derive from state)
+
+ALTER TABLE crm_projects ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);
@@ -0,0 +1,28 @@
+-- 005_eligibility_policies
+-- Versioned call pacing policies (replaces hard-coded cooldown/fatigue constants)
+
+CREATE TABLE IF NOT EXISTS eligibility_policies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    scope VARCHAR(50) NOT NULL,
+    scope_value VARCHAR(255),
+    version INTEGER NOT NULL,
+    min_call_cooldown_hours DECIMAL(8, 2),
+    max_calls_per_day INTEGER,
+    max_calls_per_week INTEGER,
+    is_active BOOLEAN DEFAULT true,
+    notes TEXT,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT eligibility_policies_scope_check CHECK (
+        (scope = 'global' AND scope_value IS NULL) OR
+        (scope IN ('category', 'authority_level', 'call_type') AND scope_value IS NOT NULL)
+    )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_eligibility_policies_version_unique ON eligibility_policies(scope, COALESCE(scope_value, ''), version);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_eligibility_policies_active_unique ON eligibility_policies(scope, COALESCE(scope_value, '')) WHERE is_active = true;
+
+-- Seed the global default with the previously hard-coded values
+INSERT INTO eligibility_policies (scope, scope_value, version, min_call_cooldown_hours, max_calls_per_day, max_calls_per_week, notes, created_by)
+SELECT 'global', NULL, 1, 24, 3, 10, 'Initial defaults', 'system'
+WHERE NOT EXISTS (SELECT 1 FROM eligibility_policies WHERE scope = 'global');
@@ -0,0 +1,7 @@
+-- 006_eligibility_indexes
+-- Supports the set-based eligible calls query (fatigue windows and terminal lookups)
+
+CREATE INDEX IF NOT EXISTS idx_call_sessions_started_at ON call_sessions(started_at);
+CREATE INDEX IF NOT EXISTS idx_call_sessions_project_started_at ON call_sessions(project_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_call_sessions_contact_started_at ON call_sessions(contact_id, started_at) WHERE contact_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_project_contacts_project_contact ON project_contacts(project_id, contact_id) WHERE suppress_for_project = false OR suppress_for_project IS NULL;
@@ -0,0 +1,4 @@
+-- 007_project_priority_score
+-- HubSpot priority score used when ranking eligible calls
+
+ALTER TABLE crm_projects ADD COLUMN IF NOT EXISTS priority_score DECIMAL(5, 4);
@@ -0,0 +1,52 @@
+-- 008_campaigns
+-- Outbound campaigns with attribution on call sessions and leases
+
+CREATE TABLE IF NOT EXISTS campaigns (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(500) NOT NULL,
+    description TEXT,
+    status VARCHAR(50) NOT NULL DEFAULT 'draft',
+    target_filter JSONB NOT NULL DEFAULT '{}'::jsonb,
+    script_id VARCHAR(255),
+    agent_id VARCHAR(255),
+    call_type VARCHAR(50) NOT NULL DEFAULT 'ai',
+    max_calls_per_hour INTEGER,
+    max_calls_per_day INTEGER,
+    max_concurrent_calls INTEGER,
+    start_at TIMESTAMP WITH TIME ZONE,
+    end_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT campaigns_status_check CHECK (status IN ('draft', 'active', 'paused', 'completed')),
+    CONSTRAINT campaigns_schedule_check CHECK (start_at IS NULL OR end_at IS NULL OR start_at < end_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_status ON campaigns(status);
+
+DROP TRIGGER IF EXISTS update_campaigns_updated_at ON campaigns;
+CREATE TRIGGER update_campaigns_updated_at BEFORE UPDATE ON campaigns
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE call_sessions ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_call_sessions_campaign_id ON call_sessions(campaign_id, started_at) WHERE campaign_id IS NOT NULL;
+
+ALTER TABLE call_leases ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL;
+
+-- Numeric budget bounds for campaign target filters (parsed from the budget band string)
+ALTER TABLE crm_projects ADD COLUMN IF NOT EXISTS budget_min DECIMAL(14, 2);
+ALTER TABLE crm_projects ADD COLUMN IF NOT EXISTS budget_max DECIMAL(14, 2);
+
+UPDATE crm_projects p
+SET budget_min = b.min_amount, budget_max = b.max_amount
+FROM (
+    SELECT id, MIN(amount) AS min_amount, MAX(amount) AS max_amount
+    FROM (
+        SELECT
+            id,
+            (m[1])::numeric * CASE m[2] WHEN 'k' THEN 1000 WHEN 'm' THEN 1000000 WHEN 'b' THEN 1000000000 ELSE 1 END AS amount
+        FROM crm_projects, regexp_matches(lower(replace(budget, ',', '')), '(\d+(?:\.\d+)?)\s*([kmb])?', 'g') AS m
+        WHERE budget IS NOT NULL
+    ) amounts
+    GROUP BY id
+) b
+WHERE p.id = b.id AND p.budget_min IS NULL;
@@ -0,0 +1,8 @@
+-- 009_telephony
+-- Provider call references on call sessions (status callbacks are matched by provider call ID)
+
+ALTER TABLE call_sessions ADD COLUMN IF NOT EXISTS provider VARCHAR(50);
+ALTER TABLE call_sessions ADD COLUMN IF NOT EXISTS provider_call_id VARCHAR(255);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_call_sessions_provider_call
+    ON call_sessions(provider, provider_call_id) WHERE provider_call_id IS NOT NULL;
@@ -0,0 +1,15 @@
+-- 010_call_status_lifecycle
+-- Call session state machine: known statuses, timestamped status history, ended_at >= started_at
+-- Constraints are NOT VALID so sessions recorded with legacy free-form statuses are kept as-is
+
+ALTER TABLE call_sessions ADD COLUMN IF NOT EXISTS status_history JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE call_sessions DROP CONSTRAINT IF EXISTS call_sessions_call_status_check;
+ALTER TABLE call_sessions ADD CONSTRAINT call_sessions_call_status_check CHECK (call_status IN (
+    'queued', 'dialing', 'ringing', 'in_progress',
+    'completed', 'no_answer', 'busy', 'voicemail', 'failed', 'canceled'
+)) NOT VALID;
+
+ALTER TABLE call_sessions DROP CONSTRAINT IF EXISTS call_sessions_ended_after_started;
+ALTER TABLE call_sessions ADD CONSTRAINT call_sessions_ended_after_started
+    CHECK (ended_at IS NULL OR started_at IS NULL OR ended_at >= started_at) NOT VALID;
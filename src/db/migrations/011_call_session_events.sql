@@ -0,0 +1,31 @@
+-- 011_call_session_events
+-- Append-only change log for call sessions
+
+CREATE TABLE IF NOT EXISTS call_session_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    call_session_id UUID NOT NULL REFERENCES call_sessions(id) ON DELETE CASCADE,
+    event_type VARCHAR(50) NOT NULL,
+    actor VARCHAR(255) NOT NULL DEFAULT 'system',
+    source VARCHAR(50) NOT NULL DEFAULT 'system',
+    changes JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_session_events_session ON call_session_events(call_session_id, created_at);
+
+-- Existing sessions get a 'created' event with their current values
+-- (their earlier history was not recorded)
+INSERT INTO call_session_events (call_session_id, event_type, actor, source, changes, created_at)
+SELECT
+    cs.id,
+    'created',
+    'system',
+    'migration',
+    COALESCE((
+        SELECT jsonb_object_agg(key, jsonb_build_object('from', NULL, 'to', value))
+        FROM jsonb_each(to_jsonb(cs) - 'id' - 'status_history' - 'created_at')
+        WHERE value <> 'null'::jsonb
+    ), '{}'::jsonb),
+    COALESCE(cs.created_at, cs.started_at, NOW())
+FROM call_sessions cs
+WHERE NOT EXISTS (SELECT 1 FROM call_session_events e WHERE e.call_session_id = cs.id);
@@ -0,0 +1,16 @@
+-- 012_call_transcript_turns
+-- Structured call transcripts (speaker turns with offsets)
+
+CREATE TABLE IF NOT EXISTS call_transcript_turns (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    call_session_id UUID NOT NULL REFERENCES call_sessions(id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    speaker VARCHAR(20) NOT NULL CHECK (speaker IN ('agent', 'callee')),
+    start_ms INTEGER NOT NULL CHECK (start_ms >= 0),
+    end_ms INTEGER NOT NULL,
+    text TEXT NOT NULL,
+    confidence DECIMAL(3,2) CHECK (confidence >= 0 AND confidence <= 1),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT call_transcript_turns_offsets_check CHECK (end_ms >= start_ms),
+    CONSTRAINT call_transcript_turns_seq_unique UNIQUE (call_session_id, seq)
+);
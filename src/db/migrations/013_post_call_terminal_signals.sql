@@ -0,0 +1,10 @@
+-- 013_post_call_terminal_signals
+-- Terminal sessions detected on a call link back to it; finished calls are scanned once
+
+ALTER TABLE terminal_sessions ADD COLUMN IF NOT EXISTS call_session_id UUID REFERENCES call_sessions(id) ON DELETE SET NULL;
+ALTER TABLE call_sessions ADD COLUMN IF NOT EXISTS post_call_processed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_terminal_sessions_call_session_id
+    ON terminal_sessions(call_session_id) WHERE call_session_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_call_sessions_post_call_pending
+    ON call_sessions(started_at) WHERE post_call_processed_at IS NULL;
@@ -0,0 +1,9 @@
+-- 014_follow_up_scheduling
+-- Outcome-driven follow-up per project-contact pair (callback slots, retry backoff, suppression)
+
+ALTER TABLE project_contacts ADD COLUMN IF NOT EXISTS next_call_eligible_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE project_contacts ADD COLUMN IF NOT EXISTS callback_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE project_contacts ADD COLUMN IF NOT EXISTS follow_up_reason VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_project_contacts_next_call_eligible_at
+    ON project_contacts(next_call_eligible_at) WHERE next_call_eligible_at IS NOT NULL;
@@ -0,0 +1,19 @@
+-- 015_contact_cooldowns
+-- Cooldowns per project-contact pair and per contact (across projects), alongside the project cooldown
+
+ALTER TABLE eligibility_policies ADD COLUMN IF NOT EXISTS project_contact_cooldown_hours DECIMAL(8, 2);
+ALTER TABLE eligibility_policies ADD COLUMN IF NOT EXISTS contact_cooldown_hours DECIMAL(8, 2);
+
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS last_contacted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS next_call_eligible_at TIMESTAMP WITH TIME ZONE;
+
+-- Start contact cooldowns from the last completed call
+UPDATE contacts c
+SET last_contacted_at = latest.contacted_at
+FROM (
+    SELECT contact_id, MAX(COALESCE(ended_at, started_at)) AS contacted_at
+    FROM call_sessions
+    WHERE contact_id IS NOT NULL AND call_status = 'completed'
+    GROUP BY contact_id
+) latest
+WHERE latest.contact_id = c.id AND c.last_contacted_at IS NULL;
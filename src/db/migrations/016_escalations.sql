@@ -0,0 +1,39 @@
+-- 016_escalations
+-- Human escalation queue for escalated calls, with follow-up sessions linked to the original call
+
+ALTER TABLE call_sessions ADD COLUMN IF NOT EXISTS parent_call_session_id UUID REFERENCES call_sessions(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_call_sessions_parent_call_session_id
+    ON call_sessions(parent_call_session_id) WHERE parent_call_session_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS escalations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    call_session_id UUID NOT NULL REFERENCES call_sessions(id) ON DELETE CASCADE,
+    reason TEXT,
+    status VARCHAR(50) NOT NULL DEFAULT 'open',
+    assigned_to VARCHAR(255),
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolved_by VARCHAR(255),
+    resolution VARCHAR(100),
+    resolution_notes TEXT,
+    follow_up_session_id UUID REFERENCES call_sessions(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT escalations_call_session_unique UNIQUE (call_session_id),
+    CONSTRAINT escalations_status_check CHECK (status IN ('open', 'claimed', 'resolved')),
+    CONSTRAINT escalations_assignee_check CHECK (status <> 'claimed' OR assigned_to IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_escalations_unresolved ON escalations(created_at) WHERE status <> 'resolved';
+CREATE INDEX IF NOT EXISTS idx_escalations_assigned_to ON escalations(assigned_to) WHERE assigned_to IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_escalations_updated_at ON escalations;
+CREATE TRIGGER update_escalations_updated_at BEFORE UPDATE ON escalations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Queue calls escalated before the queue existed
+INSERT INTO escalations (call_session_id, reason, created_at)
+SELECT id, escalation_reason, COALESCE(ended_at, started_at)
+FROM call_sessions
+WHERE escalated = true
+ON CONFLICT (call_session_id) DO NOTHING;
@@ -0,0 +1,44 @@
+-- 017_contact_phone_normalization
+-- Phone numbers stored in E.164 (contacts.phonenumber) with the original kept alongside,
+-- plus validity, line type and country. Contacts dedupe on the E.164 number and invalid
+-- numbers are excluded from eligible calls.
+
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS phonenumber_raw VARCHAR(50);
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS phone_valid BOOLEAN; -- NULL = not normalized yet
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS phone_type VARCHAR(20); -- 'mobile', 'landline', 'non_geographic', 'unknown'
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS phone_country VARCHAR(2);
+
+-- Keep the original of existing numbers
+UPDATE contacts
+SET phonenumber_raw = phonenumber
+WHERE phonenumber IS NOT NULL AND phonenumber_raw IS NULL;
+
+-- Normalize existing Australian numbers (+61 / 61 / 0 prefixes, including a stray trunk 0
+-- after +61); other formats are normalized the next time the contact is upserted
+WITH compact AS (
+    SELECT id, regexp_replace(phonenumber, '[\s().\-/]', '', 'g') AS digits
+    FROM contacts
+    WHERE phonenumber IS NOT NULL AND phone_valid IS NULL
+),
+national AS (
+    SELECT id, CASE
+        WHEN digits ~ '^\+61\d+$' THEN regexp_replace(digits, '^\+610?', '')
+        WHEN digits ~ '^0[1-9]\d*$' THEN substring(digits FROM 2)
+        WHEN digits ~ '^610?4\d{8}$' THEN regexp_replace(digits, '^610?', '')
+    END AS nsn
+    FROM compact
+)
+UPDATE contacts c
+SET
+    phonenumber = CASE WHEN n.nsn ~ '^(4\d{8}|[2378]\d{8}|1[38]00\d{6}|13\d{4})$' THEN '+61' || n.nsn ELSE c.phonenumber END,
+    phone_valid = n.nsn ~ '^(4\d{8}|[2378]\d{8}|1[38]00\d{6}|13\d{4})$',
+    phone_type = CASE
+        WHEN n.nsn ~ '^4\d{8}$' THEN 'mobile'
+        WHEN n.nsn ~ '^[2378]\d{8}$' THEN 'landline'
+        WHEN n.nsn ~ '^(1[38]00\d{6}|13\d{4})$' THEN 'non_geographic'
+    END,
+    phone_country = 'AU'
+FROM national n
+WHERE c.id = n.id AND n.nsn IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_phone_valid ON contacts(phone_valid) WHERE phone_valid = false;
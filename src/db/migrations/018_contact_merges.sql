@@ -0,0 +1,7 @@
+-- 018_contact_merges
+-- Merged duplicate contacts are kept as aliases of the surviving contact
+
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS merged_into_id UUID REFERENCES contacts(id) ON DELETE SET NULL;
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS merged_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_merged_into_id ON contacts(merged_into_id) WHERE merged_into_id IS NOT NULL;
@@ -0,0 +1,64 @@
+-- 019_hubspot_sync_outbox
+-- Transactional outbox for HubSpot sync: writes to synced tables enqueue a job in the same
+-- transaction (triggers); a worker drains the queue with retries (see SyncJobService)
+
+CREATE TABLE IF NOT EXISTS sync_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entity_type VARCHAR(50) NOT NULL, -- 'project', 'contact', 'project_contact', 'call_session', 'terminal_session'
+    entity_id UUID NOT NULL, -- Internal id of the written row
+    status VARCHAR(50) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    resync_requested BOOLEAN NOT NULL DEFAULT false, -- Written again while processing: sync once more
+    locked_by VARCHAR(255), -- Worker processing the job
+    locked_until TIMESTAMP WITH TIME ZONE, -- After this the job may be claimed again
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT sync_jobs_entity_type_check CHECK (entity_type IN ('project', 'contact', 'project_contact', 'call_session', 'terminal_session')),
+    CONSTRAINT sync_jobs_status_check CHECK (status IN ('pending', 'processing', 'succeeded', 'dead'))
+);
+
+-- One active job per entity: writes while it is queued are covered by it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_jobs_active_entity
+    ON sync_jobs(entity_type, entity_id) WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_due ON sync_jobs(next_attempt_at) WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_status ON sync_jobs(status, created_at);
+
+DROP TRIGGER IF EXISTS update_sync_jobs_updated_at ON sync_jobs;
+CREATE TRIGGER update_sync_jobs_updated_at BEFORE UPDATE ON sync_jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enqueue a sync job for the written row (TG_ARGV[0]: entity type)
+CREATE OR REPLACE FUNCTION enqueue_sync_job()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO sync_jobs (entity_type, entity_id)
+    VALUES (TG_ARGV[0], NEW.id)
+    ON CONFLICT (entity_type, entity_id) WHERE status IN ('pending', 'processing')
+    DO UPDATE SET resync_requested = sync_jobs.resync_requested OR sync_jobs.status = 'processing';
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS enqueue_crm_projects_sync ON crm_projects;
+CREATE TRIGGER enqueue_crm_projects_sync AFTER INSERT OR UPDATE ON crm_projects
+    FOR EACH ROW EXECUTE FUNCTION enqueue_sync_job('project');
+
+DROP TRIGGER IF EXISTS enqueue_contacts_sync ON contacts;
+CREATE TRIGGER enqueue_contacts_sync AFTER INSERT OR UPDATE ON contacts
+    FOR EACH ROW EXECUTE FUNCTION enqueue_sync_job('contact');
+
+DROP TRIGGER IF EXISTS enqueue_project_contacts_sync ON project_contacts;
+CREATE TRIGGER enqueue_project_contacts_sync AFTER INSERT OR UPDATE ON project_contacts
+    FOR EACH ROW EXECUTE FUNCTION enqueue_sync_job('project_contact');
+
+DROP TRIGGER IF EXISTS enqueue_call_sessions_sync ON call_sessions;
+CREATE TRIGGER enqueue_call_sessions_sync AFTER INSERT OR UPDATE ON call_sessions
+    FOR EACH ROW EXECUTE FUNCTION enqueue_sync_job('call_session');
+
+DROP TRIGGER IF EXISTS enqueue_terminal_sessions_sync ON terminal_sessions;
+CREATE TRIGGER enqueue_terminal_sessions_sync AFTER INSERT OR UPDATE ON terminal_sessions
+    FOR EACH ROW EXECUTE FUNCTION enqueue_sync_job('terminal_session');
@@ -0,0 +1,18 @@
+-- 020_eligibility_policy_scope_case
+-- Override scope values are matched case-insensitively: make the active-policy uniqueness
+-- case-insensitive too, so 'Education' and 'education' cannot both be active
+
+-- Keep the most recent of active overrides that differ only in case
+UPDATE eligibility_policies ep SET is_active = false
+WHERE ep.is_active = true
+  AND EXISTS (
+    SELECT 1 FROM eligibility_policies newer
+    WHERE newer.is_active = true
+      AND newer.scope = ep.scope
+      AND LOWER(COALESCE(newer.scope_value, '')) = LOWER(COALESCE(ep.scope_value, ''))
+      AND (newer.created_at, newer.id) > (ep.created_at, ep.id)
+  );
+
+DROP INDEX IF EXISTS idx_eligibility_policies_active_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_eligibility_policies_active_unique
+    ON eligibility_policies(scope, LOWER(COALESCE(scope_value, ''))) WHERE is_active = true;
@@ -0,0 +1,6 @@
+-- 021_post_call_failures
+-- Failed post-call scans are recorded on the session and retried a limited number of
+-- times, so one bad session cannot stall the processor
+
+ALTER TABLE call_sessions ADD COLUMN IF NOT EXISTS post_call_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE call_sessions ADD COLUMN IF NOT EXISTS post_call_error TEXT;
@@ -0,0 +1,16 @@
+-- 022_call_leases_per_contact
+-- A contact is leased to one worker at a time, across all of its projects, so
+-- concurrent claims cannot dial the same person twice
+
+-- Keep the oldest of a contact's active leases
+UPDATE call_leases l SET released_at = NOW(), release_reason = 'superseded'
+WHERE l.released_at IS NULL
+  AND EXISTS (
+    SELECT 1 FROM call_leases older
+    WHERE older.released_at IS NULL
+      AND older.contact_id = l.contact_id
+      AND (older.leased_at, older.id) < (l.leased_at, l.id)
+  );
+
+DROP INDEX IF EXISTS idx_call_leases_active_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_call_leases_active_unique ON call_leases(contact_id) WHERE released_at IS NULL;
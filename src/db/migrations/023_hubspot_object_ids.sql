@@ -0,0 +1,54 @@
+-- 023_hubspot_object_ids
+-- HubSpot object ids of synced rows, so re-syncs update the object they created instead of
+-- searching for it (HubSpot search lags behind writes, so an immediate re-sync would create a
+-- duplicate deal, contact or call note)
+--
+-- Sync triggers ignore bookkeeping columns (updated_at, the stored HubSpot ids, post-call
+-- scan state, contact cooldowns), so writing them does not enqueue a sync job.
+-- Rows written before 019_hubspot_sync_outbox are not backfilled: they are synced on their
+-- next write.
+
+ALTER TABLE crm_projects ADD COLUMN IF NOT EXISTS hubspot_deal_id VARCHAR(50);
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS hubspot_contact_id VARCHAR(50);
+ALTER TABLE call_sessions ADD COLUMN IF NOT EXISTS hubspot_note_id VARCHAR(50);
+
+-- Enqueue a sync job for the written row (TG_ARGV[0]: entity type; TG_ARGV[1..]: columns
+-- ignored on UPDATE: an update that changes only those does not enqueue a job)
+CREATE OR REPLACE FUNCTION enqueue_sync_job()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+       AND to_jsonb(NEW) - TG_ARGV[1:TG_NARGS - 1] = to_jsonb(OLD) - TG_ARGV[1:TG_NARGS - 1] THEN
+        RETURN NEW;
+    END IF;
+    INSERT INTO sync_jobs (entity_type, entity_id)
+    VALUES (TG_ARGV[0], NEW.id)
+    ON CONFLICT (entity_type, entity_id) WHERE status IN ('pending', 'processing')
+    DO UPDATE SET resync_requested = sync_jobs.resync_requested OR sync_jobs.status = 'processing';
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS enqueue_crm_projects_sync ON crm_projects;
+CREATE TRIGGER enqueue_crm_projects_sync AFTER INSERT OR UPDATE ON crm_projects
+    FOR EACH ROW EXECUTE FUNCTION enqueue_sync_job('project', 'updated_at', 'hubspot_deal_id');
+
+DROP TRIGGER IF EXISTS enqueue_contacts_sync ON contacts;
+CREATE TRIGGER enqueue_contacts_sync AFTER INSERT OR UPDATE ON contacts
+    FOR EACH ROW EXECUTE FUNCTION enqueue_sync_job(
+        'contact', 'updated_at', 'hubspot_contact_id', 'last_ai_contact', 'last_contacted_at', 'next_call_eligible_at'
+    );
+
+DROP TRIGGER IF EXISTS enqueue_project_contacts_sync ON project_contacts;
+CREATE TRIGGER enqueue_project_contacts_sync AFTER INSERT OR UPDATE OF project_id, contact_id ON project_contacts
+    FOR EACH ROW EXECUTE FUNCTION enqueue_sync_job('project_contact');
+
+DROP TRIGGER IF EXISTS enqueue_call_sessions_sync ON call_sessions;
+CREATE TRIGGER enqueue_call_sessions_sync AFTER INSERT OR UPDATE ON call_sessions
+    FOR EACH ROW EXECUTE FUNCTION enqueue_sync_job(
+        'call_session', 'contact_id', 'hubspot_note_id', 'post_call_processed_at', 'post_call_attempts', 'post_call_error'
+    );
+
+DROP TRIGGER IF EXISTS enqueue_terminal_sessions_sync ON terminal_sessions;
+CREATE TRIGGER enqueue_terminal_sessions_sync AFTER INSERT OR UPDATE ON terminal_sessions
+    FOR EACH ROW EXECUTE FUNCTION enqueue_sync_job('terminal_session', 'updated_at');
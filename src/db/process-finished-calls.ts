@@ -0,0 +1,58 @@
+import dotenv from 'dotenv';
+import pool from './connection';
+import { PostCallService } from '../services/PostCallService';
+
+dotenv.config();
+
+/**
+ * Post-call processor
+ *
+ * Scans finished call sessions that have not been processed yet for opt-out,
+ * do-not-call, wrong-number and project-completed signals and creates the
+ * matching terminal sessions. Run periodically (e.g. from cron).
+ *
+ * Env:
+ * - POST_CALL_BATCH_SIZE: sessions per batch (default 100)
+ * - POST_CALL_MIN_CONFIDENCE: minimum detection confidence (default 0.8)
+ * - POST_CALL_MAX_ATTEMPTS: failed scans before a session is skipped (default 3)
+ */
+async function processFinishedCalls() {
+  const batchSize = parseInt(process.env.POST_CALL_BATCH_SIZE || '100', 10);
+  const postCallService = new PostCallService();
+
+  try {
+    let processed = 0;
+    let failed = 0;
+    let created = 0;
+    for (;;) {
+      const batch = await postCallService.processFinishedSessions(batchSize);
+      processed += batch.processed.length;
+      failed += batch.failed.length;
+      for (const result of batch.processed) {
+        for (const terminal of result.terminal_sessions) {
+          created++;
+          console.log(`${result.call_session_id}: ${terminal.reason} (${terminal.scope})`);
+        }
+      }
+      for (const failure of batch.failed) {
+        console.error(`${failure.call_session_id}: post-call processing failed: ${failure.error}`);
+      }
+      if (batch.processed.length + batch.failed.length < batchSize) break;
+    }
+
+    console.log(`Processed ${processed} finished calls, ${created} terminal sessions, ${failed} failed`);
+  } finally {
+    await pool.end();
+  }
+}
+
+if (require.main === module) {
+  processFinishedCalls()
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error('Post-call processing failed:', err);
+      process.exit(1);
+    });
+}
+
+export { processFinishedCalls };
@@ -27,14 +27,21 @@ CREATE TABLE IF NOT EXISTS crm_projects (
     awarded_date DATE,
     distance DECIMAL(12, 4),
     budget VARCHAR(255),
+    budget_min DECIMAL(14, 2), -- parsed from budget band
+    budget_max DECIMAL(14, 2), -- parsed from budget band
     quotes_due_date DATE,
     country VARCHAR(100) DEFAULT 'AU',
+    timezone VARCHAR(64), -- IANA timezone; NULL = derive from state
+    priority_score DECIMAL(5, 4), -- 0..1, from HubSpot
     
     -- Call management
     last_contacted_at TIMESTAMP WITH TIME ZONE,
     next_call_eligible_at TIMESTAMP WITH TIME ZONE,
     call_suppressed BOOLEAN DEFAULT false,
     
+    -- HubSpot sync
+    hubspot_deal_id VARCHAR(50), -- Deal the project was synced to
+    
     -- Audit fields
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
@@ -56,12 +63,21 @@ CREATE TABLE IF NOT EXISTS contacts (
     name VARCHAR(500) NOT NULL,
     email VARCHAR(255),
     companyname VARCHAR(500),
-    phonenumber VARCHAR(50),
+    phonenumber VARCHAR(50), -- E.164 when valid, otherwise as received
+    phonenumber_raw VARCHAR(50), -- As received
+    phone_valid BOOLEAN, -- NULL = not normalized yet
+    phone_type VARCHAR(20), -- 'mobile', 'landline', 'non_geographic', 'unknown'
+    phone_country VARCHAR(2),
     global_role VARCHAR(100),
     authority_level VARCHAR(100),
     preferred_channel VARCHAR(50),
     do_not_call BOOLEAN DEFAULT false,
     last_ai_contact TIMESTAMP WITH TIME ZONE,
+    last_contacted_at TIMESTAMP WITH TIME ZONE, -- Last completed call on any project (starts the contact cooldown)
+    next_call_eligible_at TIMESTAMP WITH TIME ZONE, -- Contact-level hold across all projects
+    merged_into_id UUID REFERENCES contacts(id) ON DELETE SET NULL, -- Set on merged duplicates (kept as aliases)
+    merged_at TIMESTAMP WITH TIME ZONE,
+    hubspot_contact_id VARCHAR(50), -- HubSpot contact the contact was synced to
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -70,6 +86,8 @@ CREATE UNIQUE INDEX idx_contacts_contact_id_unique ON contacts(contact_id) WHERE
 CREATE INDEX idx_contacts_contact_id ON contacts(contact_id) WHERE contact_id IS NOT NULL;
 CREATE INDEX idx_contacts_phonenumber ON contacts(phonenumber) WHERE phonenumber IS NOT NULL;
 CREATE INDEX idx_contacts_email ON contacts(email) WHERE email IS NOT NULL;
+CREATE INDEX idx_contacts_phone_valid ON contacts(phone_valid) WHERE phone_valid = false;
+CREATE INDEX idx_contacts_merged_into_id ON contacts(merged_into_id) WHERE merged_into_id IS NOT NULL;
 CREATE INDEX idx_contacts_do_not_call ON contacts(do_not_call);
 
 -- ============================================================================
@@ -88,6 +106,9 @@ CREATE TABLE IF NOT EXISTS project_contacts (
     preferred_channel_project VARCHAR(50),
     last_contacted_at TIMESTAMP WITH TIME ZONE,
     suppress_for_project BOOLEAN DEFAULT false,
+    next_call_eligible_at TIMESTAMP WITH TIME ZONE, -- Follow-up from the last call's outcome
+    callback_at TIMESTAMP WITH TIME ZONE, -- Callback slot the contact asked for
+    follow_up_reason VARCHAR(100), -- Outcome the follow-up was scheduled for
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     CONSTRAINT project_contacts_unique UNIQUE (project_id, contact_id)
@@ -96,6 +117,46 @@ CREATE TABLE IF NOT EXISTS project_contacts (
 CREATE INDEX idx_project_contacts_project_id ON project_contacts(project_id);
 CREATE INDEX idx_project_contacts_contact_id ON project_contacts(contact_id);
 CREATE INDEX idx_project_contacts_role_confirmed ON project_contacts(role_confirmed);
+CREATE INDEX idx_project_contacts_project_contact ON project_contacts(project_id, contact_id) WHERE suppress_for_project = false OR suppress_for_project IS NULL;
+CREATE INDEX idx_project_contacts_next_call_eligible_at ON project_contacts(next_call_eligible_at) WHERE next_call_eligible_at IS NOT NULL;
+
+-- ============================================================================
+-- Campaigns Table
+-- Outbound campaigns: target filter, script/agent, pacing and schedule.
+-- Eligible calls, leases and call sessions are attributed to a campaign.
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS campaigns (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(500) NOT NULL,
+    description TEXT,
+    status VARCHAR(50) NOT NULL DEFAULT 'draft', -- 'draft', 'active', 'paused', 'completed'
+    
+    -- Target filter over projects/contacts, e.g.
+    -- {"categories": ["Education"], "states": ["VIC"], "budget_min": 1000000, "roles": ["builder"]}
+    target_filter JSONB NOT NULL DEFAULT '{}'::jsonb,
+    
+    -- Conversation
+    script_id VARCHAR(255),
+    agent_id VARCHAR(255),
+    call_type VARCHAR(50) NOT NULL DEFAULT 'ai',
+    
+    -- Pacing (campaign-wide; NULL = unlimited)
+    max_calls_per_hour INTEGER,
+    max_calls_per_day INTEGER,
+    max_concurrent_calls INTEGER,
+    
+    -- Schedule (NULL = open-ended)
+    start_at TIMESTAMP WITH TIME ZONE,
+    end_at TIMESTAMP WITH TIME ZONE,
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    
+    CONSTRAINT campaigns_status_check CHECK (status IN ('draft', 'active', 'paused', 'completed')),
+    CONSTRAINT campaigns_schedule_check CHECK (start_at IS NULL OR end_at IS NULL OR start_at < end_at)
+);
+
+CREATE INDEX idx_campaigns_status ON campaigns(status);
 
 -- ============================================================================
 -- CallSessions Table
@@ -114,7 +175,10 @@ CREATE TABLE IF NOT EXISTS call_sessions (
     
     -- Call metadata
     call_type VARCHAR(50) NOT NULL, -- 'ai' or 'human'
-    call_status VARCHAR(100) NOT NULL, -- 'initiated', 'completed', 'failed', 'no_answer', etc.
+    -- Lifecycle: queued -> dialing -> ringing -> in_progress -> completed,
+    -- or no_answer / busy / voicemail / failed / canceled (see src/utils/call-status.ts)
+    call_status VARCHAR(100) NOT NULL,
+    status_history JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{"from", "to", "at"}] per status change
     
     -- Role detection
     detected_role VARCHAR(100),
@@ -126,6 +190,14 @@ CREATE TABLE IF NOT EXISTS call_sessions (
     escalated BOOLEAN DEFAULT false,
     escalation_reason TEXT,
     
+    -- Attribution
+    campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL,
+    parent_call_session_id UUID REFERENCES call_sessions(id) ON DELETE SET NULL, -- Call this one follows up (e.g. human call after an escalation)
+    
+    -- Telephony
+    provider VARCHAR(50), -- 'simulator', 'twilio'
+    provider_call_id VARCHAR(255), -- Provider's call ID (e.g. Twilio CallSid)
+    
     -- Call artifacts
     transcript TEXT,
     recording_url VARCHAR(1000),
@@ -133,9 +205,21 @@ CREATE TABLE IF NOT EXISTS call_sessions (
     -- Timestamps
     started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     ended_at TIMESTAMP WITH TIME ZONE,
+    post_call_processed_at TIMESTAMP WITH TIME ZONE, -- When the post-call processor scanned this session
+    post_call_attempts INTEGER NOT NULL DEFAULT 0, -- Failed post-call scans
+    post_call_error TEXT, -- Last post-call scan error
+    
+    -- HubSpot sync
+    hubspot_note_id VARCHAR(50), -- Deal note the call outcome was synced to
     
     -- Audit fields
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    
+    CONSTRAINT call_sessions_call_status_check CHECK (call_status IN (
+        'queued', 'dialing', 'ringing', 'in_progress',
+        'completed', 'no_answer', 'busy', 'voicemail', 'failed', 'canceled'
+    )),
+    CONSTRAINT call_sessions_ended_after_started CHECK (ended_at IS NULL OR started_at IS NULL OR ended_at >= started_at)
 );
 
 -- Unique index for call_session_id (only when not null)
@@ -145,6 +229,50 @@ CREATE INDEX idx_call_sessions_contact_id ON call_sessions(contact_id) WHERE con
 CREATE INDEX idx_call_sessions_ended_at ON call_sessions(ended_at);
 CREATE INDEX idx_call_sessions_call_type ON call_sessions(call_type);
 CREATE INDEX idx_call_sessions_call_status ON call_sessions(call_status);
+CREATE INDEX idx_call_sessions_started_at ON call_sessions(started_at);
+CREATE INDEX idx_call_sessions_campaign_id ON call_sessions(campaign_id, started_at) WHERE campaign_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_call_sessions_provider_call ON call_sessions(provider, provider_call_id) WHERE provider_call_id IS NOT NULL;
+CREATE INDEX idx_call_sessions_project_started_at ON call_sessions(project_id, started_at);
+CREATE INDEX idx_call_sessions_contact_started_at ON call_sessions(contact_id, started_at) WHERE contact_id IS NOT NULL;
+CREATE INDEX idx_call_sessions_post_call_pending ON call_sessions(started_at) WHERE post_call_processed_at IS NULL;
+CREATE INDEX idx_call_sessions_parent_call_session_id ON call_sessions(parent_call_session_id) WHERE parent_call_session_id IS NOT NULL;
+
+-- ============================================================================
+-- CallSessionEvents Table
+-- Append-only log of every change to a call session (create and each update),
+-- with the per-column diff, actor and source. Folding the diffs in order
+-- reconstructs the session as of any moment.
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS call_session_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    call_session_id UUID NOT NULL REFERENCES call_sessions(id) ON DELETE CASCADE,
+    event_type VARCHAR(50) NOT NULL, -- 'created', 'updated'
+    actor VARCHAR(255) NOT NULL DEFAULT 'system',
+    source VARCHAR(50) NOT NULL DEFAULT 'system', -- 'api', 'telephony', 'system', 'migration'
+    changes JSONB NOT NULL, -- {"column": {"from": ..., "to": ...}}
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX idx_call_session_events_session ON call_session_events(call_session_id, created_at);
+
+-- ============================================================================
+-- CallTranscriptTurns Table
+-- Structured transcript of a call session: one row per speaker turn, with
+-- offsets from the start of the call. Turns can be appended during a live call.
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS call_transcript_turns (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    call_session_id UUID NOT NULL REFERENCES call_sessions(id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL, -- position in the transcript, 1-based
+    speaker VARCHAR(20) NOT NULL CHECK (speaker IN ('agent', 'callee')),
+    start_ms INTEGER NOT NULL CHECK (start_ms >= 0),
+    end_ms INTEGER NOT NULL,
+    text TEXT NOT NULL,
+    confidence DECIMAL(3,2) CHECK (confidence >= 0 AND confidence <= 1),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT call_transcript_turns_offsets_check CHECK (end_ms >= start_ms),
+    CONSTRAINT call_transcript_turns_seq_unique UNIQUE (call_session_id, seq)
+);
 
 -- ============================================================================
 -- TerminalSessions Table
@@ -165,6 +293,7 @@ CREATE TABLE IF NOT EXISTS terminal_sessions (
     -- Terminal state details
     reason VARCHAR(500) NOT NULL, -- 'opt_out', 'do_not_call', 'project_completed', etc.
     created_by VARCHAR(255), -- 'system', 'user', 'contact', etc.
+    call_session_id UUID REFERENCES call_sessions(id) ON DELETE SET NULL, -- Call the terminal state was detected on
     
     -- Expiration (NULL = permanent)
     expires_at TIMESTAMP WITH TIME ZONE,
@@ -190,6 +319,7 @@ CREATE INDEX idx_terminal_sessions_scope ON terminal_sessions(scope);
 CREATE INDEX idx_terminal_sessions_project_id ON terminal_sessions(project_id) WHERE project_id IS NOT NULL;
 CREATE INDEX idx_terminal_sessions_contact_id ON terminal_sessions(contact_id) WHERE contact_id IS NOT NULL;
 CREATE INDEX idx_terminal_sessions_expires_at ON terminal_sessions(expires_at) WHERE expires_at IS NOT NULL;
+CREATE INDEX idx_terminal_sessions_call_session_id ON terminal_sessions(call_session_id) WHERE call_session_id IS NOT NULL;
 -- Note: Cannot use CURRENT_TIMESTAMP in index predicate, so we index expires_at and scope separately
 -- Active sessions can be queried with: WHERE expires_at IS NULL OR expires_at > NOW()
 CREATE INDEX idx_terminal_sessions_expires_scope ON terminal_sessions(expires_at, scope);
@@ -218,3 +348,167 @@ CREATE TRIGGER update_project_contacts_updated_at BEFORE UPDATE ON project_conta
 
 CREATE TRIGGER update_terminal_sessions_updated_at BEFORE UPDATE ON terminal_sessions
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_campaigns_updated_at BEFORE UPDATE ON campaigns
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- CallLeases Table
+-- Short-lived reservations of project/contact pairs handed to dialer workers
+-- project_id = crm_projects.project_id (external), contact_id = contacts.contact_id (external)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS call_leases (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id VARCHAR(255) NOT NULL REFERENCES crm_projects(project_id) ON DELETE CASCADE,
+    contact_id VARCHAR(255) NOT NULL,
+    worker_id VARCHAR(255) NOT NULL,
+    campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL,
+    
+    -- Lease lifecycle
+    leased_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    heartbeat_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    released_at TIMESTAMP WITH TIME ZONE, -- NULL = still held (until expires_at)
+    release_reason VARCHAR(100), -- 'released', 'expired', etc.
+    
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- At most one unreleased lease per contact, on any project (claims rely on this for atomicity)
+CREATE UNIQUE INDEX idx_call_leases_active_unique ON call_leases(contact_id) WHERE released_at IS NULL;
+CREATE INDEX idx_call_leases_worker_id ON call_leases(worker_id) WHERE released_at IS NULL;
+CREATE INDEX idx_call_leases_expires_at ON call_leases(expires_at) WHERE released_at IS NULL;
+
+-- ============================================================================
+-- EligibilityPolicies Table
+-- Versioned call pacing policy: global default plus overrides per
+-- project category, contact authority_level and call_type.
+-- Each change inserts a new version; only the latest version is active.
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS eligibility_policies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    scope VARCHAR(50) NOT NULL, -- 'global', 'category', 'authority_level', 'call_type'
+    scope_value VARCHAR(255), -- NULL for global
+    version INTEGER NOT NULL,
+    
+    -- Pacing (NULL = inherit from less specific policy)
+    min_call_cooldown_hours DECIMAL(8, 2), -- Project cooldown
+    project_contact_cooldown_hours DECIMAL(8, 2), -- Same contact on the same project
+    contact_cooldown_hours DECIMAL(8, 2), -- Same contact on any project
+    max_calls_per_day INTEGER,
+    max_calls_per_week INTEGER,
+    
+    is_active BOOLEAN DEFAULT true,
+    notes TEXT,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    
+    CONSTRAINT eligibility_policies_scope_check CHECK (
+        (scope = 'global' AND scope_value IS NULL) OR
+        (scope IN ('category', 'authority_level', 'call_type') AND scope_value IS NOT NULL)
+    )
+);
+
+CREATE UNIQUE INDEX idx_eligibility_policies_version_unique ON eligibility_policies(scope, COALESCE(scope_value, ''), version);
+CREATE UNIQUE INDEX idx_eligibility_policies_active_unique ON eligibility_policies(scope, LOWER(COALESCE(scope_value, ''))) WHERE is_active = true; -- Scope values match case-insensitively
+
+-- ============================================================================
+-- Escalations Table
+-- Human escalation queue: one row per escalated call session.
+-- Lifecycle: open -> claimed (assigned to a rep) -> resolved; claimed can be released back to open.
+-- SLA due times are derived from created_at (see EscalationService).
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS escalations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    call_session_id UUID NOT NULL REFERENCES call_sessions(id) ON DELETE CASCADE,
+    reason TEXT,
+    status VARCHAR(50) NOT NULL DEFAULT 'open', -- 'open', 'claimed', 'resolved'
+    assigned_to VARCHAR(255), -- Human rep handling the escalation
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolved_by VARCHAR(255),
+    resolution VARCHAR(100),
+    resolution_notes TEXT,
+    follow_up_session_id UUID REFERENCES call_sessions(id) ON DELETE SET NULL, -- Human call created on resolution
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT escalations_call_session_unique UNIQUE (call_session_id),
+    CONSTRAINT escalations_status_check CHECK (status IN ('open', 'claimed', 'resolved')),
+    CONSTRAINT escalations_assignee_check CHECK (status <> 'claimed' OR assigned_to IS NOT NULL)
+);
+
+CREATE INDEX idx_escalations_unresolved ON escalations(created_at) WHERE status <> 'resolved';
+CREATE INDEX idx_escalations_assigned_to ON escalations(assigned_to) WHERE assigned_to IS NOT NULL;
+
+CREATE TRIGGER update_escalations_updated_at BEFORE UPDATE ON escalations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- Sync Jobs Table
+-- Transactional outbox for HubSpot sync: writes to crm_projects, contacts, project_contacts,
+-- call_sessions and terminal_sessions enqueue a job in the same transaction (triggers below).
+-- Lifecycle: pending -> processing -> succeeded, or back to pending (retry with backoff)
+-- and dead after the last attempt (see SyncJobService).
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS sync_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entity_type VARCHAR(50) NOT NULL, -- 'project', 'contact', 'project_contact', 'call_session', 'terminal_session'
+    entity_id UUID NOT NULL, -- Internal id of the written row
+    status VARCHAR(50) NOT NULL DEFAULT 'pending', -- 'pending', 'processing', 'succeeded', 'dead'
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    resync_requested BOOLEAN NOT NULL DEFAULT false, -- Written again while processing: sync once more
+    locked_by VARCHAR(255), -- Worker processing the job
+    locked_until TIMESTAMP WITH TIME ZONE, -- After this the job may be claimed again
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT sync_jobs_entity_type_check CHECK (entity_type IN ('project', 'contact', 'project_contact', 'call_session', 'terminal_session')),
+    CONSTRAINT sync_jobs_status_check CHECK (status IN ('pending', 'processing', 'succeeded', 'dead'))
+);
+
+-- One active job per entity: writes while it is queued are covered by it
+CREATE UNIQUE INDEX idx_sync_jobs_active_entity ON sync_jobs(entity_type, entity_id) WHERE status IN ('pending', 'processing');
+CREATE INDEX idx_sync_jobs_due ON sync_jobs(next_attempt_at) WHERE status IN ('pending', 'processing');
+CREATE INDEX idx_sync_jobs_status ON sync_jobs(status, created_at);
+
+CREATE TRIGGER update_sync_jobs_updated_at BEFORE UPDATE ON sync_jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enqueue a sync job for the written row (TG_ARGV[0]: entity type; TG_ARGV[1..]: columns
+-- ignored on UPDATE: an update that changes only those does not enqueue a job)
+CREATE OR REPLACE FUNCTION enqueue_sync_job()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+       AND to_jsonb(NEW) - TG_ARGV[1:TG_NARGS - 1] = to_jsonb(OLD) - TG_ARGV[1:TG_NARGS - 1] THEN
+        RETURN NEW;
+    END IF;
+    INSERT INTO sync_jobs (entity_type, entity_id)
+    VALUES (TG_ARGV[0], NEW.id)
+    ON CONFLICT (entity_type, entity_id) WHERE status IN ('pending', 'processing')
+    DO UPDATE SET resync_requested = sync_jobs.resync_requested OR sync_jobs.status = 'processing';
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER enqueue_crm_projects_sync AFTER INSERT OR UPDATE ON crm_projects
+    FOR EACH ROW EXECUTE FUNCTION enqueue_sync_job('project', 'updated_at', 'hubspot_deal_id');
+
+CREATE TRIGGER enqueue_contacts_sync AFTER INSERT OR UPDATE ON contacts
+    FOR EACH ROW EXECUTE FUNCTION enqueue_sync_job(
+        'contact', 'updated_at', 'hubspot_contact_id', 'last_ai_contact', 'last_contacted_at', 'next_call_eligible_at'
+    );
+
+CREATE TRIGGER enqueue_project_contacts_sync AFTER INSERT OR UPDATE OF project_id, contact_id ON project_contacts
+    FOR EACH ROW EXECUTE FUNCTION enqueue_sync_job('project_contact');
+
+CREATE TRIGGER enqueue_call_sessions_sync AFTER INSERT OR UPDATE ON call_sessions
+    FOR EACH ROW EXECUTE FUNCTION enqueue_sync_job(
+        'call_session', 'contact_id', 'hubspot_note_id', 'post_call_processed_at', 'post_call_attempts', 'post_call_error'
+    );
+
+CREATE TRIGGER enqueue_terminal_sessions_sync AFTER INSERT OR UPDATE ON terminal_sessions
+    FOR EACH ROW EXECUTE FUNCTION enqueue_sync_job('terminal_session', 'updated_at');
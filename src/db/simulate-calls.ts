@@ -0,0 +1,100 @@
+import dotenv from 'dotenv';
+import pool, { query } from './connection';
+import { CallLeaseService } from '../services/CallLeaseService';
+import { TelephonyService } from '../services/TelephonyService';
+import { SimulatorTelephonyProvider } from '../telephony';
+import { isTerminalCallStatus } from '../utils/call-status';
+
+dotenv.config();
+
+/**
+ * Offline call loop
+ *
+ * Claims eligible calls as a dialer worker, places them through the simulator provider
+ * and waits until every call session is closed, then prints a summary.
+ * Writes real call sessions to the configured database.
+ *
+ * Env:
+ * - SIMULATE_CALLS: number of calls to claim (default 10)
+ * - SIMULATE_CAMPAIGN_ID: claim from one campaign
+ * - TELEPHONY_SIMULATOR_TIME_SCALE_MS: real ms per simulated second (default 10 here); 0 delivers
+ *   status events before placeCall has saved the provider call id, which exercises that race
+ */
+
+const WORKER_ID = 'simulator';
+const POLL_INTERVAL_MS = 250;
+const TIMEOUT_MS = 5 * 60 * 1000;
+
+async function runSimulation() {
+  const count = parseInt(process.env.SIMULATE_CALLS || '10', 10);
+  const timeScaleMs = parseInt(process.env.TELEPHONY_SIMULATOR_TIME_SCALE_MS || '10', 10);
+  const leaseService = new CallLeaseService();
+  const telephonyService = new TelephonyService(new SimulatorTelephonyProvider({ timeScaleMs }));
+
+  try {
+    const claimed = await leaseService.claimCalls(WORKER_ID, count, 600, process.env.SIMULATE_CAMPAIGN_ID);
+    console.log(`Claimed ${claimed.length} calls`);
+
+    const sessionIds: string[] = [];
+    for (const call of claimed) {
+      try {
+        const session = await telephonyService.placeCall({
+          project_id: call.project_id,
+          contact_id: call.contact_id,
+          campaign_id: call.campaign_id,
+          worker_id: WORKER_ID,
+        });
+        sessionIds.push(session.id!);
+      } catch (error: any) {
+        console.warn(`Skipped ${call.project_id}/${call.contact_id}: ${error.message}`);
+        await leaseService.releaseLease(call.lease_id, WORKER_ID, 'not_placed');
+      }
+    }
+
+    if (sessionIds.length === 0) {
+      return;
+    }
+
+    // Wait for every session to reach a terminal status
+    const deadline = Date.now() + TIMEOUT_MS;
+    let sessions: any[] = [];
+    while (Date.now() < deadline) {
+      const result = await query(
+        `SELECT cs.id, p.project_id, cs.call_status, cs.outcome, cs.sentiment, cs.ended_at
+         FROM call_sessions cs
+         INNER JOIN crm_projects p ON p.id = cs.project_id
+         WHERE cs.id = ANY($1)`,
+        [sessionIds]
+      );
+      sessions = result.rows;
+      if (sessions.every(s => isTerminalCallStatus(s.call_status))) break;
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+
+    console.table(sessions.map(s => ({
+      session: s.id,
+      project: s.project_id,
+      status: s.call_status,
+      outcome: s.outcome,
+      sentiment: s.sentiment,
+    })));
+
+    const open = sessions.filter(s => !isTerminalCallStatus(s.call_status));
+    if (open.length > 0) {
+      throw new Error(`${open.length} call sessions still open after ${TIMEOUT_MS / 1000}s`);
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+if (require.main === module) {
+  runSimulation()
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error('Simulation failed:', err);
+      process.exit(1);
+    });
+}
+
+export { runSimulation };
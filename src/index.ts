@@ -8,6 +8,14 @@ import contactsRouter from './routes/contacts';
 import callSessionsRouter from './routes/call-sessions';
 import terminalSessionsRouter from './routes/terminal-sessions';
 import eligibleCallsRouter from './routes/eligible-calls';
+import eligibilityPoliciesRouter from './routes/eligibility-policies';
+import campaignsRouter from './routes/campaigns';
+import telephonyRouter from './routes/telephony';
+import escalationsRouter from './routes/escalations';
+import reportsRouter from './routes/reports';
+import { projectContactsRouter, contactProjectsRouter } from './routes/project-contacts';
+import importsRouter from './routes/imports';
+import syncRouter from './routes/sync';
 
 dotenv.config();
 
@@ -15,7 +23,7 @@ const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
-app.use(express.json());
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '10mb' })); // Batch upserts post thousands of records
 app.use(express.urlencoded({ extended: true }));
 
 // Health check
@@ -29,11 +37,20 @@ app.get('/health', async (req, res) => {
 });
 
 // API routes
+app.use('/api/projects/:project_id/contacts', projectContactsRouter);
+app.use('/api/contacts/:contact_id/projects', contactProjectsRouter);
 app.use('/api/projects', projectsRouter);
 app.use('/api/contacts', contactsRouter);
 app.use('/api/call-sessions', callSessionsRouter);
 app.use('/api/terminal-sessions', terminalSessionsRouter);
 app.use('/api/eligible-calls', eligibleCallsRouter);
+app.use('/api/eligibility-policies', eligibilityPoliciesRouter);
+app.use('/api/campaigns', campaignsRouter);
+app.use('/api/telephony', telephonyRouter);
+app.use('/api/escalations', escalationsRouter);
+app.use('/api/reports', reportsRouter);
+app.use('/api/imports', importsRouter);
+app.use('/api/sync', syncRouter);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -43,9 +60,18 @@ app.get('/', (req, res) => {
     endpoints: {
       projects: '/api/projects',
       contacts: '/api/contacts',
+      projectContacts: '/api/projects/:project_id/contacts',
+      contactProjects: '/api/contacts/:contact_id/projects',
       callSessions: '/api/call-sessions',
       terminalSessions: '/api/terminal-sessions',
       eligibleCalls: '/api/eligible-calls',
+      eligibilityPolicies: '/api/eligibility-policies',
+      campaigns: '/api/campaigns',
+      telephony: '/api/telephony',
+      escalations: '/api/escalations',
+      reports: '/api/reports',
+      imports: '/api/imports',
+      sync: '/api/sync',
     },
   });
 });
@@ -1,9 +1,16 @@
 import { Router, Request, Response } from 'express';
 import { CallSessionService } from '../services/CallSessionService';
+import { CallTranscriptService } from '../services/CallTranscriptService';
+import { PostCallService } from '../services/PostCallService';
+import { CallSessionEventContext, CallStatus, TranscriptFormat, TranscriptTurn } from '../types';
+import { CALL_STATUSES } from '../utils/call-status';
+import { renderTranscriptSrt, renderTranscriptText, renderTranscriptVtt } from '../utils/transcript';
 import { z } from 'zod';
 
 const router = Router();
 const callSessionService = new CallSessionService();
+const transcriptService = new CallTranscriptService();
+const postCallService = new PostCallService();
 
 /**
  * Request validation schemas
@@ -13,7 +20,7 @@ const CallSessionSchema = z.object({
   project_id: z.string(), // External project_id
   contact_id: z.string().optional(), // Internal UUID
   call_type: z.enum(['ai', 'human']),
-  call_status: z.string(),
+  call_status: z.enum(CALL_STATUSES as [CallStatus, ...CallStatus[]]),
   detected_role: z.string().optional(),
   role_confidence: z.number().min(0).max(1).optional(),
   outcome: z.string().optional(),
@@ -22,10 +29,56 @@ const CallSessionSchema = z.object({
   escalation_reason: z.string().optional(),
   transcript: z.string().optional(),
   recording_url: z.string().url().optional(),
+  campaign_id: z.string().uuid().optional(),
+  parent_call_session_id: z.string().uuid().optional(), // Call this one follows up
   started_at: z.string().optional(),
   ended_at: z.string().optional(),
 });
 
+const TranscriptTurnSchema = z.object({
+  seq: z.number().int().min(1).optional(), // Set to make retries idempotent
+  speaker: z.enum(['agent', 'callee']),
+  start_ms: z.number().int().min(0),
+  end_ms: z.number().int().min(0),
+  text: z.string().min(1),
+  confidence: z.number().min(0).max(1).optional(),
+}).refine(turn => turn.end_ms >= turn.start_ms, {
+  message: 'end_ms must not be before start_ms',
+  path: ['end_ms'],
+});
+
+const AppendTurnsSchema = z.object({
+  turns: z.array(TranscriptTurnSchema).min(1).max(500),
+});
+
+const TranscriptQuerySchema = z.object({
+  format: z.enum(['json', 'text', 'vtt', 'srt']).default('json'),
+});
+
+/**
+ * Content type and renderer for each text transcript export
+ */
+const TRANSCRIPT_EXPORTS: Record<Exclude<TranscriptFormat, 'json'>, {
+  contentType: string;
+  extension: string;
+  render: (turns: TranscriptTurn[]) => string;
+}> = {
+  text: { contentType: 'text/plain; charset=utf-8', extension: 'txt', render: renderTranscriptText },
+  vtt: { contentType: 'text/vtt; charset=utf-8', extension: 'vtt', render: renderTranscriptVtt },
+  srt: { contentType: 'application/x-subrip; charset=utf-8', extension: 'srt', render: renderTranscriptSrt },
+};
+
+const AsOfSchema = z.object({
+  as_of: z.coerce.date().optional(),
+});
+
+/**
+ * Who made the change, for the call session event log (X-Actor header)
+ */
+function eventContext(req: Request): CallSessionEventContext {
+  return { actor: req.get('x-actor') || 'api', source: 'api' };
+}
+
 /**
  * POST /api/call-sessions
  * Create call session (idempotent)
@@ -34,15 +87,20 @@ const CallSessionSchema = z.object({
  * - If call_session_id provided and exists, returns existing session
  * - Otherwise, creates new session
  * - All sessions are append-only (never deleted)
+ * - ended_at is only accepted with a terminal call_status (400 otherwise)
  */
 router.post('/', async (req: Request, res: Response) => {
   try {
     const sessionData = CallSessionSchema.parse(req.body);
-    const session = await callSessionService.createCallSession(sessionData);
+    const session = await callSessionService.createCallSession(sessionData, eventContext(req));
     res.status(201).json({ success: true, data: session });
-  } catch (error) {
+  } catch (error: any) {
     if (error instanceof z.ZodError) {
       res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+    } else if (error.message?.includes('Campaign not found')) {
+      res.status(404).json({ success: false, error: error.message });
+    } else if (error.message?.includes('Invalid call session')) {
+      res.status(400).json({ success: false, error: error.message });
     } else {
       console.error('Error creating call session:', error);
       res.status(500).json({ success: false, error: 'Internal server error' });
@@ -53,16 +111,27 @@ router.post('/', async (req: Request, res: Response) => {
 /**
  * PATCH /api/call-sessions/:session_id
  * Update call session (for ongoing calls)
+ * 
+ * call_status must follow the lifecycle
+ * queued -> dialing -> ringing -> in_progress -> completed / no_answer / busy / failed / voicemail
+ * (or canceled before answer). Illegal transitions, including reopening an ended call
+ * or setting ended_at on a call that has not ended, return 409.
  */
 router.patch('/:session_id', async (req: Request, res: Response) => {
   try {
     const { session_id } = req.params;
     const updates = CallSessionSchema.partial().parse(req.body);
-    const session = await callSessionService.updateCallSession(session_id, updates);
+    const session = await callSessionService.updateCallSession(session_id, updates, eventContext(req));
     res.status(200).json({ success: true, data: session });
-  } catch (error) {
+  } catch (error: any) {
     if (error instanceof z.ZodError) {
       res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+    } else if (error.message?.includes('Call session not found')) {
+      res.status(404).json({ success: false, error: error.message });
+    } else if (error.message?.includes('Invalid transition')) {
+      res.status(409).json({ success: false, error: error.message });
+    } else if (error.message?.includes('Invalid call session')) {
+      res.status(400).json({ success: false, error: error.message });
     } else {
       console.error('Error updating call session:', error);
       res.status(500).json({ success: false, error: 'Internal server error' });
@@ -73,11 +142,17 @@ router.patch('/:session_id', async (req: Request, res: Response) => {
 /**
  * GET /api/call-sessions/:session_id
  * Get call session by ID
+ * 
+ * ?as_of=<ISO timestamp> returns the session as it was at that moment,
+ * reconstructed from its event log (404 if it did not exist yet)
  */
 router.get('/:session_id', async (req: Request, res: Response) => {
   try {
     const { session_id } = req.params;
-    const session = await callSessionService.getCallSessionById(session_id);
+    const { as_of } = AsOfSchema.parse(req.query);
+    const session = as_of
+      ? await callSessionService.getCallSessionAsOf(session_id, as_of)
+      : await callSessionService.getCallSessionById(session_id);
     
     if (!session) {
       res.status(404).json({ success: false, error: 'Call session not found' });
@@ -85,7 +160,36 @@ router.get('/:session_id', async (req: Request, res: Response) => {
       res.status(200).json({ success: true, data: session });
     }
   } catch (error) {
-    console.error('Error fetching call session:', error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+    } else {
+      console.error('Error fetching call session:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * GET /api/call-sessions/:session_id/events
+ * Append-only change log of a call session, oldest first
+ * 
+ * Each event holds the changed fields ({ field: { from, to } }), the actor
+ * and the source ('api', 'telephony', 'migration').
+ */
+router.get('/:session_id/events', async (req: Request, res: Response) => {
+  try {
+    const { session_id } = req.params;
+    const session = await callSessionService.getCallSessionById(session_id);
+    
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Call session not found' });
+      return;
+    }
+    
+    const events = await callSessionService.getCallSessionEvents(session_id);
+    res.status(200).json({ success: true, data: events });
+  } catch (error) {
+    console.error('Error fetching call session events:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
@@ -105,4 +209,93 @@ router.get('/project/:project_id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/call-sessions/:session_id/transcript/turns
+ * Append speaker turns to the structured transcript (e.g. during a live call)
+ * 
+ * Turns without seq are numbered after the current last turn; a turn re-sent
+ * with an existing seq returns the stored turn unchanged.
+ */
+router.post('/:session_id/transcript/turns', async (req: Request, res: Response) => {
+  try {
+    const { session_id } = req.params;
+    const { turns } = AppendTurnsSchema.parse(req.body);
+    const stored = await transcriptService.appendTurns(session_id, turns);
+    res.status(201).json({ success: true, data: stored });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+    } else if (error.message?.includes('Call session not found')) {
+      res.status(404).json({ success: false, error: error.message });
+    } else if (error.message?.includes('Invalid transcript turn')) {
+      res.status(400).json({ success: false, error: error.message });
+    } else {
+      console.error('Error appending transcript turns:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * GET /api/call-sessions/:session_id/transcript
+ * Get the structured transcript
+ * 
+ * ?format=json (default, turns) | text | vtt (WebVTT) | srt
+ */
+router.get('/:session_id/transcript', async (req: Request, res: Response) => {
+  try {
+    const { session_id } = req.params;
+    const { format } = TranscriptQuerySchema.parse(req.query);
+    const session = await callSessionService.getCallSessionById(session_id);
+    
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Call session not found' });
+      return;
+    }
+    
+    const turns = await transcriptService.getTurns(session_id);
+    if (format === 'json') {
+      res.status(200).json({ success: true, data: turns });
+      return;
+    }
+    
+    const transcriptExport = TRANSCRIPT_EXPORTS[format];
+    res.status(200)
+      .type(transcriptExport.contentType)
+      .set('Content-Disposition', `inline; filename="${session_id}.${transcriptExport.extension}"`)
+      .send(transcriptExport.render(turns));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+    } else {
+      console.error('Error fetching transcript:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * POST /api/call-sessions/:session_id/post-call
+ * Run the post-call processor on a finished call (e.g. after its transcript was added)
+ * 
+ * Returns the detected signals and the terminal sessions created for them
+ * (created_by = 'system', linked to the call). Safe to repeat. 409 if the call
+ * has not ended.
+ */
+router.post('/:session_id/post-call', async (req: Request, res: Response) => {
+  try {
+    const result = await postCallService.processCallSession(req.params.session_id);
+    res.status(200).json({ success: true, data: result });
+  } catch (error: any) {
+    if (error.message?.includes('Call session not found')) {
+      res.status(404).json({ success: false, error: error.message });
+    } else if (error.message?.includes('Call conflict')) {
+      res.status(409).json({ success: false, error: error.message });
+    } else {
+      console.error('Error processing finished call:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+});
+
 export default router;
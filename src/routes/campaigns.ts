@@ -0,0 +1,204 @@
+import { Router, Request, Response } from 'express';
+import { CampaignAction, CampaignService } from '../services/CampaignService';
+import { z } from 'zod';
+
+const router = Router();
+const campaignService = new CampaignService();
+
+/**
+ * Request validation schemas
+ */
+const TargetFilterSchema = z.object({
+  categories: z.array(z.string().min(1)).optional(),
+  states: z.array(z.string().min(1)).optional(),
+  budget_min: z.number().min(0).optional(),
+  budget_max: z.number().min(0).optional(),
+  roles: z.array(z.string().min(1)).optional(),
+});
+
+const CampaignFieldsSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  target_filter: TargetFilterSchema.optional(),
+  script_id: z.string().optional(),
+  agent_id: z.string().optional(),
+  call_type: z.enum(['ai', 'human']).optional(),
+  max_calls_per_hour: z.number().int().min(0).nullable().optional(),
+  max_calls_per_day: z.number().int().min(0).nullable().optional(),
+  max_concurrent_calls: z.number().int().min(0).nullable().optional(),
+  start_at: z.string().datetime({ offset: true }).nullable().optional(),
+  end_at: z.string().datetime({ offset: true }).nullable().optional(),
+});
+
+const scheduleIsOrdered = (data: { start_at?: string | null; end_at?: string | null }) =>
+  !data.start_at || !data.end_at || new Date(data.start_at) < new Date(data.end_at);
+
+const CampaignSchema = CampaignFieldsSchema.refine(scheduleIsOrdered, {
+  message: 'start_at must be before end_at',
+});
+
+const CampaignUpdateSchema = CampaignFieldsSchema.partial().refine(scheduleIsOrdered, {
+  message: 'start_at must be before end_at',
+});
+
+const CampaignStatusSchema = z.enum(['draft', 'active', 'paused', 'completed']);
+
+const CampaignIdSchema = z.string().uuid();
+
+/**
+ * Map campaign errors to HTTP status codes
+ */
+function handleCampaignError(error: any, res: Response, action: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+  } else if (error.message?.includes('Invalid campaign schedule')) {
+    res.status(400).json({ success: false, error: error.message });
+  } else if (error.message?.includes('Campaign not found')) {
+    res.status(404).json({ success: false, error: error.message });
+  } else if (error.message?.includes('Campaign conflict')) {
+    res.status(409).json({ success: false, error: error.message });
+  } else {
+    console.error(`Error ${action} campaign:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+/**
+ * POST /api/campaigns
+ * Create a campaign (status: draft)
+ *
+ * target_filter narrows the eligible pool; all listed fields must match:
+ * - categories / states: project category / state (any of)
+ * - budget_min / budget_max: project budget band overlaps the range
+ * - roles: project role, falling back to the contact's global role (any of)
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const campaignData = CampaignSchema.parse(req.body);
+    const campaign = await campaignService.createCampaign(campaignData);
+    res.status(201).json({ success: true, data: campaign });
+  } catch (error) {
+    handleCampaignError(error, res, 'creating');
+  }
+});
+
+/**
+ * GET /api/campaigns
+ * List campaigns
+ *
+ * Query params:
+ * - status: 'draft', 'active', 'paused' or 'completed'
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status !== undefined ? CampaignStatusSchema.parse(req.query.status) : undefined;
+    const campaigns = await campaignService.listCampaigns(status);
+    res.status(200).json({ success: true, data: campaigns, count: campaigns.length });
+  } catch (error) {
+    handleCampaignError(error, res, 'listing');
+  }
+});
+
+/**
+ * GET /api/campaigns/:campaign_id
+ * Get campaign by ID
+ */
+router.get('/:campaign_id', async (req: Request, res: Response) => {
+  try {
+    const campaignId = CampaignIdSchema.parse(req.params.campaign_id);
+    const campaign = await campaignService.getCampaignById(campaignId);
+
+    if (!campaign) {
+      res.status(404).json({ success: false, error: 'Campaign not found' });
+    } else {
+      res.status(200).json({ success: true, data: campaign });
+    }
+  } catch (error) {
+    handleCampaignError(error, res, 'fetching');
+  }
+});
+
+/**
+ * PATCH /api/campaigns/:campaign_id
+ * Update campaign settings (completed campaigns cannot be modified)
+ */
+router.patch('/:campaign_id', async (req: Request, res: Response) => {
+  try {
+    const updates = CampaignUpdateSchema.parse(req.body);
+    const campaignId = CampaignIdSchema.parse(req.params.campaign_id);
+    const campaign = await campaignService.updateCampaign(campaignId, updates);
+    res.status(200).json({ success: true, data: campaign });
+  } catch (error) {
+    handleCampaignError(error, res, 'updating');
+  }
+});
+
+/**
+ * POST /api/campaigns/:campaign_id/{activate,pause,resume,complete}
+ * Change campaign status
+ *
+ * Transitions: draft -> active (activate), active -> paused (pause),
+ * paused -> active (resume), any -> completed (complete).
+ * Pausing or completing releases the campaign's outstanding leases.
+ * Invalid transitions return 409.
+ */
+const TRANSITION_VERBS: Record<CampaignAction, string> = {
+  activate: 'activating',
+  pause: 'pausing',
+  resume: 'resuming',
+  complete: 'completing',
+};
+
+for (const action of Object.keys(TRANSITION_VERBS) as CampaignAction[]) {
+  router.post(`/:campaign_id/${action}`, async (req: Request, res: Response) => {
+    try {
+      const campaignId = CampaignIdSchema.parse(req.params.campaign_id);
+      const campaign = await campaignService.transition(campaignId, action);
+      res.status(200).json({ success: true, data: campaign });
+    } catch (error) {
+      handleCampaignError(error, res, TRANSITION_VERBS[action]);
+    }
+  });
+}
+
+/**
+ * GET /api/campaigns/:campaign_id/eligible-calls
+ * Eligible calls matching the campaign target filter, attributed to the campaign
+ *
+ * Empty unless the campaign is active and inside its schedule; the limit is capped
+ * by remaining pacing capacity. Use POST /api/eligible-calls/claim with campaign_id to lease.
+ *
+ * Query params:
+ * - limit: Maximum number of results (default: 100)
+ */
+router.get('/:campaign_id/eligible-calls', async (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 100;
+    const campaignId = CampaignIdSchema.parse(req.params.campaign_id);
+    const eligibleCalls = await campaignService.getEligibleCalls(campaignId, limit);
+    res.status(200).json({ success: true, data: eligibleCalls, count: eligibleCalls.length });
+  } catch (error) {
+    handleCampaignError(error, res, 'fetching eligible calls for');
+  }
+});
+
+/**
+ * GET /api/campaigns/:campaign_id/report
+ * Call volume, statuses, outcomes, escalations and in-flight leases for one campaign
+ */
+router.get('/:campaign_id/report', async (req: Request, res: Response) => {
+  try {
+    const campaignId = CampaignIdSchema.parse(req.params.campaign_id);
+    const report = await campaignService.getCampaignReport(campaignId);
+
+    if (!report) {
+      res.status(404).json({ success: false, error: 'Campaign not found' });
+    } else {
+      res.status(200).json({ success: true, data: report });
+    }
+  } catch (error) {
+    handleCampaignError(error, res, 'reporting on');
+  }
+});
+
+export default router;
@@ -1,5 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { ContactService } from '../services/ContactService';
+import { BATCH_MAX_ITEMS, summarizeBatch } from '../db/batch';
+import { BatchItemResult } from '../types';
 import { z } from 'zod';
 
 const router = Router();
@@ -13,12 +15,43 @@ const ContactSchema = z.object({
   name: z.string(),
   email: z.string().email().optional(),
   companyname: z.string().optional(),
-  phonenumber: z.string().optional(),
+  phonenumber: z.string().optional(), // Stored in E.164 (original kept as phonenumber_raw)
+  phone_country: z.string().min(2).max(100).optional(), // Country of national-format numbers (default: the contact's projects, else AU)
   global_role: z.string().optional(),
   authority_level: z.string().optional(),
   preferred_channel: z.enum(['phone', 'email', 'sms']).optional(),
   do_not_call: z.boolean().optional(),
   last_ai_contact: z.string().optional(),
+  next_call_eligible_at: z.string().nullable().optional(), // Hold calls to the contact on every project
+});
+
+const BatchSchema = z.array(z.unknown()).min(1).max(BATCH_MAX_ITEMS);
+
+const BooleanQuerySchema = z.enum(['true', 'false']).transform(value => value === 'true');
+
+const ContactListQuerySchema = z.object({
+  q: z.string().min(1).optional(),
+  companyname: z.string().min(1).optional(),
+  global_role: z.string().min(1).optional(),
+  authority_level: z.string().min(1).optional(),
+  do_not_call: BooleanQuerySchema.optional(),
+  has_phone: BooleanQuerySchema.optional(),
+  last_ai_contact_from: z.coerce.date().optional(),
+  last_ai_contact_to: z.coerce.date().optional(),
+  sort: z.enum(['name', 'companyname', 'created_at', 'updated_at', 'last_ai_contact']).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+const DuplicateQuerySchema = z.object({
+  min_score: z.coerce.number().min(0).max(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+const MergeSchema = z.object({
+  survivor_id: z.string().min(1),
+  merged_ids: z.array(z.string().min(1)).min(1),
 });
 
 /**
@@ -48,9 +81,131 @@ router.post('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/contacts/batch
+ * Upsert many contacts (idempotent, as POST /api/contacts)
+ *
+ * Body: array of contacts (max BATCH_MAX_ITEMS, default 5000), each validated on its own.
+ * Valid contacts are upserted in chunked transactions; invalid or failing items are
+ * reported per item and do not abort the batch.
+ *
+ * Returns a result per item, in request order: index, key, id, status ('created',
+ * 'updated' or 'error') and error/details for failed items
+ */
+router.post('/batch', async (req: Request, res: Response) => {
+  try {
+    const items = BatchSchema.parse(req.body);
+    const parsed = items.map(item => ContactSchema.safeParse(item));
+    const valid = parsed.flatMap((result, index) => (result.success ? [{ index, contact: result.data }] : []));
+    const upserted = await contactService.upsertContacts(valid.map(item => item.contact));
+    const upsertedByIndex = new Map(valid.map((item, i) => [item.index, upserted[i]]));
+
+    const results: BatchItemResult[] = parsed.map((result, index) =>
+      result.success
+        ? { ...upsertedByIndex.get(index)!, index }
+        : { index, status: 'error', error: 'Validation error', details: result.error.errors }
+    );
+
+    res.status(200).json({ success: true, data: results, summary: summarizeBatch(results) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+    } else {
+      console.error('Error batch upserting contacts:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * GET /api/contacts
+ * List contacts (cursor-paginated)
+ * 
+ * Query params:
+ * - q: free-text search across name, email and company
+ * - companyname, global_role, authority_level: exact match (case-insensitive)
+ * - do_not_call, has_phone: 'true' or 'false'
+ * - last_ai_contact_from / last_ai_contact_to: last_ai_contact range [from, to)
+ * - sort: 'name' (default), 'companyname', 'created_at', 'updated_at' or 'last_ai_contact'
+ * - order: 'asc' (default) or 'desc'
+ * - cursor: next_cursor from the previous page
+ * - limit: page size (default: 50, max: 200)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const filter = ContactListQuerySchema.parse(req.query);
+    const page = await contactService.listContacts(filter);
+    res.status(200).json({ success: true, data: page.items, count: page.items.length, next_cursor: page.next_cursor });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+    } else if (error.message?.includes('Invalid cursor')) {
+      res.status(400).json({ success: false, error: error.message });
+    } else {
+      console.error('Error listing contacts:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * GET /api/contacts/duplicates
+ * Likely duplicate contacts for review, best matches first
+ * 
+ * Each candidate has the older record as contact (suggested survivor), the duplicate,
+ * a score (0..1), the name similarity and the signals that matched
+ * (name, email, email_local_part, email_domain, phone, company).
+ * 
+ * Query params:
+ * - min_score: minimum score (default: 0.6)
+ * - limit: Maximum number of results (default: 100)
+ */
+router.get('/duplicates', async (req: Request, res: Response) => {
+  try {
+    const options = DuplicateQuerySchema.parse(req.query);
+    const candidates = await contactService.findDuplicateCandidates(options);
+    res.status(200).json({ success: true, data: candidates, count: candidates.length });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+    } else {
+      console.error('Error finding duplicate contacts:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * POST /api/contacts/merge
+ * Merge duplicates into a survivor (IDs may be internal UUIDs or external contact_ids)
+ * 
+ * project_contacts, call_sessions and terminal_sessions move to the survivor; merged
+ * contacts are kept as aliases (merged_into_id). 404 if a contact does not exist,
+ * 409 if one is already merged or listed twice.
+ */
+router.post('/merge', async (req: Request, res: Response) => {
+  try {
+    const { survivor_id, merged_ids } = MergeSchema.parse(req.body);
+    const result = await contactService.mergeContacts(survivor_id, merged_ids);
+    res.status(200).json({ success: true, data: result });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+    } else if (error.message?.includes('not found')) {
+      res.status(404).json({ success: false, error: error.message });
+    } else if (error.message?.includes('Contact merge conflict')) {
+      res.status(409).json({ success: false, error: error.message });
+    } else {
+      console.error('Error merging contacts:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+});
+
 /**
  * GET /api/contacts/:contact_id
  * Get contact by internal UUID or external contact_id
+ * (a merged contact is returned with merged_into_id set to its survivor)
  */
 router.get('/:contact_id', async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,134 @@
+import { Router, Request, Response } from 'express';
+import { EligibilityPolicyService } from '../services/EligibilityPolicyService';
+import { z } from 'zod';
+
+const router = Router();
+const policyService = new EligibilityPolicyService();
+
+/**
+ * Request validation schemas
+ */
+const PolicyScopeSchema = z.enum(['global', 'category', 'authority_level', 'call_type']);
+
+const EligibilityPolicySchema = z.object({
+  scope: PolicyScopeSchema,
+  scope_value: z.string().min(1).optional(),
+  min_call_cooldown_hours: z.number().min(0).nullable().optional(),
+  project_contact_cooldown_hours: z.number().min(0).nullable().optional(),
+  contact_cooldown_hours: z.number().min(0).nullable().optional(),
+  max_calls_per_day: z.number().int().min(0).nullable().optional(),
+  max_calls_per_week: z.number().int().min(0).nullable().optional(),
+  notes: z.string().optional(),
+  created_by: z.string().optional(),
+}).refine(
+  (data) => (data.scope === 'global' ? !data.scope_value : !!data.scope_value),
+  { message: 'scope_value is required for overrides and not allowed for global scope' }
+);
+
+/**
+ * GET /api/eligibility-policies
+ * List active policies (global default and overrides)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const policies = await policyService.getActivePolicies();
+    res.status(200).json({ success: true, data: policies });
+  } catch (error) {
+    console.error('Error fetching eligibility policies:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/eligibility-policies/effective
+ * Resolve the effective policy for a call context
+ *
+ * Query params:
+ * - category: Project category
+ * - authority_level: Contact authority level
+ * - call_type: 'ai' or 'human'
+ */
+router.get('/effective', async (req: Request, res: Response) => {
+  try {
+    const policy = await policyService.getEffectivePolicy({
+      category: req.query.category as string | undefined,
+      authority_level: req.query.authority_level as string | undefined,
+      call_type: req.query.call_type as string | undefined,
+    });
+    res.status(200).json({ success: true, data: policy });
+  } catch (error) {
+    console.error('Error resolving eligibility policy:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/eligibility-policies/history
+ * List all versions of one policy, newest first
+ *
+ * Query params:
+ * - scope: 'global', 'category', 'authority_level' or 'call_type'
+ * - scope_value: Required for overrides
+ */
+router.get('/history', async (req: Request, res: Response) => {
+  try {
+    const scope = PolicyScopeSchema.parse(req.query.scope);
+    const history = await policyService.getPolicyHistory(scope, req.query.scope_value as string | undefined);
+    res.status(200).json({ success: true, data: history });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+    } else {
+      console.error('Error fetching eligibility policy history:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * POST /api/eligibility-policies
+ * Save a new version of a policy
+ *
+ * Versioning: the previous active version for (scope, scope_value) is deactivated
+ * and kept for history. Omitted or null limits inherit from less specific policies.
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const policyData = EligibilityPolicySchema.parse(req.body);
+    const policy = await policyService.savePolicy(policyData);
+    res.status(201).json({ success: true, data: policy });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+    } else {
+      console.error('Error saving eligibility policy:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * DELETE /api/eligibility-policies/:policy_id
+ * Deactivate an override (the global policy cannot be deactivated)
+ */
+router.delete('/:policy_id', async (req: Request, res: Response) => {
+  try {
+    const { policy_id } = req.params;
+    const removed = await policyService.deactivatePolicy(policy_id);
+
+    if (removed) {
+      res.status(200).json({ success: true, message: 'Eligibility policy deactivated' });
+    } else {
+      res.status(404).json({ success: false, error: 'Eligibility policy not found' });
+    }
+  } catch (error: any) {
+    if (error.message.includes('cannot be deactivated')) {
+      res.status(403).json({ success: false, error: error.message });
+    } else {
+      console.error('Error deactivating eligibility policy:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+});
+
+export default router;
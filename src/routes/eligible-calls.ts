@@ -1,8 +1,50 @@
 import { Router, Request, Response } from 'express';
 import { CallEligibilityService } from '../services/CallEligibilityService';
+import { CallLeaseService } from '../services/CallLeaseService';
+import { z } from 'zod';
 
 const router = Router();
 const eligibilityService = new CallEligibilityService();
+const leaseService = new CallLeaseService();
+
+/**
+ * Request validation schemas
+ */
+const ClaimSchema = z.object({
+  worker_id: z.string().min(1),
+  count: z.number().int().min(1).max(100).default(10),
+  lease_ttl_seconds: z.number().int().min(10).max(3600).optional(),
+  campaign_id: z.string().uuid().optional(),
+});
+
+const LeaseActionSchema = z.object({
+  worker_id: z.string().min(1),
+  lease_ttl_seconds: z.number().int().min(10).max(3600).optional(),
+  reason: z.string().optional(),
+});
+
+/**
+ * Parse the optional call_type query param (defaults to 'ai')
+ */
+function parseCallType(value: unknown): 'ai' | 'human' {
+  return value === 'human' ? 'human' : 'ai';
+}
+
+/**
+ * Map lease errors to HTTP status codes
+ */
+function handleLeaseError(error: any, res: Response, action: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+  } else if (error.message?.includes('Lease not found') || error.message?.includes('Campaign not found')) {
+    res.status(404).json({ success: false, error: error.message });
+  } else if (error.message?.includes('Lease conflict')) {
+    res.status(409).json({ success: false, error: error.message });
+  } else {
+    console.error(`Error ${action} lease:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
 
 /**
  * GET /api/eligible-calls
@@ -13,14 +55,18 @@ const eligibilityService = new CallEligibilityService();
  * - Cooldown periods
  * - Terminal sessions
  * - Call frequency limits (fatigue)
+ * - Active dialer leases (use POST /claim to reserve pairs)
+ * 
+ * Ordered by priority score (highest first); each row includes score_breakdown.
  * 
  * Query params:
  * - limit: Maximum number of results (default: 100)
+ * - call_type: 'ai' or 'human' (selects eligibility policy, default: 'ai')
  */
 router.get('/', async (req: Request, res: Response) => {
   try {
     const limit = parseInt(req.query.limit as string) || 100;
-    const eligibleCalls = await eligibilityService.getEligibleCalls(limit);
+    const eligibleCalls = await eligibilityService.getEligibleCalls(limit, { call_type: parseCallType(req.query.call_type) });
     res.status(200).json({ success: true, data: eligibleCalls, count: eligibleCalls.length });
   } catch (error) {
     console.error('Error fetching eligible calls:', error);
@@ -28,6 +74,73 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/eligible-calls/claim
+ * Atomically lease up to `count` eligible calls to a dialer worker
+ * 
+ * Leased pairs are excluded from GET /api/eligible-calls and from other workers'
+ * claims until released or expired (lease_ttl_seconds, default 300).
+ * Workers should renew long-running calls before the lease expires.
+ * With campaign_id, claims only that campaign's targets (subject to its status, schedule and pacing).
+ */
+router.post('/claim', async (req: Request, res: Response) => {
+  try {
+    const { worker_id, count, lease_ttl_seconds, campaign_id } = ClaimSchema.parse(req.body);
+    const claimed = await leaseService.claimCalls(worker_id, count, lease_ttl_seconds, campaign_id);
+    res.status(200).json({ success: true, data: claimed, count: claimed.length });
+  } catch (error) {
+    handleLeaseError(error, res, 'claiming');
+  }
+});
+
+/**
+ * GET /api/eligible-calls/leases?worker_id=...
+ * List active leases held by a worker
+ */
+router.get('/leases', async (req: Request, res: Response) => {
+  try {
+    const workerId = req.query.worker_id as string | undefined;
+    if (!workerId) {
+      res.status(400).json({ success: false, error: 'worker_id is required' });
+      return;
+    }
+    const leases = await leaseService.getActiveLeasesByWorker(workerId);
+    res.status(200).json({ success: true, data: leases, count: leases.length });
+  } catch (error) {
+    handleLeaseError(error, res, 'listing');
+  }
+});
+
+/**
+ * POST /api/eligible-calls/leases/:lease_id/renew
+ * Heartbeat: extend a held lease by lease_ttl_seconds from now
+ */
+router.post('/leases/:lease_id/renew', async (req: Request, res: Response) => {
+  try {
+    const { lease_id } = req.params;
+    const { worker_id, lease_ttl_seconds } = LeaseActionSchema.parse(req.body);
+    const lease = await leaseService.renewLease(lease_id, worker_id, lease_ttl_seconds);
+    res.status(200).json({ success: true, data: lease });
+  } catch (error) {
+    handleLeaseError(error, res, 'renewing');
+  }
+});
+
+/**
+ * POST /api/eligible-calls/leases/:lease_id/release
+ * Release a held lease, returning the pair to the pool
+ */
+router.post('/leases/:lease_id/release', async (req: Request, res: Response) => {
+  try {
+    const { lease_id } = req.params;
+    const { worker_id, reason } = LeaseActionSchema.parse(req.body);
+    const lease = await leaseService.releaseLease(lease_id, worker_id, reason);
+    res.status(200).json({ success: true, data: lease });
+  } catch (error) {
+    handleLeaseError(error, res, 'releasing');
+  }
+});
+
 /**
  * GET /api/eligible-calls/check/project/:project_id
  * Check if a project is eligible for calling
@@ -35,7 +148,7 @@ router.get('/', async (req: Request, res: Response) => {
 router.get('/check/project/:project_id', async (req: Request, res: Response) => {
   try {
     const { project_id } = req.params;
-    const result = await eligibilityService.isProjectEligible(project_id);
+    const result = await eligibilityService.isProjectEligible(project_id, parseCallType(req.query.call_type));
     res.status(200).json({ success: true, data: result });
   } catch (error) {
     console.error('Error checking project eligibility:', error);
@@ -51,7 +164,7 @@ router.get('/check/contact/:contact_id', async (req: Request, res: Response) =>
   try {
     const { contact_id } = req.params;
     const project_id = req.query.project_id as string | undefined;
-    const result = await eligibilityService.isContactEligible(contact_id, project_id);
+    const result = await eligibilityService.isContactEligible(contact_id, project_id, parseCallType(req.query.call_type));
     res.status(200).json({ success: true, data: result });
   } catch (error) {
     console.error('Error checking contact eligibility:', error);
@@ -62,11 +175,21 @@ router.get('/check/contact/:contact_id', async (req: Request, res: Response) =>
 /**
  * GET /api/eligible-calls/check/project/:project_id/contact/:contact_id
  * Check if a project-contact combination is eligible for calling
+ * 
+ * Query params:
+ * - worker_id: Treat a lease held by this worker as not blocking
+ * - call_type: 'ai' or 'human' (default: 'ai')
  */
 router.get('/check/project/:project_id/contact/:contact_id', async (req: Request, res: Response) => {
   try {
     const { project_id, contact_id } = req.params;
-    const result = await eligibilityService.isProjectContactEligible(project_id, contact_id);
+    const worker_id = req.query.worker_id as string | undefined;
+    const result = await eligibilityService.isProjectContactEligible(
+      project_id,
+      contact_id,
+      worker_id,
+      parseCallType(req.query.call_type)
+    );
     res.status(200).json({ success: true, data: result });
   } catch (error) {
     console.error('Error checking project-contact eligibility:', error);
@@ -74,4 +197,38 @@ router.get('/check/project/:project_id/contact/:contact_id', async (req: Request
   }
 });
 
+/**
+ * GET /api/eligible-calls/explain/project/:project_id/contact/:contact_id
+ * Explain eligibility of a project-contact combination
+ * 
+ * Evaluates every rule (not just the first blocker) and returns, per rule,
+ * pass/fail, the blocking value and when the blocker clears (null = manual action).
+ * contact_id may be the internal UUID or external contact_id.
+ * 
+ * Query params:
+ * - worker_id: Treat a lease held by this worker as not blocking
+ * - call_type: 'ai' or 'human' (default: 'ai')
+ */
+router.get('/explain/project/:project_id/contact/:contact_id', async (req: Request, res: Response) => {
+  try {
+    const { project_id, contact_id } = req.params;
+    const worker_id = req.query.worker_id as string | undefined;
+    const result = await eligibilityService.explainProjectContactEligibility(
+      project_id,
+      contact_id,
+      worker_id,
+      parseCallType(req.query.call_type)
+    );
+    
+    if (!result) {
+      res.status(404).json({ success: false, error: 'Project or contact not found' });
+    } else {
+      res.status(200).json({ success: true, data: result });
+    }
+  } catch (error) {
+    console.error('Error explaining project-contact eligibility:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 export default router;
@@ -0,0 +1,147 @@
+import { Router, Request, Response } from 'express';
+import { EscalationService } from '../services/EscalationService';
+import { z } from 'zod';
+
+const router = Router();
+const escalationService = new EscalationService();
+
+/**
+ * Request validation schemas
+ */
+const EscalationStatusSchema = z.enum(['open', 'claimed', 'resolved']);
+
+const EscalationListQuerySchema = z.object({
+  status: z.string()
+    .transform(value => value.split(',').map(s => s.trim()).filter(Boolean))
+    .pipe(z.array(EscalationStatusSchema))
+    .optional(),
+  assigned_to: z.string().min(1).optional(),
+  breached: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+const AssigneeSchema = z.object({
+  assigned_to: z.string().min(1),
+});
+
+const ResolutionSchema = z.object({
+  resolution: z.string().min(1).max(100),
+  notes: z.string().optional(),
+  resolved_by: z.string().min(1).optional(),
+  create_follow_up: z.boolean().optional(),
+});
+
+/**
+ * Map escalation errors to HTTP status codes
+ */
+function handleEscalationError(error: any, res: Response, action: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+  } else if (error.message?.includes('not found')) {
+    res.status(404).json({ success: false, error: error.message });
+  } else if (error.message?.includes('Escalation conflict')) {
+    res.status(409).json({ success: false, error: error.message });
+  } else {
+    console.error(`Error ${action} escalation:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+/**
+ * GET /api/escalations
+ * Escalation queue, oldest first, with project/contact context and SLA timers
+ *
+ * Query params:
+ * - status: comma-separated 'open', 'claimed', 'resolved' (default: open,claimed)
+ * - assigned_to: only escalations assigned to this rep
+ * - breached: 'true' for escalations past their claim or resolve SLA
+ * - limit: Maximum number of results (default: 100)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const filter = EscalationListQuerySchema.parse(req.query);
+    const escalations = await escalationService.listEscalations(filter);
+    res.status(200).json({ success: true, data: escalations, count: escalations.length });
+  } catch (error) {
+    handleEscalationError(error, res, 'listing');
+  }
+});
+
+/**
+ * GET /api/escalations/:escalation_id
+ * Get escalation by ID
+ */
+router.get('/:escalation_id', async (req: Request, res: Response) => {
+  try {
+    const escalation = await escalationService.getEscalationById(req.params.escalation_id);
+
+    if (!escalation) {
+      res.status(404).json({ success: false, error: 'Escalation not found' });
+    } else {
+      res.status(200).json({ success: true, data: escalation });
+    }
+  } catch (error) {
+    handleEscalationError(error, res, 'fetching');
+  }
+});
+
+/**
+ * POST /api/escalations/:escalation_id/claim
+ * Claim an open escalation (409 if another rep holds it or it is resolved)
+ */
+router.post('/:escalation_id/claim', async (req: Request, res: Response) => {
+  try {
+    const { assigned_to } = AssigneeSchema.parse(req.body);
+    const escalation = await escalationService.claimEscalation(req.params.escalation_id, assigned_to);
+    res.status(200).json({ success: true, data: escalation });
+  } catch (error) {
+    handleEscalationError(error, res, 'claiming');
+  }
+});
+
+/**
+ * POST /api/escalations/:escalation_id/assign
+ * Assign or reassign an unresolved escalation to a rep
+ */
+router.post('/:escalation_id/assign', async (req: Request, res: Response) => {
+  try {
+    const { assigned_to } = AssigneeSchema.parse(req.body);
+    const escalation = await escalationService.assignEscalation(req.params.escalation_id, assigned_to);
+    res.status(200).json({ success: true, data: escalation });
+  } catch (error) {
+    handleEscalationError(error, res, 'assigning');
+  }
+});
+
+/**
+ * POST /api/escalations/:escalation_id/release
+ * Put a claimed escalation back on the queue
+ */
+router.post('/:escalation_id/release', async (req: Request, res: Response) => {
+  try {
+    const escalation = await escalationService.releaseEscalation(req.params.escalation_id);
+    res.status(200).json({ success: true, data: escalation });
+  } catch (error) {
+    handleEscalationError(error, res, 'releasing');
+  }
+});
+
+/**
+ * POST /api/escalations/:escalation_id/resolve
+ * Resolve an escalation
+ *
+ * With create_follow_up, a queued call_type 'human' session to the same project/contact
+ * is created, linked to the escalated call (parent_call_session_id); its ID is returned
+ * as follow_up_session_id.
+ */
+router.post('/:escalation_id/resolve', async (req: Request, res: Response) => {
+  try {
+    const resolution = ResolutionSchema.parse(req.body);
+    const escalation = await escalationService.resolveEscalation(req.params.escalation_id, resolution);
+    res.status(200).json({ success: true, data: escalation });
+  } catch (error) {
+    handleEscalationError(error, res, 'resolving');
+  }
+});
+
+export default router;
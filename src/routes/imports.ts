@@ -0,0 +1,160 @@
+import express, { Router, Request, Response } from 'express';
+import { HubSpotImportService } from '../services/HubSpotImportService';
+import { DIFF_CSV_COLUMNS, DiffCsvRow, importReportDiffRows, recordDiffRows } from '../services/RecordDiffService';
+import { buildTablesFromProjectDetails } from '../db/migrate-from-project-details';
+import { ImportReport } from '../types';
+import { toCsv } from '../utils/csv';
+import { z } from 'zod';
+
+const router = Router();
+const importService = new HubSpotImportService();
+
+/** Maximum CSV upload size (raw text/csv bodies) */
+const MAX_CSV_SIZE = process.env.IMPORT_MAX_CSV_SIZE || '20mb';
+
+/**
+ * Request validation schemas
+ */
+const ImportFormatSchema = z.enum(['projects', 'contacts', 'records']);
+
+const BooleanQuerySchema = z.enum(['true', 'false']).transform(value => value === 'true');
+
+const OutputSchema = z.enum(['json', 'csv']).default('json');
+
+const ImportFilesSchema = z.object({
+  files: z.array(z.object({
+    name: z.string().optional(),
+    format: ImportFormatSchema.optional(),
+    content: z.string().min(1),
+  })).min(1),
+});
+
+const ImportQuerySchema = z.object({
+  format: ImportFormatSchema.optional(),
+  name: z.string().optional(),
+  dry_run: BooleanQuerySchema.optional(),
+  output: OutputSchema,
+});
+
+const ProjectDetailsDiffQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().optional(),
+  output: OutputSchema,
+});
+
+/**
+ * Summary of import reports (row counts over all files)
+ */
+function summarize(reports: ImportReport[]) {
+  return {
+    total: reports.reduce((sum, report) => sum + report.total, 0),
+    created: reports.reduce((sum, report) => sum + report.created, 0),
+    updated: reports.reduce((sum, report) => sum + report.updated, 0),
+    unchanged: reports.reduce((sum, report) => sum + report.unchanged, 0),
+    skipped: reports.reduce((sum, report) => sum + report.skipped, 0),
+    errors: reports.reduce((sum, report) => sum + report.errors, 0),
+  };
+}
+
+/**
+ * Send a dry-run diff as a CSV download (one line per changed field)
+ */
+function sendDiffCsv(res: Response, name: string, rows: DiffCsvRow[]) {
+  res.status(200)
+    .type('text/csv; charset=utf-8')
+    .set('Content-Disposition', `attachment; filename="${name}-diff.csv"`)
+    .send(toCsv(rows, DIFF_CSV_COLUMNS));
+}
+
+/**
+ * POST /api/imports
+ * Import HubSpot CRM export CSVs (all-projects, all-contacts, all-records)
+ *
+ * Body, either:
+ * - text/csv: one export file; query params format ('projects', 'contacts', 'records';
+ *   default: detected from the header row) and name
+ * - application/json: { files: [{ name?, format?, content }] }; projects are imported
+ *   first, then contacts, then project-contact records
+ *
+ * Query params:
+ * - dry_run: 'true' to write nothing; rows are reported as created, updated or unchanged
+ *   with the field changes against the current rows
+ * - output: 'json' (default) or 'csv' (the per-field diff, one line per changed field)
+ *
+ * Returns a report per file with a result per row (created, updated, skipped or error).
+ * Row failures do not fail the request; an unrecognized file format, or a dry run over
+ * DRY_RUN_MAX_ROWS (default 5000) rows, returns 400.
+ */
+router.post('/', express.text({ type: ['text/csv', 'text/plain'], limit: MAX_CSV_SIZE }), async (req: Request, res: Response) => {
+  try {
+    const { format, name, dry_run, output } = ImportQuerySchema.parse(req.query);
+    let reports: ImportReport[];
+    if (typeof req.body === 'string') {
+      reports = [await importService.importCsv(req.body, format, name, { dry_run })];
+    } else {
+      const { files } = ImportFilesSchema.parse(req.body);
+      reports = await importService.importFiles(files, { dry_run });
+    }
+
+    if (output === 'csv') {
+      sendDiffCsv(res, 'import', importReportDiffRows(reports));
+    } else {
+      res.status(200).json({ success: true, data: reports, summary: summarize(reports) });
+    }
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+    } else if (error.message?.includes('Unrecognized import format') || error.message?.includes('Dry run too large')) {
+      res.status(400).json({ success: false, error: error.message });
+    } else {
+      console.error('Error importing CSV:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * GET /api/imports/project-details/diff
+ * Dry run of the project_details migration (buildTablesFromProjectDetails): per record,
+ * created, updated or unchanged with the field changes against the current crm_projects,
+ * contacts and project_contacts rows; nothing is written
+ *
+ * Query params:
+ * - limit: number of project_details rows (default: all; 400 if over DRY_RUN_MAX_ROWS,
+ *   default 5000)
+ * - output: 'json' (default) or 'csv'
+ */
+router.get('/project-details/diff', async (req: Request, res: Response) => {
+  try {
+    const { limit, output } = ProjectDetailsDiffQuerySchema.parse(req.query);
+    const result = await buildTablesFromProjectDetails(limit, { dry_run: true });
+    const diffs = result.diffs ?? [];
+
+    if (output === 'csv') {
+      sendDiffCsv(res, 'project-details', recordDiffRows(diffs, 'project_details'));
+    } else {
+      res.status(200).json({
+        success: true,
+        data: diffs,
+        count: diffs.length,
+        summary: {
+          created: diffs.filter(diff => diff.status === 'created').length,
+          updated: diffs.filter(diff => diff.status === 'updated').length,
+          unchanged: diffs.filter(diff => diff.status === 'unchanged').length,
+        },
+      });
+    }
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+    } else if (error.message?.includes('project_details not found')) {
+      res.status(404).json({ success: false, error: error.message });
+    } else if (error.message?.includes('Dry run too large')) {
+      res.status(400).json({ success: false, error: error.message });
+    } else {
+      console.error('Error diffing project_details migration:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,176 @@
+import { Router, Request, Response } from 'express';
+import { ProjectContactService } from '../services/ProjectContactService';
+import { z } from 'zod';
+
+/**
+ * Project-contact association routes, mounted from both sides:
+ * - /api/projects/:project_id/contacts[/:contact_id]
+ * - /api/contacts/:contact_id/projects[/:project_id]
+ *
+ * project_id is the external crm_projects.project_id; contact_id is the external
+ * contacts.contact_id or the contact's internal UUID.
+ */
+export const projectContactsRouter = Router({ mergeParams: true });
+export const contactProjectsRouter = Router({ mergeParams: true });
+
+const projectContactService = new ProjectContactService();
+
+/**
+ * Request validation schemas
+ */
+const ProjectContactSchema = z.object({
+  role_for_project: z.string().max(100).optional(),
+  role_confidence: z.number().min(0).max(1).optional(),
+  est_start_date: z.string().optional(),
+  est_end_date: z.string().optional(),
+  role_confirmed: z.boolean().optional(),
+  preferred_channel_project: z.enum(['phone', 'email', 'sms']).optional(),
+  suppress_for_project: z.boolean().optional(),
+});
+
+const ConfirmRoleSchema = z.object({
+  role_for_project: z.string().min(1).max(100).optional(),
+});
+
+const SuppressionSchema = z.object({
+  suppressed: z.boolean(),
+});
+
+/**
+ * Map project-contact errors to HTTP status codes
+ */
+function handleProjectContactError(error: any, res: Response, action: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+  } else if (error.message?.includes('not found')) {
+    res.status(404).json({ success: false, error: error.message });
+  } else if (error.message?.includes('no external contact_id')) {
+    res.status(400).json({ success: false, error: error.message });
+  } else {
+    console.error(`Error ${action} project contact:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+/**
+ * Per-association handlers, shared by both mounts
+ */
+const associationHandlers = {
+  /**
+   * Get one association
+   */
+  async get(req: Request, res: Response) {
+    try {
+      const { projectId, contactId } = await projectContactService.resolveAssociationIds(
+        req.params.project_id,
+        req.params.contact_id
+      );
+      const projectContact = await projectContactService.getProjectContact(projectId, contactId);
+
+      if (!projectContact) {
+        res.status(404).json({ success: false, error: 'Project contact not found' });
+      } else {
+        res.status(200).json({ success: true, data: projectContact });
+      }
+    } catch (error) {
+      handleProjectContactError(error, res, 'fetching');
+    }
+  },
+
+  /**
+   * Create or update an association (idempotent on project_id + contact_id)
+   */
+  async upsert(req: Request, res: Response) {
+    try {
+      const data = ProjectContactSchema.parse(req.body);
+      const { projectId, contactId } = await projectContactService.resolveAssociationIds(
+        req.params.project_id,
+        req.params.contact_id
+      );
+      const projectContact = await projectContactService.upsertProjectContact(projectId, contactId, data);
+      res.status(200).json({ success: true, data: projectContact });
+    } catch (error) {
+      handleProjectContactError(error, res, 'upserting');
+    }
+  },
+
+  /**
+   * Confirm the role (optionally correcting role_for_project)
+   */
+  async confirmRole(req: Request, res: Response) {
+    try {
+      const { role_for_project } = ConfirmRoleSchema.parse(req.body ?? {});
+      const { projectId, contactId } = await projectContactService.resolveAssociationIds(
+        req.params.project_id,
+        req.params.contact_id
+      );
+      const projectContact = await projectContactService.confirmRole(projectId, contactId, role_for_project);
+      res.status(200).json({ success: true, data: projectContact });
+    } catch (error) {
+      handleProjectContactError(error, res, 'confirming role for');
+    }
+  },
+
+  /**
+   * Suppress or unsuppress calls to the contact for this project only
+   */
+  async updateSuppression(req: Request, res: Response) {
+    try {
+      const { suppressed } = SuppressionSchema.parse(req.body);
+      const { projectId, contactId } = await projectContactService.resolveAssociationIds(
+        req.params.project_id,
+        req.params.contact_id
+      );
+      const projectContact = await projectContactService.updateProjectSuppression(projectId, contactId, suppressed);
+      res.status(200).json({ success: true, data: projectContact });
+    } catch (error) {
+      handleProjectContactError(error, res, 'updating suppression for');
+    }
+  },
+};
+
+/**
+ * GET /api/projects/:project_id/contacts
+ * Contacts associated with a project
+ */
+projectContactsRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const projectId = await projectContactService.resolveProjectId(req.params.project_id);
+    const projectContacts = await projectContactService.getContactsByProject(projectId);
+    res.status(200).json({ success: true, data: projectContacts, count: projectContacts.length });
+  } catch (error) {
+    handleProjectContactError(error, res, 'listing');
+  }
+});
+
+/**
+ * GET /api/contacts/:contact_id/projects
+ * Projects a contact is associated with
+ */
+contactProjectsRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const contactId = await projectContactService.resolveContactId(req.params.contact_id);
+    const projectContacts = await projectContactService.getProjectsByContact(contactId);
+    res.status(200).json({ success: true, data: projectContacts, count: projectContacts.length });
+  } catch (error) {
+    handleProjectContactError(error, res, 'listing');
+  }
+});
+
+/**
+ * GET    .../:id                 Get the association
+ * PUT    .../:id                 Create or update the association
+ *                                (role_for_project, role_confidence, est_start_date, est_end_date,
+ *                                role_confirmed, preferred_channel_project, suppress_for_project)
+ * POST   .../:id/confirm-role    Confirm the role; body: { role_for_project? }
+ * PATCH  .../:id/suppression     Suppress for this project only; body: { suppressed }
+ */
+projectContactsRouter.get('/:contact_id', associationHandlers.get);
+projectContactsRouter.put('/:contact_id', associationHandlers.upsert);
+projectContactsRouter.post('/:contact_id/confirm-role', associationHandlers.confirmRole);
+projectContactsRouter.patch('/:contact_id/suppression', associationHandlers.updateSuppression);
+
+contactProjectsRouter.get('/:project_id', associationHandlers.get);
+contactProjectsRouter.put('/:project_id', associationHandlers.upsert);
+contactProjectsRouter.post('/:project_id/confirm-role', associationHandlers.confirmRole);
+contactProjectsRouter.patch('/:project_id/suppression', associationHandlers.updateSuppression);
@@ -1,5 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { ProjectService } from '../services/ProjectService';
+import { BATCH_MAX_ITEMS, summarizeBatch } from '../db/batch';
+import { BatchItemResult } from '../types';
 import { z } from 'zod';
 
 const router = Router();
@@ -21,11 +23,42 @@ const ProjectSchema = z.object({
   budget: z.string().optional(),
   quotes_due_date: z.string().optional(),
   country: z.string().optional(),
+  timezone: z.string().optional(),
+  priority_score: z.number().min(0).max(1).optional(),
   last_contacted_at: z.string().optional(),
   next_call_eligible_at: z.string().optional(),
   call_suppressed: z.boolean().optional(),
 });
 
+const BatchSchema = z.array(z.unknown()).min(1).max(BATCH_MAX_ITEMS);
+
+const BooleanQuerySchema = z.enum(['true', 'false']).transform(value => value === 'true');
+
+const CommaListSchema = z.string().transform(value => value.split(',').map(s => s.trim()).filter(Boolean));
+
+const ProjectListQuerySchema = z.object({
+  q: z.string().min(1).optional(),
+  state: CommaListSchema.optional(),
+  suburb: z.string().min(1).optional(),
+  postcode: z.string().min(1).optional(),
+  category: CommaListSchema.optional(),
+  awarded_from: z.coerce.date().optional(),
+  awarded_to: z.coerce.date().optional(),
+  quotes_due_from: z.coerce.date().optional(),
+  quotes_due_to: z.coerce.date().optional(),
+  max_distance: z.coerce.number().min(0).optional(),
+  budget_min: z.coerce.number().min(0).optional(),
+  budget_max: z.coerce.number().min(0).optional(),
+  call_suppressed: BooleanQuerySchema.optional(),
+  has_eligible_contacts: BooleanQuerySchema.optional(),
+  sort: z.enum([
+    'name', 'created_at', 'updated_at', 'awarded_date', 'quotes_due_date', 'distance', 'budget', 'priority_score',
+  ]).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
 /**
  * POST /api/projects
  * Ingest normalized project data (idempotent)
@@ -49,6 +82,83 @@ router.post('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/projects/batch
+ * Upsert many projects (idempotent, as POST /api/projects)
+ *
+ * Body: array of projects (max BATCH_MAX_ITEMS, default 5000), each validated on its own.
+ * Valid projects are upserted in chunked transactions; invalid or failing items are
+ * reported per item and do not abort the batch.
+ *
+ * Returns a result per item, in request order: index, key, id, status ('created',
+ * 'updated' or 'error') and error/details for failed items
+ */
+router.post('/batch', async (req: Request, res: Response) => {
+  try {
+    const items = BatchSchema.parse(req.body);
+    const parsed = items.map(item => ProjectSchema.safeParse(item));
+    const valid = parsed.flatMap((result, index) => (result.success ? [{ index, project: result.data }] : []));
+    const upserted = await projectService.upsertProjects(valid.map(item => item.project));
+    const upsertedByIndex = new Map(valid.map((item, i) => [item.index, upserted[i]]));
+
+    const results: BatchItemResult[] = parsed.map((result, index) =>
+      result.success
+        ? { ...upsertedByIndex.get(index)!, index }
+        : { index, status: 'error', error: 'Validation error', details: result.error.errors }
+    );
+
+    res.status(200).json({ success: true, data: results, summary: summarizeBatch(results) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+    } else {
+      console.error('Error batch upserting projects:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * GET /api/projects
+ * List projects (cursor-paginated)
+ * 
+ * Query params:
+ * - q: free-text search across name, address and suburb
+ * - state, category: comma-separated, any of (case-insensitive)
+ * - suburb, postcode: exact match
+ * - awarded_from / awarded_to, quotes_due_from / quotes_due_to: date ranges (inclusive)
+ * - max_distance: maximum distance (km)
+ * - budget_min / budget_max: budget band overlaps the range
+ * - call_suppressed: 'true' or 'false'
+ * - has_eligible_contacts: 'true' for projects with at least one callable contact
+ *   (phone, not do_not_call/suppressed, no terminal session; time-based limits not applied)
+ * - sort: 'name' (default), 'created_at', 'updated_at', 'awarded_date', 'quotes_due_date',
+ *   'distance', 'budget' or 'priority_score'
+ * - order: 'asc' (default) or 'desc'
+ * - cursor: next_cursor from the previous page
+ * - limit: page size (default: 50, max: 200)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const params = ProjectListQuerySchema.parse(req.query);
+    const page = await projectService.listProjects({
+      ...params,
+      states: params.state,
+      categories: params.category,
+    });
+    res.status(200).json({ success: true, data: page.items, count: page.items.length, next_cursor: page.next_cursor });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+    } else if (error.message?.includes('Invalid cursor')) {
+      res.status(400).json({ success: false, error: error.message });
+    } else {
+      console.error('Error listing projects:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+});
+
 /**
  * GET /api/projects/:project_id
  * Get project by external project_id
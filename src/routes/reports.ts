@@ -0,0 +1,147 @@
+import { Router, Request, Response } from 'express';
+import { ReportService, reportGroupColumns } from '../services/ReportService';
+import { CallingWindowService } from '../services/CallingWindowService';
+import { CallReportQuery, CallReportRow, OutcomeReportRow, ReportDimension } from '../types';
+import { toCsv } from '../utils/csv';
+import { isValidTimezone } from '../utils/local-time';
+import { z } from 'zod';
+
+const router = Router();
+const reportService = new ReportService();
+const callingWindowService = new CallingWindowService();
+
+const REPORT_DIMENSIONS: ReportDimension[] = ['day', 'week', 'category', 'state', 'call_type', 'campaign'];
+
+/** Default reporting period when from is omitted */
+const DEFAULT_PERIOD_DAYS = 7;
+
+/**
+ * Request validation schemas
+ */
+const ReportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  group_by: z.string()
+    .transform(value => value.split(',').map(s => s.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(REPORT_DIMENSIONS as [ReportDimension, ...ReportDimension[]])))
+    .optional(),
+  timezone: z.string().refine(isValidTimezone, { message: 'Invalid IANA timezone' }).optional(),
+  call_type: z.enum(['ai', 'human']).optional(),
+  campaign_id: z.string().uuid().optional(),
+  category: z.string().min(1).optional(),
+  state: z.string().min(1).optional(),
+  format: z.enum(['json', 'csv']).optional(),
+}).refine(data => !data.from || !data.to || data.from < data.to, {
+  message: 'from must be before to',
+});
+
+/**
+ * Parse report query params (default period: the last 7 days, timezone: calling default)
+ */
+function parseReportQuery(req: Request): { options: CallReportQuery; format: 'json' | 'csv' } {
+  const params = ReportQuerySchema.parse(req.query);
+  const to = params.to ?? new Date();
+  const from = params.from ?? new Date(to.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+
+  return {
+    options: {
+      from,
+      to,
+      group_by: [...new Set(params.group_by ?? [])],
+      timezone: params.timezone ?? callingWindowService.resolveTimezone({}),
+      call_type: params.call_type,
+      campaign_id: params.campaign_id,
+      category: params.category,
+      state: params.state,
+    },
+    format: params.format ?? 'json',
+  };
+}
+
+/**
+ * Map report errors to HTTP status codes
+ */
+function handleReportError(error: any, res: Response, report: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+  } else {
+    console.error(`Error building ${report} report:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+/**
+ * Send report rows as JSON, or as a CSV download with the given columns
+ */
+function sendReport<T extends object>(
+  res: Response,
+  format: 'json' | 'csv',
+  name: string,
+  options: CallReportQuery,
+  rows: T[],
+  columns: (keyof T & string)[]
+) {
+  if (format === 'csv') {
+    res.status(200)
+      .type('text/csv; charset=utf-8')
+      .set('Content-Disposition', `attachment; filename="${name}-report.csv"`)
+      .send(toCsv(rows, columns));
+  } else {
+    res.status(200).json({
+      success: true,
+      data: rows,
+      count: rows.length,
+      period: { from: options.from, to: options.to, timezone: options.timezone },
+    });
+  }
+}
+
+/**
+ * Common query params for /api/reports/*:
+ * - from / to: started_at range [from, to) (default: the last 7 days)
+ * - group_by: comma-separated 'day', 'week', 'category', 'state', 'call_type', 'campaign'
+ * - timezone: IANA timezone for day/week buckets (default: calling default timezone)
+ * - call_type, campaign_id, category, state: filters
+ * - format: 'json' (default) or 'csv'
+ */
+
+/**
+ * GET /api/reports/calls
+ * Per group: total and connected calls, connect rate, average duration,
+ * escalation rate, calls per contact and sentiment counts
+ */
+router.get('/calls', async (req: Request, res: Response) => {
+  try {
+    const { options, format } = parseReportQuery(req);
+    const rows = await reportService.getCallReport(options);
+    const columns: (keyof CallReportRow)[] = [
+      ...reportGroupColumns(options.group_by),
+      'total_calls', 'connected_calls', 'connect_rate', 'avg_duration_seconds',
+      'escalated_calls', 'escalation_rate', 'unique_contacts', 'calls_per_contact',
+      'positive_calls', 'neutral_calls', 'negative_calls',
+    ];
+    sendReport(res, format, 'calls', options, rows, columns);
+  } catch (error) {
+    handleReportError(error, res, 'calls');
+  }
+});
+
+/**
+ * GET /api/reports/outcomes
+ * Outcome distribution per group (call_status is used when no outcome was recorded)
+ */
+router.get('/outcomes', async (req: Request, res: Response) => {
+  try {
+    const { options, format } = parseReportQuery(req);
+    const rows = await reportService.getOutcomeReport(options);
+    const columns: (keyof OutcomeReportRow)[] = [
+      ...reportGroupColumns(options.group_by),
+      'outcome', 'calls', 'share',
+    ];
+    sendReport(res, format, 'outcomes', options, rows, columns);
+  } catch (error) {
+    handleReportError(error, res, 'outcomes');
+  }
+});
+
+export default router;
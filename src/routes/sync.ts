@@ -0,0 +1,114 @@
+import { Router, Request, Response } from 'express';
+import { SyncJobService } from '../services/SyncJobService';
+import { z } from 'zod';
+
+const router = Router();
+const syncJobService = new SyncJobService();
+
+/**
+ * Request validation schemas
+ */
+const SyncJobIdSchema = z.string().uuid();
+
+const SyncJobStatusSchema = z.enum(['pending', 'processing', 'succeeded', 'dead']);
+
+const SyncEntityTypeSchema = z.enum(['project', 'contact', 'project_contact', 'call_session', 'terminal_session']);
+
+const SyncJobListQuerySchema = z.object({
+  status: z.string()
+    .transform(value => value.split(',').map(s => s.trim()).filter(Boolean))
+    .pipe(z.array(SyncJobStatusSchema))
+    .optional(),
+  entity_type: SyncEntityTypeSchema.optional(),
+  entity_id: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+const RetryDeadSchema = z.object({
+  entity_type: SyncEntityTypeSchema.optional(),
+});
+
+/**
+ * Map sync job errors to HTTP status codes
+ */
+function handleSyncJobError(error: any, res: Response, action: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+  } else if (error.message?.includes('not found')) {
+    res.status(404).json({ success: false, error: error.message });
+  } else if (error.message?.includes('Sync job conflict')) {
+    res.status(409).json({ success: false, error: error.message });
+  } else {
+    console.error(`Error ${action} sync job:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+/**
+ * GET /api/sync/jobs
+ * HubSpot sync jobs, next due first, with the number of jobs per status (summary)
+ *
+ * Query params:
+ * - status: comma-separated 'pending', 'processing', 'succeeded', 'dead' (default: all)
+ * - entity_type: 'project', 'contact', 'project_contact', 'call_session', 'terminal_session'
+ * - entity_id: internal ID of the synced row
+ * - limit: Maximum number of results (default: 100)
+ */
+router.get('/jobs', async (req: Request, res: Response) => {
+  try {
+    const filter = SyncJobListQuerySchema.parse(req.query);
+    const jobs = await syncJobService.listJobs(filter);
+    const summary = await syncJobService.getStatusCounts();
+    res.status(200).json({ success: true, data: jobs, count: jobs.length, summary });
+  } catch (error) {
+    handleSyncJobError(error, res, 'listing');
+  }
+});
+
+/**
+ * POST /api/sync/jobs/retry-dead
+ * Requeue dead jobs (optionally of one entity_type) with a fresh set of attempts
+ */
+router.post('/jobs/retry-dead', async (req: Request, res: Response) => {
+  try {
+    const { entity_type } = RetryDeadSchema.parse(req.body ?? {});
+    const requeued = await syncJobService.retryDeadJobs(entity_type);
+    res.status(200).json({ success: true, data: { requeued } });
+  } catch (error) {
+    handleSyncJobError(error, res, 'retrying dead');
+  }
+});
+
+/**
+ * GET /api/sync/jobs/:job_id
+ * Get sync job by ID
+ */
+router.get('/jobs/:job_id', async (req: Request, res: Response) => {
+  try {
+    const job = await syncJobService.getJobById(SyncJobIdSchema.parse(req.params.job_id));
+
+    if (!job) {
+      res.status(404).json({ success: false, error: 'Sync job not found' });
+    } else {
+      res.status(200).json({ success: true, data: job });
+    }
+  } catch (error) {
+    handleSyncJobError(error, res, 'fetching');
+  }
+});
+
+/**
+ * POST /api/sync/jobs/:job_id/retry
+ * Retry a dead (or waiting) job now (409 if it is processing or succeeded, or the entity
+ * already has an active job)
+ */
+router.post('/jobs/:job_id/retry', async (req: Request, res: Response) => {
+  try {
+    const job = await syncJobService.retryJob(SyncJobIdSchema.parse(req.params.job_id));
+    res.status(200).json({ success: true, data: job });
+  } catch (error) {
+    handleSyncJobError(error, res, 'retrying');
+  }
+});
+
+export default router;
@@ -0,0 +1,97 @@
+import { Router, Request, Response } from 'express';
+import { TelephonyService } from '../services/TelephonyService';
+import { z } from 'zod';
+
+const router = Router();
+const telephonyService = new TelephonyService();
+
+/**
+ * Request validation schemas
+ */
+const PlaceCallSchema = z.object({
+  project_id: z.string().min(1), // External project_id
+  contact_id: z.string().min(1), // Internal UUID or external contact_id
+  call_type: z.enum(['ai', 'human']).optional(),
+  campaign_id: z.string().uuid().optional(),
+  worker_id: z.string().min(1).optional(),
+  metadata: z.record(z.string()).optional(),
+});
+
+/**
+ * Map telephony errors to HTTP status codes
+ */
+function handleTelephonyError(error: any, res: Response, action: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ success: false, error: 'Validation error', details: error.errors });
+  } else if (error.message?.includes('not found') || error.message?.includes('not configured')) {
+    res.status(404).json({ success: false, error: error.message });
+  } else if (error.message?.includes('Invalid webhook signature')) {
+    res.status(403).json({ success: false, error: error.message });
+  } else if (
+    error.message?.includes('Call not eligible') ||
+    error.message?.includes('Call conflict') ||
+    error.message?.includes('Invalid transition')
+  ) {
+    res.status(409).json({ success: false, error: error.message });
+  } else if (error.message?.includes('Telephony error')) {
+    res.status(502).json({ success: false, error: error.message });
+  } else {
+    console.error(`Error ${action}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
+
+/**
+ * POST /api/telephony/calls
+ * Place an outbound call through the configured provider (TELEPHONY_PROVIDER)
+ *
+ * Eligibility is re-checked before dialing (409 if not eligible). Returns the
+ * 'queued' call session; status events then move it through ringing / in_progress
+ * to a terminal status, which sets ended_at and outcome and releases the lease.
+ *
+ * Simulator: metadata.simulated_result forces the result ('interested',
+ * 'callback_requested', 'not_interested', 'wrong_contact', 'no_answer', 'busy',
+ * 'voicemail', 'failed').
+ */
+router.post('/calls', async (req: Request, res: Response) => {
+  try {
+    const callData = PlaceCallSchema.parse(req.body);
+    const session = await telephonyService.placeCall(callData);
+    res.status(201).json({ success: true, data: session });
+  } catch (error) {
+    handleTelephonyError(error, res, 'placing call');
+  }
+});
+
+/**
+ * POST /api/telephony/calls/:session_id/hangup
+ * Hang up an active call
+ */
+router.post('/calls/:session_id/hangup', async (req: Request, res: Response) => {
+  try {
+    const session = await telephonyService.hangUp(req.params.session_id);
+    res.status(200).json({ success: true, data: session });
+  } catch (error) {
+    handleTelephonyError(error, res, 'hanging up call');
+  }
+});
+
+/**
+ * POST /api/telephony/webhooks/:provider
+ * Provider status callback (e.g. Twilio StatusCallback, form-encoded)
+ *
+ * Twilio requests are authenticated with X-Twilio-Signature against
+ * TWILIO_STATUS_CALLBACK_URL.
+ */
+router.post('/webhooks/:provider', async (req: Request, res: Response) => {
+  try {
+    await telephonyService.handleWebhook(req.params.provider, req.body ?? {}, {
+      signature: req.get('x-twilio-signature'),
+    });
+    res.status(204).send();
+  } catch (error) {
+    handleTelephonyError(error, res, 'handling telephony webhook');
+  }
+});
+
+export default router;
@@ -15,6 +15,7 @@ const TerminalSessionSchema = z.object({
   contact_id: z.string().optional(), // Internal UUID for contact scope
   reason: z.string(),
   created_by: z.string().optional(),
+  call_session_id: z.string().uuid().optional(),
   expires_at: z.string().optional(),
   override_allowed: z.boolean().optional(),
 }).refine(
@@ -1,34 +1,77 @@
 import { query } from '../db/connection';
-import { EligibleCall } from '../types';
+import {
+  CallSession,
+  Campaign,
+  CampaignTargetFilter,
+  EffectiveEligibilityPolicy,
+  EligibilityExplanation,
+  EligibilityRuleResult,
+  EligibleCall,
+  Project,
+} from '../types';
 import { TerminalService } from './TerminalService';
+import { CallingWindowService } from './CallingWindowService';
+import { EligibilityPolicyService } from './EligibilityPolicyService';
+import { CallScoringColumns, CallScoringService } from './CallScoringService';
+
+export interface EligibleCallOptions {
+  call_type?: CallSession['call_type'];
+  campaign?: Campaign; // restrict to the campaign's target filter and attribute results to it
+}
+
+/**
+ * Scoring features as columns of the eligible-calls query
+ */
+const SCORING_COLUMNS: CallScoringColumns = {
+  quotes_due_date: 'p.quotes_due_date',
+  distance: 'p.distance',
+  budget_min: 'p.budget_min',
+  budget_max: 'p.budget_max',
+  role_confidence: 'pc.role_confidence',
+  authority_level: 'c.authority_level',
+  last_contacted_at: 'GREATEST(pc.last_contacted_at, c.last_contacted_at, c.last_ai_contact)',
+  priority_score: 'p.priority_score',
+};
 
 /**
  * CallEligibilityService
  * 
  * Determines which projects/contacts are eligible for calling based on:
  * - Suppression flags (project.call_suppressed, contact.do_not_call, project_contact.suppress_for_project)
- * - Cooldown periods (next_call_eligible_at)
- * - Terminal sessions (must never call if terminal session exists)
- * - Builder/contact fatigue limits (configurable)
+ * - Cooldown periods per project, per project-contact pair and per contact across projects
+ *   (last_contacted_at + policy cooldown, next_call_eligible_at)
+ * - Outcome follow-ups per project-contact pair (callback slots, retry backoff, see FollowUpService)
+ * - Terminal sessions (must never call if terminal session exists; a global one blocks every call)
+ * - Builder/contact fatigue limits (stored eligibility policy, see EligibilityPolicyService)
+ * - Active dialer leases (a contact leased to one worker is not handed to another, on any project)
+ * - Local calling windows (project timezone, weekday/weekend hours, public holidays)
  * 
  * This is the source of truth for call eligibility logic.
  */
 export class CallEligibilityService {
   private terminalService: TerminalService;
+  private callingWindowService: CallingWindowService;
+  private policyService: EligibilityPolicyService;
+  private scoringService: CallScoringService;
   
   // Configuration constants
-  private readonly MIN_CALL_COOLDOWN_HOURS = 24; // Minimum hours between calls
-  private readonly MAX_CALLS_PER_DAY = 3; // Max calls per day per project/contact
-  private readonly MAX_CALLS_PER_WEEK = 10; // Max calls per week per project/contact
+  private readonly MIN_SCORING_POOL = 500; // Minimum candidates scored per request (models without a SQL score)
+  private readonly MAX_SCORING_POOL = 5000; // Upper bound on candidates scored per request (models without a SQL score)
   
-  constructor() {
+  constructor(scoringService?: CallScoringService) {
     this.terminalService = new TerminalService();
+    this.callingWindowService = new CallingWindowService();
+    this.policyService = new EligibilityPolicyService();
+    this.scoringService = scoringService ?? new CallScoringService();
   }
   
   /**
    * Check if a project is eligible for calling
    */
-  async isProjectEligible(projectId: string): Promise<{ eligible: boolean; reason?: string }> {
+  async isProjectEligible(
+    projectId: string,
+    callType: CallSession['call_type'] = 'ai'
+  ): Promise<{ eligible: boolean; reason?: string }> {
     // Get project
     const projectResult = await query(
       'SELECT * FROM crm_projects WHERE project_id = $1',
@@ -46,33 +89,49 @@ export class CallEligibilityService {
       return { eligible: false, reason: 'Project is suppressed' };
     }
     
-    // Check 2: Terminal session for project
-    const terminalCheck = await this.terminalService.hasActiveTerminalSession('project', project.id);
+    // Check 2: Terminal session for project (or global)
+    let terminalCheck = await this.terminalService.hasActiveTerminalSession('project', project.id);
+    if (!terminalCheck.hasTerminal) {
+      terminalCheck = await this.terminalService.hasActiveTerminalSession('global', '');
+    }
     if (terminalCheck.hasTerminal) {
       return { eligible: false, reason: `Terminal session exists: ${terminalCheck.reason}` };
     }
     
+    const policy = await this.policyService.getEffectivePolicy({
+      category: project.category,
+      call_type: callType,
+    });
+    
     // Check 3: Cooldown period
-    if (project.next_call_eligible_at) {
-      const eligibleAt = new Date(project.next_call_eligible_at);
-      if (eligibleAt > new Date()) {
-        return { eligible: false, reason: `Cooldown period active until ${eligibleAt.toISOString()}` };
-      }
+    const cooldownUntil = this.getCooldownUntil(project, policy.min_call_cooldown_hours);
+    if (cooldownUntil) {
+      return { eligible: false, reason: `Cooldown period active until ${cooldownUntil.toISOString()}` };
     }
     
     // Check 4: Call frequency limits (fatigue)
-    const fatigueCheck = await this.checkCallFatigue(project.id, null);
+    const fatigueCheck = await this.checkCallFatigue(project.id, null, policy);
     if (!fatigueCheck.allowed) {
       return { eligible: false, reason: fatigueCheck.reason };
     }
     
+    // Check 5: Local calling window
+    const windowCheck = this.callingWindowService.checkCallingWindow(project);
+    if (!windowCheck.open) {
+      return { eligible: false, reason: windowCheck.reason };
+    }
+    
     return { eligible: true };
   }
   
   /**
    * Check if a contact is eligible for calling
    */
-  async isContactEligible(contactId: string, projectId?: string): Promise<{ eligible: boolean; reason?: string }> {
+  async isContactEligible(
+    contactId: string,
+    projectId?: string,
+    callType: CallSession['call_type'] = 'ai'
+  ): Promise<{ eligible: boolean; reason?: string }> {
     // Get contact
     const contactResult = await query(
       'SELECT * FROM contacts WHERE id = $1',
@@ -90,47 +149,103 @@ export class CallEligibilityService {
       return { eligible: false, reason: 'Contact has do_not_call flag' };
     }
     
-    // Check 2: Terminal session for contact
-    const terminalCheck = await this.terminalService.hasActiveTerminalSession('contact', contact.id);
+    // Check 2: Phone number failed normalization
+    if (contact.phone_valid === false) {
+      return { eligible: false, reason: 'Contact phone number is invalid' };
+    }
+    
+    // Check 3: Terminal session for contact (or global)
+    let terminalCheck = await this.terminalService.hasActiveTerminalSession('contact', contact.id);
+    if (!terminalCheck.hasTerminal) {
+      terminalCheck = await this.terminalService.hasActiveTerminalSession('global', '');
+    }
     if (terminalCheck.hasTerminal) {
       return { eligible: false, reason: `Terminal session exists: ${terminalCheck.reason}` };
     }
     
-    // Check 3: Project-specific suppression (if project provided)
+    // Project being called about (for category policy and calling window)
+    let project: Pick<Project, 'category' | 'timezone' | 'state'> | null = null;
+    if (projectId) {
+      const projectResult = await query(
+        'SELECT category, timezone, state FROM crm_projects WHERE project_id = $1',
+        [projectId]
+      );
+      project = projectResult.rows[0] ?? null;
+    }
+    
+    const policy = await this.policyService.getEffectivePolicy({
+      category: project?.category,
+      authority_level: contact.authority_level,
+      call_type: callType,
+    });
+    
+    // Check 4: Contact cooldown (calls about any project)
+    const contactCooldownUntil = this.getCooldownUntil(contact, policy.contact_cooldown_hours);
+    if (contactCooldownUntil) {
+      return { eligible: false, reason: `Contact cooldown active until ${contactCooldownUntil.toISOString()}` };
+    }
+    
+    // Check 5: Project-specific suppression, follow-up and cooldown (if project provided)
+    // (project_contacts is keyed by external contact_id)
     if (projectId) {
       const projectContactResult = await query(
-        'SELECT suppress_for_project FROM project_contacts WHERE project_id = $1 AND contact_id = $2',
-        [projectId, contactId]
+        `SELECT suppress_for_project, last_contacted_at, next_call_eligible_at, follow_up_reason
+         FROM project_contacts WHERE project_id = $1 AND contact_id = $2`,
+        [projectId, contact.contact_id ?? contact.id]
       );
-      if (projectContactResult.rows.length > 0 && projectContactResult.rows[0].suppress_for_project) {
+      const projectContact = projectContactResult.rows[0];
+      if (projectContact?.suppress_for_project) {
         return { eligible: false, reason: 'Contact suppressed for this project' };
       }
+      if (projectContact?.next_call_eligible_at && new Date(projectContact.next_call_eligible_at) > new Date()) {
+        return {
+          eligible: false,
+          reason: `Follow-up scheduled for ${new Date(projectContact.next_call_eligible_at).toISOString()} (${projectContact.follow_up_reason})`,
+        };
+      }
+      const pairCooldownUntil = projectContact
+        ? this.getCooldownUntil({ last_contacted_at: projectContact.last_contacted_at }, policy.project_contact_cooldown_hours)
+        : null;
+      if (pairCooldownUntil) {
+        return { eligible: false, reason: `Project-contact cooldown active until ${pairCooldownUntil.toISOString()}` };
+      }
     }
     
-    // Check 4: Call frequency limits
-    const fatigueCheck = await this.checkCallFatigue(null, contactId);
+    // Check 6: Call frequency limits
+    const fatigueCheck = await this.checkCallFatigue(null, contactId, policy);
     if (!fatigueCheck.allowed) {
       return { eligible: false, reason: fatigueCheck.reason };
     }
     
+    // Check 7: Local calling window of the project being called about
+    if (project) {
+      const windowCheck = this.callingWindowService.checkCallingWindow(project);
+      if (!windowCheck.open) {
+        return { eligible: false, reason: windowCheck.reason };
+      }
+    }
+    
     return { eligible: true };
   }
   
   /**
    * Check if a project-contact combination is eligible for calling
+   * If workerId is provided, a lease held by that worker does not block eligibility
    */
   async isProjectContactEligible(
     projectId: string,
-    contactId: string
+    contactId: string,
+    workerId?: string,
+    callType: CallSession['call_type'] = 'ai'
   ): Promise<{ eligible: boolean; reason?: string }> {
     // Check project eligibility
-    const projectCheck = await this.isProjectEligible(projectId);
+    const projectCheck = await this.isProjectEligible(projectId, callType);
     if (!projectCheck.eligible) {
       return projectCheck;
     }
     
     // Check contact eligibility
-    const contactCheck = await this.isContactEligible(contactId, projectId);
+    const contactCheck = await this.isContactEligible(contactId, projectId, callType);
     if (!contactCheck.eligible) {
       return contactCheck;
     }
@@ -152,83 +267,599 @@ export class CallEligibilityService {
       }
     }
     
+    // Check active dialer lease of the contact, on any project
+    // (contactId may be internal UUID or external contact_id)
+    const leaseResult = await query(
+      `SELECT worker_id, expires_at FROM call_leases
+       WHERE (contact_id = $1 OR contact_id IN (SELECT contact_id FROM contacts WHERE id::text = $1))
+         AND released_at IS NULL
+         AND expires_at > NOW()
+       LIMIT 1`,
+      [contactId]
+    );
+    if (leaseResult.rows.length > 0 && leaseResult.rows[0].worker_id !== workerId) {
+      const lease = leaseResult.rows[0];
+      return {
+        eligible: false,
+        reason: `Leased to worker ${lease.worker_id} until ${new Date(lease.expires_at).toISOString()}`,
+      };
+    }
+    
     return { eligible: true };
   }
   
+  /**
+   * Explain eligibility of a project-contact combination
+   * Unlike isProjectContactEligible, evaluates every rule instead of stopping at the first blocker
+   * contactId may be the internal UUID or external contact_id
+   * Returns null if the project or contact does not exist
+   */
+  async explainProjectContactEligibility(
+    projectId: string,
+    contactId: string,
+    workerId?: string,
+    callType: CallSession['call_type'] = 'ai'
+  ): Promise<EligibilityExplanation | null> {
+    const projectResult = await query(
+      'SELECT * FROM crm_projects WHERE project_id = $1',
+      [projectId]
+    );
+    const contactResult = await query(
+      'SELECT * FROM contacts WHERE id::text = $1 OR contact_id = $1 ORDER BY (id::text = $1) DESC LIMIT 1',
+      [contactId]
+    );
+    
+    if (projectResult.rows.length === 0 || contactResult.rows.length === 0) {
+      return null;
+    }
+    
+    const project = projectResult.rows[0];
+    const contact = contactResult.rows[0];
+    const externalContactId: string = contact.contact_id ?? contact.id;
+    const rules: EligibilityRuleResult[] = [];
+    
+    const projectPolicy = await this.policyService.getEffectivePolicy({
+      category: project.category,
+      call_type: callType,
+    });
+    const contactPolicy = await this.policyService.getEffectivePolicy({
+      category: project.category,
+      authority_level: contact.authority_level,
+      call_type: callType,
+    });
+    
+    // Project suppression
+    rules.push(project.call_suppressed
+      ? { rule: 'project_suppressed', passed: false, blocking_value: true, reason: 'Project is suppressed', clears_at: null }
+      : { rule: 'project_suppressed', passed: true });
+    
+    // Global terminal session
+    const globalTerminal = await this.terminalService.hasActiveTerminalSession('global', '');
+    rules.push(globalTerminal.hasTerminal
+      ? {
+          rule: 'global_terminal',
+          passed: false,
+          blocking_value: globalTerminal.reason,
+          reason: `Terminal session exists: ${globalTerminal.reason}`,
+          clears_at: globalTerminal.expires_at ?? null,
+        }
+      : { rule: 'global_terminal', passed: true });
+    
+    // Project terminal session
+    const projectTerminal = await this.terminalService.hasActiveTerminalSession('project', project.id);
+    rules.push(projectTerminal.hasTerminal
+      ? {
+          rule: 'project_terminal',
+          passed: false,
+          blocking_value: projectTerminal.reason,
+          reason: `Terminal session exists: ${projectTerminal.reason}`,
+          clears_at: projectTerminal.expires_at ?? null,
+        }
+      : { rule: 'project_terminal', passed: true });
+    
+    // Project cooldown
+    const cooldownUntil = this.getCooldownUntil(project, projectPolicy.min_call_cooldown_hours);
+    rules.push(cooldownUntil
+      ? {
+          rule: 'project_cooldown',
+          passed: false,
+          blocking_value: cooldownUntil,
+          reason: `Cooldown period active until ${cooldownUntil.toISOString()}`,
+          clears_at: cooldownUntil,
+        }
+      : { rule: 'project_cooldown', passed: true });
+    
+    // Project fatigue
+    const projectFatigue = await this.checkCallFatigue(project.id, null, projectPolicy);
+    rules.push(projectFatigue.allowed
+      ? { rule: 'project_fatigue', passed: true }
+      : {
+          rule: 'project_fatigue',
+          passed: false,
+          blocking_value: { calls_today: projectFatigue.calls_today, calls_this_week: projectFatigue.calls_this_week },
+          reason: projectFatigue.reason,
+          clears_at: projectFatigue.clears_at ?? null,
+        });
+    
+    // Local calling window
+    const windowCheck = this.callingWindowService.checkCallingWindow(project);
+    rules.push(windowCheck.open
+      ? { rule: 'calling_window', passed: true }
+      : {
+          rule: 'calling_window',
+          passed: false,
+          blocking_value: windowCheck.timezone,
+          reason: windowCheck.reason,
+          clears_at: windowCheck.next_window_at ?? null,
+        });
+    
+    // Contact do_not_call flag
+    rules.push(contact.do_not_call
+      ? { rule: 'do_not_call', passed: false, blocking_value: true, reason: 'Contact has do_not_call flag', clears_at: null }
+      : { rule: 'do_not_call', passed: true });
+    
+    // Contact terminal session
+    const contactTerminal = await this.terminalService.hasActiveTerminalSession('contact', contact.id);
+    rules.push(contactTerminal.hasTerminal
+      ? {
+          rule: 'contact_terminal',
+          passed: false,
+          blocking_value: contactTerminal.reason,
+          reason: `Terminal session exists: ${contactTerminal.reason}`,
+          clears_at: contactTerminal.expires_at ?? null,
+        }
+      : { rule: 'contact_terminal', passed: true });
+    
+    // Per-project suppression
+    const projectContactResult = await query(
+      `SELECT suppress_for_project, last_contacted_at, next_call_eligible_at, follow_up_reason
+       FROM project_contacts WHERE project_id = $1 AND contact_id = $2`,
+      [projectId, externalContactId]
+    );
+    const projectContact = projectContactResult.rows[0];
+    const suppressedForProject = projectContact?.suppress_for_project;
+    rules.push(suppressedForProject
+      ? {
+          rule: 'project_contact_suppressed',
+          passed: false,
+          blocking_value: true,
+          reason: 'Contact suppressed for this project',
+          clears_at: null,
+        }
+      : { rule: 'project_contact_suppressed', passed: true });
+    
+    // Outcome follow-up for the pair
+    const followUpAt = projectContact?.next_call_eligible_at ? new Date(projectContact.next_call_eligible_at) : null;
+    rules.push(followUpAt && followUpAt > new Date()
+      ? {
+          rule: 'project_contact_follow_up',
+          passed: false,
+          blocking_value: projectContact.follow_up_reason,
+          reason: `Follow-up scheduled for ${followUpAt.toISOString()} (${projectContact.follow_up_reason})`,
+          clears_at: followUpAt,
+        }
+      : { rule: 'project_contact_follow_up', passed: true });
+    
+    // Cooldown for the pair (last contact about this project)
+    const pairCooldownUntil = projectContact
+      ? this.getCooldownUntil({ last_contacted_at: projectContact.last_contacted_at }, contactPolicy.project_contact_cooldown_hours)
+      : null;
+    rules.push(pairCooldownUntil
+      ? {
+          rule: 'project_contact_cooldown',
+          passed: false,
+          blocking_value: pairCooldownUntil,
+          reason: `Project-contact cooldown active until ${pairCooldownUntil.toISOString()}`,
+          clears_at: pairCooldownUntil,
+        }
+      : { rule: 'project_contact_cooldown', passed: true });
+    
+    // Cooldown for the contact (last contact about any project)
+    const contactCooldownUntil = this.getCooldownUntil(contact, contactPolicy.contact_cooldown_hours);
+    rules.push(contactCooldownUntil
+      ? {
+          rule: 'contact_cooldown',
+          passed: false,
+          blocking_value: contactCooldownUntil,
+          reason: `Contact cooldown active until ${contactCooldownUntil.toISOString()}`,
+          clears_at: contactCooldownUntil,
+        }
+      : { rule: 'contact_cooldown', passed: true });
+    
+    // Contact fatigue
+    const contactFatigue = await this.checkCallFatigue(null, contact.id, contactPolicy);
+    rules.push(contactFatigue.allowed
+      ? { rule: 'contact_fatigue', passed: true }
+      : {
+          rule: 'contact_fatigue',
+          passed: false,
+          blocking_value: { calls_today: contactFatigue.calls_today, calls_this_week: contactFatigue.calls_this_week },
+          reason: contactFatigue.reason,
+          clears_at: contactFatigue.clears_at ?? null,
+        });
+    
+    // Phone number
+    const hasPhone = typeof contact.phonenumber === 'string' && contact.phonenumber.trim() !== '';
+    rules.push(hasPhone
+      ? { rule: 'missing_phone', passed: true }
+      : { rule: 'missing_phone', passed: false, blocking_value: contact.phonenumber ?? null, reason: 'Contact has no phone number', clears_at: null });
+    rules.push(!hasPhone || contact.phone_valid !== false
+      ? { rule: 'invalid_phone', passed: true }
+      : { rule: 'invalid_phone', passed: false, blocking_value: contact.phonenumber_raw ?? contact.phonenumber, reason: 'Contact phone number is invalid', clears_at: null });
+    
+    // Active dialer lease of the contact (on any project)
+    const leaseResult = await query(
+      `SELECT worker_id, expires_at FROM call_leases
+       WHERE contact_id = $1 AND released_at IS NULL AND expires_at > NOW()
+       LIMIT 1`,
+      [externalContactId]
+    );
+    const lease = leaseResult.rows[0];
+    rules.push(lease && lease.worker_id !== workerId
+      ? {
+          rule: 'active_lease',
+          passed: false,
+          blocking_value: lease.worker_id,
+          reason: `Leased to worker ${lease.worker_id} until ${new Date(lease.expires_at).toISOString()}`,
+          clears_at: lease.expires_at,
+        }
+      : { rule: 'active_lease', passed: true });
+    
+    return {
+      project_id: projectId,
+      contact_id: externalContactId,
+      eligible: rules.every(r => r.passed),
+      rules,
+      policy: contactPolicy,
+    };
+  }
+  
   /**
    * Get all eligible calls (for batch processing)
    * Returns project-contact pairs that are eligible for calling
+   * 
+   * Set-based: suppression, terminal sessions, leases, cooldowns (project, pair, contact) and fatigue windows
+   * (under the effective eligibility policy per pair) are all applied inside Postgres,
+   * so LIMIT applies after filtering and the requested limit is filled when possible.
+   * Calling windows are resolved in code per distinct (timezone, state) and passed in.
+   * 
+   * Ordering: by the scoring model's score, computed in SQL so every eligible pair is
+   * ranked before LIMIT; each row carries its score breakdown (computed in code). Models
+   * without a SQL score re-rank a candidate pool (pre-ranked by priority_score,
+   * quotes_due_date and cooldown) instead, which approximates the ranking.
+   * 
+   * At most one pair per contact is returned (the contact's best-ranked project), so the
+   * contact cooldown holds within a batch: a claim never dials one person twice at once.
+   * 
+   * With options.campaign, only pairs matching the campaign target filter are returned.
+   * Campaign status, schedule and pacing are enforced by CampaignService.
    */
-  async getEligibleCalls(limit: number = 100): Promise<EligibleCall[]> {
+  async getEligibleCalls(
+    limit: number = 100,
+    options: EligibleCallOptions = {}
+  ): Promise<EligibleCall[]> {
+    const callType = options.call_type ?? 'ai';
+    const openWindowKeys = await this.getOpenWindowKeys();
+    if (openWindowKeys.length === 0) {
+      return [];
+    }
+    
+    // Campaign target filter (params from $11)
+    const target = this.buildTargetFilter(options.campaign?.target_filter ?? {}, 11);
+    
+    // Ranking score in SQL (params after the target filter's), so every eligible pair is ranked
+    const scoreParams: any[] = [];
+    const sqlScore = this.scoringService.sqlScore(SCORING_COLUMNS, value => {
+      scoreParams.push(value);
+      return `$${11 + target.params.length + scoreParams.length - 1}`;
+    });
+    
+    // Ranking, applied per contact (best project) and then across contacts
+    const rankOrder = (columns: { score: string; priority: string; dueDate: string; nextEligible: string; projectId: string; contactId: string }) => [
+      ...(sqlScore ? [`${columns.score} DESC`] : []),
+      `${columns.priority} DESC NULLS LAST`,
+      `${columns.dueDate} ASC NULLS LAST`,
+      `${columns.nextEligible} ASC NULLS FIRST`,
+      columns.projectId,
+      columns.contactId,
+    ].join(', ');
+    
+    const fallback = this.policyService.resolvePolicy([], {});
+    const todayStart = new Date();
+    todayStart.setHours(0, 0, 0, 0);
+    const weekStart = new Date();
+    weekStart.setDate(weekStart.getDate() - 7);
+    
     const queryText = `
-      SELECT DISTINCT
+      WITH project_calls AS (
+        SELECT
+          project_id,
+          COUNT(*) FILTER (WHERE started_at >= $4) AS calls_today,
+          COUNT(*) AS calls_this_week
+        FROM call_sessions
+        WHERE started_at >= $5
+        GROUP BY project_id
+      ),
+      contact_calls AS (
+        SELECT
+          contact_id,
+          COUNT(*) FILTER (WHERE started_at >= $4) AS calls_today,
+          COUNT(*) AS calls_this_week
+        FROM call_sessions
+        WHERE started_at >= $5 AND contact_id IS NOT NULL
+        GROUP BY contact_id
+      ),
+      global_policy AS (
+        SELECT * FROM eligibility_policies WHERE scope = 'global' AND is_active = true
+      ),
+      call_type_policy AS (
+        SELECT * FROM eligibility_policies WHERE scope = 'call_type' AND is_active = true AND LOWER(scope_value) = LOWER($2)
+        ORDER BY created_at DESC LIMIT 1
+      ),
+      -- One active override per normalized scope value (newest wins), so the
+      -- case-insensitive joins below cannot duplicate pairs
+      category_policy AS (
+        SELECT DISTINCT ON (LOWER(scope_value)) *, LOWER(scope_value) AS scope_key
+        FROM eligibility_policies WHERE scope = 'category' AND is_active = true
+        ORDER BY LOWER(scope_value), created_at DESC
+      ),
+      authority_policy AS (
+        SELECT DISTINCT ON (LOWER(scope_value)) *, LOWER(scope_value) AS scope_key
+        FROM eligibility_policies WHERE scope = 'authority_level' AND is_active = true
+        ORDER BY LOWER(scope_value), created_at DESC
+      )
+      SELECT * FROM (
+      SELECT
         p.project_id,
         p.name as project_name,
-        c.id as contact_internal_id,
         pc.contact_id,
         c.name as contact_name,
         c.phonenumber,
         pc.role_for_project,
         pc.role_confidence,
-        COALESCE(pc.preferred_channel_project, c.preferred_channel, 'phone') as preferred_channel
+        COALESCE(pc.preferred_channel_project, c.preferred_channel, 'phone') as preferred_channel,
+        p.quotes_due_date,
+        p.distance,
+        p.budget,
+        p.priority_score,
+        c.authority_level,
+        GREATEST(pc.last_contacted_at, c.last_contacted_at, c.last_ai_contact) as person_last_contacted_at,
+        p.next_call_eligible_at as project_next_call_eligible_at,
+        ${sqlScore ?? 'NULL'} as sql_score,
+        ROW_NUMBER() OVER (PARTITION BY pc.contact_id ORDER BY ${rankOrder({
+          score: sqlScore ?? '',
+          priority: 'p.priority_score',
+          dueDate: 'p.quotes_due_date',
+          nextEligible: 'p.next_call_eligible_at',
+          projectId: 'p.project_id',
+          contactId: 'pc.contact_id',
+        })}) as contact_rank
       FROM crm_projects p
       INNER JOIN project_contacts pc ON p.project_id = pc.project_id
       INNER JOIN contacts c ON c.contact_id = pc.contact_id
+      LEFT JOIN global_policy gp ON true
+      LEFT JOIN call_type_policy ctp ON true
+      LEFT JOIN category_policy catp ON catp.scope_key = LOWER(p.category)
+      LEFT JOIN authority_policy authp ON authp.scope_key = LOWER(c.authority_level)
+      LEFT JOIN project_calls prc ON prc.project_id = p.id
+      LEFT JOIN contact_calls cc ON cc.contact_id = c.id
       WHERE
+        -- Suppression
         p.call_suppressed = false
         AND c.do_not_call = false
         AND (pc.suppress_for_project = false OR pc.suppress_for_project IS NULL)
-        AND (p.next_call_eligible_at IS NULL OR p.next_call_eligible_at <= NOW())
+        -- Outcome follow-up for the pair (callback slot, retry backoff)
+        AND (pc.next_call_eligible_at IS NULL OR pc.next_call_eligible_at <= NOW())
         AND c.phonenumber IS NOT NULL
         AND c.phonenumber != ''
-      ORDER BY p.next_call_eligible_at ASC NULLS FIRST
+        -- Phone number failed normalization (NULL = not normalized yet)
+        AND (c.phone_valid = true OR c.phone_valid IS NULL)
+        -- Local calling window
+        AND (COALESCE(p.timezone, '') || '|' || COALESCE(UPPER(TRIM(p.state)), '')) = ANY($3)
+        -- Cooldown (project policy: call_type > category > global)
+        AND (p.next_call_eligible_at IS NULL OR p.next_call_eligible_at <= NOW())
+        AND (
+          p.last_contacted_at IS NULL
+          OR p.last_contacted_at + make_interval(secs => 3600 * COALESCE(
+            ctp.min_call_cooldown_hours, catp.min_call_cooldown_hours, gp.min_call_cooldown_hours, $6
+          )) <= NOW()
+        )
+        -- Project-contact cooldown (contact policy: call_type > authority_level > category > global)
+        AND (
+          pc.last_contacted_at IS NULL
+          OR pc.last_contacted_at + make_interval(secs => 3600 * COALESCE(
+            ctp.project_contact_cooldown_hours, authp.project_contact_cooldown_hours,
+            catp.project_contact_cooldown_hours, gp.project_contact_cooldown_hours, $9
+          )) <= NOW()
+        )
+        -- Contact cooldown across projects (contact policy)
+        AND (c.next_call_eligible_at IS NULL OR c.next_call_eligible_at <= NOW())
+        AND (
+          c.last_contacted_at IS NULL
+          OR c.last_contacted_at + make_interval(secs => 3600 * COALESCE(
+            ctp.contact_cooldown_hours, authp.contact_cooldown_hours,
+            catp.contact_cooldown_hours, gp.contact_cooldown_hours, $10
+          )) <= NOW()
+        )
+        -- Project fatigue
+        AND COALESCE(prc.calls_today, 0) < COALESCE(ctp.max_calls_per_day, catp.max_calls_per_day, gp.max_calls_per_day, $7)
+        AND COALESCE(prc.calls_this_week, 0) < COALESCE(ctp.max_calls_per_week, catp.max_calls_per_week, gp.max_calls_per_week, $8)
+        -- Contact fatigue (contact policy: call_type > authority_level > category > global)
+        AND COALESCE(cc.calls_today, 0) < COALESCE(
+          ctp.max_calls_per_day, authp.max_calls_per_day, catp.max_calls_per_day, gp.max_calls_per_day, $7
+        )
+        AND COALESCE(cc.calls_this_week, 0) < COALESCE(
+          ctp.max_calls_per_week, authp.max_calls_per_week, catp.max_calls_per_week, gp.max_calls_per_week, $8
+        )
+        -- Terminal sessions
+        AND NOT EXISTS (
+          SELECT 1 FROM terminal_sessions ts
+          WHERE ts.scope = 'global'
+            AND (ts.expires_at IS NULL OR ts.expires_at > NOW())
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM terminal_sessions ts
+          WHERE ts.scope = 'project' AND ts.project_id = p.id
+            AND (ts.expires_at IS NULL OR ts.expires_at > NOW())
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM terminal_sessions ts
+          WHERE ts.scope = 'contact' AND ts.contact_id = c.id
+            AND (ts.expires_at IS NULL OR ts.expires_at > NOW())
+        )
+        -- Active dialer leases (of the contact, on any project)
+        AND NOT EXISTS (
+          SELECT 1 FROM call_leases l
+          WHERE l.contact_id = pc.contact_id
+            AND l.released_at IS NULL
+            AND l.expires_at > NOW()
+        )
+        ${target.conditions.map(condition => `AND ${condition}`).join('\n        ')}
+      ) eligible
+      WHERE contact_rank = 1
+      ORDER BY ${rankOrder({
+        score: 'sql_score',
+        priority: 'priority_score',
+        dueDate: 'quotes_due_date',
+        nextEligible: 'project_next_call_eligible_at',
+        projectId: 'project_id',
+        contactId: 'contact_id',
+      })}
       LIMIT $1
     `;
     
-    const result = await query(queryText, [limit]);
+    // Models without a SQL score re-rank a pool pre-ordered by priority (approximate:
+    // pairs outside the pool are never scored)
+    const poolSize = sqlScore
+      ? limit
+      : Math.min(Math.max(limit * 5, this.MIN_SCORING_POOL), Math.max(this.MAX_SCORING_POOL, limit));
+    const result = await query(queryText, [
+      poolSize,
+      callType,
+      openWindowKeys,
+      todayStart,
+      weekStart,
+      fallback.min_call_cooldown_hours,
+      fallback.max_calls_per_day,
+      fallback.max_calls_per_week,
+      fallback.project_contact_cooldown_hours,
+      fallback.contact_cooldown_hours,
+      ...target.params,
+      ...scoreParams,
+    ]);
     
-    // Filter out contacts/projects with terminal sessions
-    const eligibleCalls: EligibleCall[] = [];
+    const ranked = this.scoringService.rank(result.rows, row => ({
+      quotes_due_date: row.quotes_due_date,
+      distance: row.distance != null ? parseFloat(row.distance) : null,
+      budget: row.budget,
+      role_confidence: row.role_confidence != null ? parseFloat(row.role_confidence) : null,
+      authority_level: row.authority_level,
+      last_contacted_at: row.person_last_contacted_at,
+      priority_score: row.priority_score != null ? parseFloat(row.priority_score) : null,
+    }));
     
-    for (const row of result.rows) {
-      // Check terminal sessions
-      const projectResult = await query(
-        'SELECT id FROM crm_projects WHERE project_id = $1',
-        [row.project_id]
+    return ranked.slice(0, limit).map(({ item: row, score }) => ({
+      project_id: row.project_id,
+      project_name: row.project_name,
+      contact_id: row.contact_id,
+      contact_name: row.contact_name,
+      phonenumber: row.phonenumber,
+      role_for_project: row.role_for_project,
+      role_confidence: row.role_confidence ? parseFloat(row.role_confidence) : undefined,
+      preferred_channel: row.preferred_channel,
+      campaign_id: options.campaign?.id,
+      score: score.total,
+      score_breakdown: score,
+    }));
+  }
+  
+  /**
+   * Build SQL conditions for a campaign target filter, numbering params from firstParam
+   * Budget bounds match projects whose budget band overlaps the requested range
+   */
+  private buildTargetFilter(
+    filter: CampaignTargetFilter,
+    firstParam: number
+  ): { conditions: string[]; params: any[] } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    const param = (value: any) => {
+      params.push(value);
+      return `$${firstParam + params.length - 1}`;
+    };
+    
+    if (filter.categories?.length) {
+      conditions.push(`LOWER(p.category) = ANY(${param(filter.categories.map(c => c.toLowerCase()))})`);
+    }
+    if (filter.states?.length) {
+      conditions.push(`UPPER(TRIM(p.state)) = ANY(${param(filter.states.map(st => st.trim().toUpperCase()))})`);
+    }
+    if (filter.budget_min != null) {
+      conditions.push(`p.budget_max >= ${param(filter.budget_min)}`);
+    }
+    if (filter.budget_max != null) {
+      conditions.push(`p.budget_min <= ${param(filter.budget_max)}`);
+    }
+    if (filter.roles?.length) {
+      conditions.push(
+        `LOWER(COALESCE(pc.role_for_project, c.global_role)) = ANY(${param(filter.roles.map(r => r.toLowerCase()))})`
       );
-      if (projectResult.rows.length === 0) continue;
-      const projectInternalId = projectResult.rows[0].id;
-      const contactInternalId = row.contact_internal_id;
-
-      const projectTerminal = await this.terminalService.hasActiveTerminalSession('project', projectInternalId);
-      if (projectTerminal.hasTerminal) continue;
-      const contactTerminal = await this.terminalService.hasActiveTerminalSession('contact', contactInternalId);
-      if (contactTerminal.hasTerminal) continue;
-      const fatigueCheck = await this.checkCallFatigue(projectInternalId, contactInternalId);
-      if (!fatigueCheck.allowed) continue;
-
-      eligibleCalls.push({
-        project_id: row.project_id,
-        project_name: row.project_name,
-        contact_id: row.contact_id,
-        contact_name: row.contact_name,
-        phonenumber: row.phonenumber,
-        role_for_project: row.role_for_project,
-        role_confidence: row.role_confidence ? parseFloat(row.role_confidence) : undefined,
-        preferred_channel: row.preferred_channel,
-      });
-    }
-    
-    return eligibleCalls;
+    }
+    
+    return { conditions, params };
   }
   
   /**
-   * Check call fatigue limits (max calls per day/week)
+   * Keys ('timezone|STATE') of project timezone/state combinations currently inside a calling window
+   * Matches the key expression used in getEligibleCalls
+   */
+  private async getOpenWindowKeys(): Promise<string[]> {
+    const result = await query(
+      `SELECT DISTINCT COALESCE(timezone, '') AS timezone, COALESCE(UPPER(TRIM(state)), '') AS state
+       FROM crm_projects
+       WHERE call_suppressed = false`
+    );
+    
+    const now = new Date();
+    return result.rows
+      .filter(row => this.callingWindowService.checkCallingWindow(
+        { timezone: row.timezone || undefined, state: row.state || undefined },
+        now
+      ).open)
+      .map(row => `${row.timezone}|${row.state}`);
+  }
+  
+  /**
+   * Resolve when a project's or contact's cooldown ends, or null if not cooling down
+   * Cooldown ends at the later of next_call_eligible_at and last_contacted_at + policy cooldown,
+   * so policy changes apply without waiting for the next call
+   */
+  private getCooldownUntil(
+    row: { next_call_eligible_at?: string | Date | null; last_contacted_at?: string | Date | null },
+    cooldownHours: number
+  ): Date | null {
+    const candidates: Date[] = [];
+    if (row.next_call_eligible_at) {
+      candidates.push(new Date(row.next_call_eligible_at));
+    }
+    if (row.last_contacted_at) {
+      const lastContacted = new Date(row.last_contacted_at);
+      candidates.push(new Date(lastContacted.getTime() + cooldownHours * 60 * 60 * 1000));
+    }
+    
+    const now = new Date();
+    const until = candidates.filter(d => d > now).sort((a, b) => b.getTime() - a.getTime())[0];
+    return until ?? null;
+  }
+  
+  /**
+   * Check call fatigue limits (max calls per day/week) under the effective policy
    */
   private async checkCallFatigue(
     projectId: string | null,
-    contactId: string | null
-  ): Promise<{ allowed: boolean; reason?: string }> {
+    contactId: string | null,
+    policy: EffectiveEligibilityPolicy
+  ): Promise<{ allowed: boolean; reason?: string; calls_today?: number; calls_this_week?: number; clears_at?: Date }> {
     if (!projectId && !contactId) {
       return { allowed: false, reason: 'Must provide project or contact ID' };
     }
@@ -245,13 +876,9 @@ export class CallEligibilityService {
       projectId || contactId,
       todayStart
     ]);
-    
     const callsToday = parseInt(todayResult.rows[0].count);
-    if (callsToday >= this.MAX_CALLS_PER_DAY) {
-      return { allowed: false, reason: `Daily call limit reached (${callsToday}/${this.MAX_CALLS_PER_DAY})` };
-    }
     
-    // Count calls this week
+    // Count calls this week (always, so both limits are reported)
     const weekStart = new Date();
     weekStart.setDate(weekStart.getDate() - 7);
     
@@ -263,12 +890,45 @@ export class CallEligibilityService {
       projectId || contactId,
       weekStart
     ]);
-    
     const callsThisWeek = parseInt(weekResult.rows[0].count);
-    if (callsThisWeek >= this.MAX_CALLS_PER_WEEK) {
-      return { allowed: false, reason: `Weekly call limit reached (${callsThisWeek}/${this.MAX_CALLS_PER_WEEK})` };
+    
+    const reasons: string[] = [];
+    const clearsAt: Date[] = [];
+    
+    if (callsToday >= policy.max_calls_per_day) {
+      const tomorrowStart = new Date(todayStart);
+      tomorrowStart.setDate(tomorrowStart.getDate() + 1);
+      reasons.push(`Daily call limit reached (${callsToday}/${policy.max_calls_per_day})`);
+      clearsAt.push(tomorrowStart);
+    }
+    
+    if (callsThisWeek >= policy.max_calls_per_week) {
+      // Rolling window: clears when enough of the oldest calls age out
+      const agingOutQuery = projectId
+        ? 'SELECT started_at FROM call_sessions WHERE project_id = $1 AND started_at >= $2 ORDER BY started_at ASC OFFSET $3 LIMIT 1'
+        : 'SELECT started_at FROM call_sessions WHERE contact_id = $1 AND started_at >= $2 ORDER BY started_at ASC OFFSET $3 LIMIT 1';
+      const agingOutResult = await query(agingOutQuery, [
+        projectId || contactId,
+        weekStart,
+        callsThisWeek - policy.max_calls_per_week,
+      ]);
+      reasons.push(`Weekly call limit reached (${callsThisWeek}/${policy.max_calls_per_week})`);
+      if (agingOutResult.rows.length > 0) {
+        clearsAt.push(new Date(new Date(agingOutResult.rows[0].started_at).getTime() + 7 * 24 * 60 * 60 * 1000));
+      }
+    }
+    
+    if (reasons.length > 0) {
+      // Blocked until every exceeded limit has cleared
+      return {
+        allowed: false,
+        reason: reasons.join('; '),
+        calls_today: callsToday,
+        calls_this_week: callsThisWeek,
+        clears_at: clearsAt.sort((x, y) => y.getTime() - x.getTime())[0],
+      };
     }
     
-    return { allowed: true };
+    return { allowed: true, calls_today: callsToday, calls_this_week: callsThisWeek };
   }
 }
@@ -0,0 +1,220 @@
+import { query, getClient } from '../db/connection';
+import { CallLease, ClaimedCall, EligibleCall } from '../types';
+import { CallEligibilityService } from './CallEligibilityService';
+import { CampaignService } from './CampaignService';
+
+/**
+ * CallLeaseService
+ * Dialer work queue on top of CallEligibilityService.getEligibleCalls
+ *
+ * Lease Strategy:
+ * - A worker claims N eligible project/contact pairs; each claim inserts a lease row
+ * - A unique index on unreleased leases per contact makes claims atomic: a contact
+ *   already leased by another worker (on any project) is skipped (ON CONFLICT DO NOTHING)
+ * - Leases expire after their TTL unless renewed (heartbeat)
+ * - Expired leases are released back to the pool before every claim
+ * - Claims for a campaign draw from CampaignService (target filter, pacing) and
+ *   record campaign_id on the lease; they lock the campaign row, so concurrent claims
+ *   cannot exceed its pacing
+ */
+export class CallLeaseService {
+  private eligibilityService: CallEligibilityService;
+  private campaignService: CampaignService;
+
+  // Configuration constants
+  private readonly DEFAULT_LEASE_TTL_SECONDS = 300;
+  private readonly MAX_CLAIM_ATTEMPTS = 3; // Candidate fetches per claim when pairs are taken concurrently
+
+  constructor() {
+    this.eligibilityService = new CallEligibilityService();
+    this.campaignService = new CampaignService();
+  }
+
+  /**
+   * Claim up to `count` eligible calls for a worker
+   * Returns only the pairs this worker actually leased
+   */
+  async claimCalls(
+    workerId: string,
+    count: number,
+    ttlSeconds: number = this.DEFAULT_LEASE_TTL_SECONDS,
+    campaignId?: string
+  ): Promise<ClaimedCall[]> {
+    await this.releaseExpiredLeases();
+
+    const claimed: ClaimedCall[] = [];
+
+    for (let attempt = 0; attempt < this.MAX_CLAIM_ATTEMPTS && claimed.length < count; attempt++) {
+      const client = await getClient();
+      let candidates: EligibleCall[] = [];
+
+      try {
+        await client.query('BEGIN');
+
+        // Serialize claims per campaign: pacing capacity is read (by getEligibleCalls) only
+        // after concurrent claims for the campaign have committed their leases
+        if (campaignId) {
+          await client.query('SELECT id FROM campaigns WHERE id = $1 FOR UPDATE', [campaignId]);
+        }
+
+        candidates = campaignId
+          ? await this.campaignService.getEligibleCalls(campaignId, count - claimed.length)
+          : await this.eligibilityService.getEligibleCalls(count - claimed.length);
+
+        for (const candidate of candidates) {
+          const result = await client.query(
+            `INSERT INTO call_leases (project_id, contact_id, worker_id, campaign_id, expires_at)
+             VALUES ($1, $2, $3, $4, NOW() + make_interval(secs => $5))
+             ON CONFLICT (contact_id) WHERE released_at IS NULL DO NOTHING
+             RETURNING id, expires_at`,
+            [candidate.project_id, candidate.contact_id, workerId, campaignId || null, ttlSeconds]
+          );
+
+          if (result.rows.length > 0) {
+            claimed.push({
+              ...candidate,
+              lease_id: result.rows[0].id,
+              lease_expires_at: result.rows[0].expires_at,
+            });
+          }
+        }
+
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+
+      if (candidates.length === 0) break;
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Renew (heartbeat) a lease held by a worker
+   */
+  async renewLease(
+    leaseId: string,
+    workerId: string,
+    ttlSeconds: number = this.DEFAULT_LEASE_TTL_SECONDS
+  ): Promise<CallLease> {
+    const result = await query(
+      `UPDATE call_leases
+       SET heartbeat_at = NOW(), expires_at = NOW() + make_interval(secs => $1)
+       WHERE id = $2 AND worker_id = $3 AND released_at IS NULL AND expires_at > NOW()
+       RETURNING *`,
+      [ttlSeconds, leaseId, workerId]
+    );
+
+    if (result.rows.length === 0) {
+      return this.throwLeaseNotHeld(leaseId, workerId);
+    }
+
+    return this.mapRowToCallLease(result.rows[0]);
+  }
+
+  /**
+   * Release a lease held by a worker, returning the pair to the pool
+   */
+  async releaseLease(leaseId: string, workerId: string, reason: string = 'released'): Promise<CallLease> {
+    const result = await query(
+      `UPDATE call_leases
+       SET released_at = NOW(), release_reason = $1
+       WHERE id = $2 AND worker_id = $3 AND released_at IS NULL AND expires_at > NOW()
+       RETURNING *`,
+      [reason, leaseId, workerId]
+    );
+
+    if (result.rows.length === 0) {
+      return this.throwLeaseNotHeld(leaseId, workerId);
+    }
+
+    return this.mapRowToCallLease(result.rows[0]);
+  }
+
+  /**
+   * Release all expired leases back to the pool
+   * Returns the number of leases released
+   */
+  async releaseExpiredLeases(): Promise<number> {
+    const result = await query(
+      `UPDATE call_leases
+       SET released_at = expires_at, release_reason = 'expired'
+       WHERE released_at IS NULL AND expires_at <= NOW()`
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Get lease by ID
+   */
+  async getLeaseById(id: string): Promise<CallLease | null> {
+    const result = await query(
+      'SELECT * FROM call_leases WHERE id = $1',
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToCallLease(result.rows[0]);
+  }
+
+  /**
+   * Get active (unreleased, unexpired) leases held by a worker
+   */
+  async getActiveLeasesByWorker(workerId: string): Promise<CallLease[]> {
+    const result = await query(
+      `SELECT * FROM call_leases
+       WHERE worker_id = $1 AND released_at IS NULL AND expires_at > NOW()
+       ORDER BY leased_at ASC`,
+      [workerId]
+    );
+
+    return result.rows.map(row => this.mapRowToCallLease(row));
+  }
+
+  /**
+   * Explain why a conditional renew/release matched no row: the lease does not exist
+   * (not found) or is not held by the worker (conflict)
+   * Ownership and expiry are checked in the UPDATE itself, so a lease that expires or is
+   * re-claimed concurrently cannot be renewed or released by its previous holder
+   */
+  private async throwLeaseNotHeld(leaseId: string, workerId: string): Promise<never> {
+    const lease = await this.getLeaseById(leaseId);
+    if (!lease) {
+      throw new Error(`Lease not found: ${leaseId}`);
+    }
+    if (lease.worker_id !== workerId) {
+      throw new Error(`Lease conflict: held by another worker`);
+    }
+    if (lease.released_at) {
+      throw new Error(`Lease conflict: already released`);
+    }
+    throw new Error(`Lease conflict: expired at ${new Date(lease.expires_at).toISOString()}`);
+  }
+
+  /**
+   * Map database row to CallLease type
+   */
+  private mapRowToCallLease(row: any): CallLease {
+    return {
+      id: row.id,
+      project_id: row.project_id,
+      contact_id: row.contact_id,
+      worker_id: row.worker_id,
+      campaign_id: row.campaign_id,
+      leased_at: row.leased_at,
+      heartbeat_at: row.heartbeat_at,
+      expires_at: row.expires_at,
+      released_at: row.released_at,
+      release_reason: row.release_reason,
+      created_at: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,230 @@
+import dotenv from 'dotenv';
+import { z } from 'zod';
+import { CallScore, CallScoreComponent, CallScoringFeatures, CallScoringWeights } from '../types';
+import { parseBudgetBand } from '../utils/budget';
+
+dotenv.config();
+
+/**
+ * Default weights (sum to 1 so scores fall in 0..1)
+ */
+const DEFAULT_WEIGHTS: CallScoringWeights = {
+  quote_due_urgency: 0.25,
+  distance: 0.1,
+  budget: 0.15,
+  role_confidence: 0.15,
+  authority_level: 0.15,
+  days_since_last_contact: 0.1,
+  priority_score: 0.1,
+};
+
+const WeightsSchema = z.object({
+  quote_due_urgency: z.number().min(0),
+  distance: z.number().min(0),
+  budget: z.number().min(0),
+  role_confidence: z.number().min(0),
+  authority_level: z.number().min(0),
+  days_since_last_contact: z.number().min(0),
+  priority_score: z.number().min(0),
+}).partial();
+
+/** Normalization horizons */
+const QUOTE_DUE_HORIZON_DAYS = 60; // Due today = 1, due in 60+ days = 0
+const MAX_DISTANCE_KM = 200; // 0 km = 1, 200+ km = 0
+const BUDGET_CEILING = 20_000_000; // Log-scaled up to $20m
+const LAST_CONTACT_HORIZON_DAYS = 30; // Never / 30+ days ago = 1
+
+/** Authority level -> 0..1 */
+const AUTHORITY_SCORES: Record<string, number> = {
+  decision_maker: 1,
+  owner: 1,
+  influencer: 0.6,
+  gatekeeper: 0.3,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * SQL column expressions of the scoring features (see CallScoringModel.sqlScore)
+ */
+export interface CallScoringColumns {
+  quotes_due_date: string;
+  distance: string;
+  budget_min: string;
+  budget_max: string;
+  role_confidence: string;
+  authority_level: string;
+  last_contacted_at: string;
+  priority_score: string;
+}
+
+/**
+ * Pluggable scoring model for ranking eligible calls
+ * Models with sqlScore are ranked by the database over every eligible pair; others
+ * re-rank a candidate pool in code (see CallEligibilityService.getEligibleCalls)
+ */
+export interface CallScoringModel {
+  readonly name: string;
+  score(features: CallScoringFeatures, now?: Date): CallScore;
+  /** SQL expression for score().total; param registers a bind value and returns its placeholder */
+  sqlScore?(columns: CallScoringColumns, param: (value: unknown) => string): string;
+}
+
+/**
+ * Weighted linear model: each feature is normalized to 0..1 and multiplied by its weight
+ * Missing features contribute 0 (distance: neutral 0.5)
+ */
+export class WeightedCallScoringModel implements CallScoringModel {
+  readonly name = 'weighted_v1';
+  private weights: CallScoringWeights;
+
+  constructor(weights?: Partial<CallScoringWeights>) {
+    this.weights = { ...DEFAULT_WEIGHTS, ...weights };
+  }
+
+  score(features: CallScoringFeatures, now: Date = new Date()): CallScore {
+    const components: CallScoreComponent[] = [
+      this.component('quote_due_urgency', features.quotes_due_date ?? null, this.quoteDueUrgency(features.quotes_due_date, now)),
+      this.component('distance', features.distance ?? null, this.distanceScore(features.distance)),
+      this.component('budget', features.budget ?? null, this.budgetScore(features.budget)),
+      this.component('role_confidence', features.role_confidence ?? null, this.clamp(features.role_confidence ?? 0)),
+      this.component('authority_level', features.authority_level ?? null, this.authorityScore(features.authority_level)),
+      this.component(
+        'days_since_last_contact',
+        features.last_contacted_at ?? null,
+        this.lastContactScore(features.last_contacted_at, now)
+      ),
+      this.component('priority_score', features.priority_score ?? null, this.clamp(features.priority_score ?? 0)),
+    ];
+
+    const total = components.reduce((sum, c) => sum + c.contribution, 0);
+    return { model: this.name, total: Math.round(total * 10000) / 10000, components };
+  }
+
+  sqlScore(columns: CallScoringColumns, param: (value: unknown) => string): string {
+    const clamp = (expr: string) => `LEAST(1, GREATEST(0, ${expr}))`;
+    const days = (from: string, to: string) => `(EXTRACT(EPOCH FROM (${to} - ${from})) / 86400)`;
+    const budgetMidpoint = `((${columns.budget_min} + ${columns.budget_max}) / 2)`;
+    const authorityCases = Object.entries(AUTHORITY_SCORES)
+      .map(([level, score]) => `WHEN ${param(level)} THEN ${param(score)}::numeric`)
+      .join(' ');
+    const quoteDueDays = days('NOW()', `${columns.quotes_due_date}::timestamptz`);
+
+    const normalized: Record<keyof CallScoringWeights, string> = {
+      quote_due_urgency: `CASE WHEN ${columns.quotes_due_date} IS NULL OR ${quoteDueDays} < -1 THEN 0
+        ELSE ${clamp(`1 - GREATEST(${quoteDueDays}, 0) / ${QUOTE_DUE_HORIZON_DAYS}`)} END`,
+      distance: `CASE WHEN ${columns.distance} IS NULL THEN 0.5
+        ELSE ${clamp(`1 - ${columns.distance} / ${MAX_DISTANCE_KM}`)} END`,
+      budget: `CASE WHEN ${columns.budget_min} IS NULL OR ${columns.budget_max} IS NULL OR ${budgetMidpoint} <= 1 THEN 0
+        ELSE ${clamp(`LN(${budgetMidpoint}) / LN(${BUDGET_CEILING})`)} END`,
+      role_confidence: clamp(`COALESCE(${columns.role_confidence}, 0)`),
+      authority_level: `CASE WHEN COALESCE(${columns.authority_level}, '') = '' THEN 0
+        ELSE CASE LOWER(TRIM(${columns.authority_level})) ${authorityCases} ELSE 0.2 END END`,
+      days_since_last_contact: `CASE WHEN ${columns.last_contacted_at} IS NULL THEN 1
+        ELSE ${clamp(`${days(columns.last_contacted_at, 'NOW()')} / ${LAST_CONTACT_HORIZON_DAYS}`)} END`,
+      priority_score: clamp(`COALESCE(${columns.priority_score}, 0)`),
+    };
+
+    return `(${(Object.keys(normalized) as (keyof CallScoringWeights)[])
+      .map(feature => `${param(this.weights[feature])}::numeric * (${normalized[feature]})`)
+      .join('\n        + ')})`;
+  }
+
+  private component(feature: keyof CallScoringWeights, raw: unknown, normalized: number): CallScoreComponent {
+    const weight = this.weights[feature];
+    return {
+      feature,
+      raw: raw instanceof Date ? raw.toISOString() : (raw as CallScoreComponent['raw']),
+      normalized: Math.round(normalized * 10000) / 10000,
+      weight,
+      contribution: Math.round(normalized * weight * 10000) / 10000,
+    };
+  }
+
+  private quoteDueUrgency(quotesDue: string | Date | null | undefined, now: Date): number {
+    if (!quotesDue) return 0;
+    const daysUntilDue = (new Date(quotesDue).getTime() - now.getTime()) / DAY_MS;
+    if (isNaN(daysUntilDue) || daysUntilDue < -1) return 0; // Quotes already closed
+    return this.clamp(1 - Math.max(daysUntilDue, 0) / QUOTE_DUE_HORIZON_DAYS);
+  }
+
+  private distanceScore(distance: number | null | undefined): number {
+    if (distance == null || isNaN(distance)) return 0.5;
+    return this.clamp(1 - distance / MAX_DISTANCE_KM);
+  }
+
+  private budgetScore(budget: string | null | undefined): number {
+    const band = parseBudgetBand(budget);
+    if (!band) return 0;
+    const midpoint = (band.min + band.max) / 2;
+    if (midpoint <= 1) return 0;
+    return this.clamp(Math.log10(midpoint) / Math.log10(BUDGET_CEILING));
+  }
+
+  private authorityScore(authorityLevel: string | null | undefined): number {
+    if (!authorityLevel) return 0;
+    return AUTHORITY_SCORES[authorityLevel.trim().toLowerCase()] ?? 0.2;
+  }
+
+  private lastContactScore(lastContacted: string | Date | null | undefined, now: Date): number {
+    if (!lastContacted) return 1;
+    const days = (now.getTime() - new Date(lastContacted).getTime()) / DAY_MS;
+    return this.clamp(days / LAST_CONTACT_HORIZON_DAYS);
+  }
+
+  private clamp(value: number): number {
+    return Math.min(1, Math.max(0, value));
+  }
+}
+
+/**
+ * Build the configured scoring model
+ * Weights are read from CALL_SCORING_WEIGHTS (JSON), e.g. {"distance":0.3,"budget":0}
+ */
+function createCallScoringModel(): CallScoringModel {
+  const raw = process.env.CALL_SCORING_WEIGHTS;
+  if (!raw) return new WeightedCallScoringModel();
+  try {
+    return new WeightedCallScoringModel(WeightsSchema.parse(JSON.parse(raw)));
+  } catch (error) {
+    console.warn('Invalid CALL_SCORING_WEIGHTS config, using defaults:', error);
+    return new WeightedCallScoringModel();
+  }
+}
+
+/**
+ * CallScoringService
+ * Ranks eligible calls with a pluggable scoring model (default: weighted_v1)
+ */
+export class CallScoringService {
+  private model: CallScoringModel;
+
+  constructor(model?: CallScoringModel) {
+    this.model = model ?? createCallScoringModel();
+  }
+
+  /**
+   * Score a single call
+   */
+  score(features: CallScoringFeatures, now: Date = new Date()): CallScore {
+    return this.model.score(features, now);
+  }
+
+  /**
+   * SQL expression ranking like the model, or null if the model can only score in code
+   */
+  sqlScore(columns: CallScoringColumns, param: (value: unknown) => string): string | null {
+    return this.model.sqlScore ? this.model.sqlScore(columns, param) : null;
+  }
+
+  /**
+   * Score and sort items, highest score first (stable for equal scores)
+   */
+  rank<T>(items: T[], getFeatures: (item: T) => CallScoringFeatures): { item: T; score: CallScore }[] {
+    const now = new Date();
+    return items
+      .map((item, index) => ({ item, index, score: this.model.score(getFeatures(item), now) }))
+      .sort((a, b) => b.score.total - a.score.total || a.index - b.index)
+      .map(({ item, score }) => ({ item, score }));
+  }
+}
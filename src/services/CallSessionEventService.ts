@@ -0,0 +1,139 @@
+import { PoolClient } from 'pg';
+import { query } from '../db/connection';
+import { CallSessionEvent, CallSessionEventContext } from '../types';
+
+/**
+ * call_sessions columns tracked in the event log
+ * (status_history is derived from call_status changes; created_at never changes)
+ */
+const TRACKED_FIELDS = [
+  'call_session_id', 'project_id', 'contact_id', 'call_type', 'call_status',
+  'detected_role', 'role_confidence', 'outcome', 'sentiment', 'escalated',
+  'escalation_reason', 'transcript', 'recording_url', 'campaign_id', 'provider',
+  'provider_call_id', 'parent_call_session_id', 'started_at', 'ended_at',
+];
+
+/**
+ * CallSessionEventService
+ * Append-only change log for call sessions
+ *
+ * - Every create/update writes one event with the per-column diff, inside the
+ *   caller's transaction so the log never disagrees with the session row
+ * - Events are never updated or deleted
+ * - Folding the diffs in order reconstructs the row as of any moment
+ */
+export class CallSessionEventService {
+  /**
+   * Record the diff between two versions of a call_sessions row
+   * `before` is null for a newly created session; no event is written if nothing changed
+   */
+  async recordChange(
+    client: PoolClient,
+    sessionId: string,
+    before: Record<string, any> | null,
+    after: Record<string, any>,
+    context: CallSessionEventContext = {}
+  ): Promise<CallSessionEvent | null> {
+    const changes: CallSessionEvent['changes'] = {};
+
+    for (const field of TRACKED_FIELDS) {
+      const from = this.normalize(field, before ? before[field] : null);
+      const to = this.normalize(field, after[field]);
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes[field] = { from, to };
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return null;
+    }
+
+    const result = await client.query(
+      `INSERT INTO call_session_events (call_session_id, event_type, actor, source, changes)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [
+        sessionId,
+        before ? 'updated' : 'created',
+        context.actor || 'system',
+        context.source || 'system',
+        JSON.stringify(changes),
+      ]
+    );
+
+    return this.mapRowToEvent(result.rows[0]);
+  }
+
+  /**
+   * Get events for a session, oldest first (optionally only those up to `until`)
+   */
+  async getEvents(sessionId: string, until?: Date): Promise<CallSessionEvent[]> {
+    const result = until
+      ? await query(
+          `SELECT * FROM call_session_events
+           WHERE call_session_id = $1 AND created_at <= $2
+           ORDER BY created_at ASC, id ASC`,
+          [sessionId, until]
+        )
+      : await query(
+          `SELECT * FROM call_session_events
+           WHERE call_session_id = $1
+           ORDER BY created_at ASC, id ASC`,
+          [sessionId]
+        );
+
+    return result.rows.map(row => this.mapRowToEvent(row));
+  }
+
+  /**
+   * Rebuild the call_sessions row as of a moment by folding events
+   * Returns null if the session did not exist yet
+   */
+  async reconstructRow(sessionId: string, at: Date): Promise<Record<string, any> | null> {
+    const events = await this.getEvents(sessionId, at);
+    if (events.length === 0) {
+      return null;
+    }
+
+    const row: Record<string, any> = { id: sessionId, created_at: events[0].created_at, status_history: [] };
+    for (const event of events) {
+      for (const [field, change] of Object.entries(event.changes)) {
+        row[field] = change.to;
+      }
+      if (event.changes.call_status) {
+        row.status_history.push({
+          from: event.changes.call_status.from,
+          to: event.changes.call_status.to,
+          at: event.created_at,
+        });
+      }
+    }
+
+    return row;
+  }
+
+  /**
+   * JSON-comparable column value (timestamps as ISO strings, decimals as numbers)
+   */
+  private normalize(field: string, value: unknown): unknown {
+    if (value === undefined || value === null) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (field === 'role_confidence') return parseFloat(String(value));
+    return value;
+  }
+
+  /**
+   * Map database row to CallSessionEvent type
+   */
+  private mapRowToEvent(row: any): CallSessionEvent {
+    return {
+      id: row.id,
+      call_session_id: row.call_session_id,
+      event_type: row.event_type,
+      actor: row.actor,
+      source: row.source,
+      changes: row.changes,
+      created_at: row.created_at,
+    };
+  }
+}
@@ -1,7 +1,10 @@
+import { PoolClient } from 'pg';
 import { query, getClient } from '../db/connection';
-import { CallSession } from '../types';
+import { CallSession, CallSessionEvent, CallSessionEventContext } from '../types';
 import { ProjectService } from './ProjectService';
-import { ProjectContactService } from './ProjectContactService';
+import { CallSessionEventService } from './CallSessionEventService';
+import { FollowUpService } from './FollowUpService';
+import { canTransitionCallStatus, isTerminalCallStatus } from '../utils/call-status';
 
 /**
  * CallSessionService
@@ -11,22 +14,31 @@ import { ProjectContactService } from './ProjectContactService';
  * - Uses external call_session_id if provided
  * - If call_session_id exists, returns existing session (idempotent)
  * - All call sessions are append-only (never deleted, only created)
+ * - Every create/update is recorded in call_session_events (diff, actor, source)
+ * - Sessions that become escalated are queued for a human (escalations)
+ * 
+ * Follow-up (next call for the pair, project/pair/contact cooldowns) is scheduled
+ * from the outcome when a session ends, see FollowUpService.
  */
 export class CallSessionService {
   private projectService: ProjectService;
-  private projectContactService: ProjectContactService;
+  private eventService: CallSessionEventService;
+  private followUpService: FollowUpService;
   
   constructor() {
     this.projectService = new ProjectService();
-    this.projectContactService = new ProjectContactService();
+    this.eventService = new CallSessionEventService();
+    this.followUpService = new FollowUpService();
   }
   
   /**
    * Create a call session (idempotent)
    * If call_session_id provided and exists, returns existing session
+   * ended_at may only be set on a terminal call_status ('Invalid call session' otherwise)
    */
-  async createCallSession(session: CallSession): Promise<CallSession> {
+  async createCallSession(session: CallSession, context: CallSessionEventContext = {}): Promise<CallSession> {
     const client = await getClient();
+    let createdSession: CallSession;
     
     try {
       await client.query('BEGIN');
@@ -44,12 +56,42 @@ export class CallSessionService {
         }
       }
       
+      const startedAt = session.started_at ? new Date(session.started_at) : new Date();
+      if (session.ended_at && !isTerminalCallStatus(session.call_status)) {
+        throw new Error(`Invalid call session: ended_at cannot be set while call is ${session.call_status}`);
+      }
+      if (session.ended_at && new Date(session.ended_at) < startedAt) {
+        throw new Error('Invalid call session: ended_at is before started_at');
+      }
+      
       // Get project internal ID
       const project = await this.projectService.getProjectByExternalId(session.project_id);
       if (!project || !project.id) {
         throw new Error(`Project not found: ${session.project_id}`);
       }
       
+      // Validate campaign attribution
+      if (session.campaign_id) {
+        const campaignResult = await client.query(
+          'SELECT id FROM campaigns WHERE id = $1',
+          [session.campaign_id]
+        );
+        if (campaignResult.rows.length === 0) {
+          throw new Error(`Campaign not found: ${session.campaign_id}`);
+        }
+      }
+      
+      // Validate the call being followed up
+      if (session.parent_call_session_id) {
+        const parentResult = await client.query(
+          'SELECT id FROM call_sessions WHERE id = $1',
+          [session.parent_call_session_id]
+        );
+        if (parentResult.rows.length === 0) {
+          throw new Error(`Call session not found: ${session.parent_call_session_id}`);
+        }
+      }
+      
       // Get contact internal ID if provided
       let contactInternalId: string | null = null;
       if (session.contact_id) {
@@ -67,9 +109,10 @@ export class CallSessionService {
         INSERT INTO call_sessions (
           call_session_id, project_id, contact_id, call_type, call_status,
           detected_role, role_confidence, outcome, sentiment, escalated,
-          escalation_reason, transcript, recording_url, started_at, ended_at
+          escalation_reason, transcript, recording_url, campaign_id, provider, provider_call_id,
+          status_history, started_at, ended_at, parent_call_session_id
         ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20
         )
         RETURNING *
       `;
@@ -88,10 +131,18 @@ export class CallSessionService {
         session.escalation_reason || null,
         session.transcript || null,
         session.recording_url || null,
-        session.started_at || new Date(),
+        session.campaign_id || null,
+        session.provider || null,
+        session.provider_call_id || null,
+        JSON.stringify([{ from: null, to: session.call_status, at: startedAt }]),
+        startedAt,
         session.ended_at || null,
+        session.parent_call_session_id || null,
       ]);
       
+      await this.eventService.recordChange(client, result.rows[0].id, null, result.rows[0], context);
+      await this.queueEscalation(client, null, result.rows[0]);
+      
       // Get external project_id for response
       const sessionWithProject = await query(
         `SELECT cs.*, p.project_id as external_project_id
@@ -101,73 +152,132 @@ export class CallSessionService {
         [result.rows[0].id]
       );
       
-      const createdSession = this.mapRowToCallSession(sessionWithProject.rows[0]);
-      
-      // Update project last_contacted_at and next_call_eligible_at
-      const now = new Date();
-      const nextEligibleAt = new Date(now);
-      nextEligibleAt.setHours(nextEligibleAt.getHours() + 24); // 24 hour cooldown
-      
-      await this.projectService.updateLastContactedAt(session.project_id, now);
-      await this.projectService.updateNextCallEligibleAt(session.project_id, nextEligibleAt);
-      
-      // Update project-contact last_contacted_at if contact provided
-      if (contactInternalId) {
-        await this.projectContactService.upsertProjectContact(
-          project.id,
-          contactInternalId,
-          { last_contacted_at: now }
-        );
-      }
+      createdSession = this.mapRowToCallSession(sessionWithProject.rows[0]);
       
       await client.query('COMMIT');
-      return createdSession;
     } catch (error) {
       await client.query('ROLLBACK');
       throw error;
     } finally {
       client.release();
     }
+    
+    // Sessions recorded after the fact are already over
+    if (isTerminalCallStatus(createdSession.call_status)) {
+      await this.scheduleFollowUp(createdSession);
+    }
+    
+    return createdSession;
   }
   
   /**
    * Update call session (for ongoing calls)
+   * 
+   * Status changes follow the call lifecycle (see utils/call-status):
+   * - Illegal transitions (e.g. reopening a completed call) throw 'Invalid transition'
+   * - Every status change is appended to status_history with a timestamp
+   * - ended_at may only be set on a terminal status and defaults to now when one is reached
+   * - ended_at before started_at throws 'Invalid call session'
+   * 
+   * Post-call fields (transcript, outcome, ...) may still be updated after the call ends.
+   * Reaching a terminal status, or changing the outcome of an ended call, (re)schedules
+   * the follow-up.
    */
   async updateCallSession(
     sessionId: string,
-    updates: Partial<CallSession>
+    updates: Partial<CallSession>,
+    context: CallSessionEventContext = {}
   ): Promise<CallSession> {
-    const updateFields: string[] = [];
-    const values: any[] = [];
-    let paramIndex = 1;
-    
-    const fieldsToUpdate: (keyof CallSession)[] = [
-      'call_status', 'detected_role', 'role_confidence', 'outcome',
-      'sentiment', 'escalated', 'escalation_reason', 'transcript',
-      'recording_url', 'ended_at'
-    ];
-    
-    for (const field of fieldsToUpdate) {
-      if (updates[field] !== undefined) {
-        updateFields.push(`${field} = $${paramIndex}`);
-        values.push(updates[field]);
+    const client = await getClient();
+    let followUpDue = false;
+    
+    try {
+      await client.query('BEGIN');
+      
+      // Lock the session so concurrent status callbacks apply in order
+      const currentResult = await client.query(
+        'SELECT * FROM call_sessions WHERE id = $1 FOR UPDATE',
+        [sessionId]
+      );
+      
+      if (currentResult.rows.length === 0) {
+        throw new Error(`Call session not found: ${sessionId}`);
+      }
+      
+      const current = currentResult.rows[0];
+      const statusChanged = updates.call_status !== undefined && updates.call_status !== current.call_status;
+      const nextStatus: string = statusChanged ? updates.call_status! : current.call_status;
+      
+      if (statusChanged && !canTransitionCallStatus(current.call_status, updates.call_status!)) {
+        throw new Error(`Invalid transition: ${current.call_status} -> ${updates.call_status}`);
+      }
+      
+      let endedAt = updates.ended_at;
+      if (endedAt !== undefined && !isTerminalCallStatus(nextStatus)) {
+        throw new Error(`Invalid transition: ended_at cannot be set while call is ${nextStatus}`);
+      }
+      if (statusChanged && isTerminalCallStatus(nextStatus) && endedAt === undefined && !current.ended_at) {
+        endedAt = new Date();
+      }
+      if (endedAt && current.started_at && new Date(endedAt) < new Date(current.started_at)) {
+        throw new Error('Invalid call session: ended_at is before started_at');
+      }
+      
+      const outcomeChanged = updates.outcome !== undefined && updates.outcome !== current.outcome;
+      followUpDue = isTerminalCallStatus(nextStatus) && (statusChanged || outcomeChanged);
+      
+      const updateFields: string[] = [];
+      const values: any[] = [];
+      let paramIndex = 1;
+      
+      const fieldsToUpdate: (keyof CallSession)[] = [
+        'call_status', 'detected_role', 'role_confidence', 'outcome',
+        'sentiment', 'escalated', 'escalation_reason', 'transcript',
+        'recording_url', 'provider', 'provider_call_id'
+      ];
+      
+      for (const field of fieldsToUpdate) {
+        if (updates[field] !== undefined) {
+          updateFields.push(`${field} = $${paramIndex}`);
+          values.push(updates[field]);
+          paramIndex++;
+        }
+      }
+      
+      if (endedAt !== undefined) {
+        updateFields.push(`ended_at = $${paramIndex}`);
+        values.push(endedAt);
         paramIndex++;
       }
-    }
-    
-    values.push(sessionId);
-    
-    const updateQuery = `
-      UPDATE call_sessions
-      SET ${updateFields.join(', ')}
-      WHERE id = $${paramIndex}
-      RETURNING *
-    `;
-    
-    const result = await query(updateQuery, values);
-    
-    if (result.rows.length === 0) {
-      throw new Error(`Call session not found: ${sessionId}`);
+      
+      if (statusChanged) {
+        updateFields.push(
+          `status_history = COALESCE(status_history, '[]'::jsonb) || jsonb_build_array(` +
+          `jsonb_build_object('from', $${paramIndex}::text, 'to', $${paramIndex + 1}::text, 'at', NOW()))`
+        );
+        values.push(current.call_status, nextStatus);
+        paramIndex += 2;
+      }
+      
+      if (updateFields.length > 0) {
+        values.push(sessionId);
+        const result = await client.query(
+          `UPDATE call_sessions
+           SET ${updateFields.join(', ')}
+           WHERE id = $${paramIndex}
+           RETURNING *`,
+          values
+        );
+        await this.eventService.recordChange(client, sessionId, current, result.rows[0], context);
+        await this.queueEscalation(client, current, result.rows[0]);
+      }
+      
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
     }
     
     // Get external project_id for response
@@ -178,8 +288,26 @@ export class CallSessionService {
        WHERE cs.id = $1`,
       [sessionId]
     );
+    const updatedSession = this.mapRowToCallSession(sessionWithProject.rows[0]);
+    
+    if (followUpDue) {
+      await this.scheduleFollowUp(updatedSession);
+    }
     
-    return this.mapRowToCallSession(sessionWithProject.rows[0]);
+    return updatedSession;
+  }
+  
+  /**
+   * Schedule the follow-up for a session that has ended
+   * Not fatal: the session is already committed, and throwing here would make callers
+   * (e.g. telephony status events) skip releasing the lease and post-call processing
+   */
+  private async scheduleFollowUp(session: CallSession): Promise<void> {
+    try {
+      await this.followUpService.scheduleFollowUp(session);
+    } catch (error) {
+      console.error(`Error scheduling follow-up for call ${session.id}:`, error);
+    }
   }
   
   /**
@@ -201,6 +329,50 @@ export class CallSessionService {
     return this.mapRowToCallSession(result.rows[0]);
   }
   
+  /**
+   * Get the change log of a call session, oldest first
+   */
+  async getCallSessionEvents(sessionId: string): Promise<CallSessionEvent[]> {
+    return this.eventService.getEvents(sessionId);
+  }
+  
+  /**
+   * Reconstruct a call session as it was at a given moment (from call_session_events)
+   * Returns null if the session did not exist yet
+   */
+  async getCallSessionAsOf(sessionId: string, at: Date): Promise<CallSession | null> {
+    const row = await this.eventService.reconstructRow(sessionId, at);
+    if (!row) {
+      return null;
+    }
+    
+    const projectResult = await query(
+      'SELECT project_id FROM crm_projects WHERE id = $1',
+      [row.project_id]
+    );
+    
+    return this.mapRowToCallSession({ ...row, external_project_id: projectResult.rows[0]?.project_id });
+  }
+  
+  /**
+   * Get call session by provider call ID (for telephony status callbacks)
+   */
+  async getCallSessionByProviderCallId(provider: string, providerCallId: string): Promise<CallSession | null> {
+    const result = await query(
+      `SELECT cs.*, p.project_id as external_project_id
+       FROM call_sessions cs
+       INNER JOIN crm_projects p ON cs.project_id = p.id
+       WHERE cs.provider = $1 AND cs.provider_call_id = $2`,
+      [provider, providerCallId]
+    );
+    
+    if (result.rows.length === 0) {
+      return null;
+    }
+    
+    return this.mapRowToCallSession(result.rows[0]);
+  }
+  
   /**
    * Get call sessions by project
    */
@@ -222,6 +394,23 @@ export class CallSessionService {
     return result.rows.map(row => this.mapRowToCallSession(row));
   }
   
+  /**
+   * Put a session on the human escalation queue when it becomes escalated (see EscalationService)
+   * Runs in the caller's transaction; a session is queued at most once
+   */
+  private async queueEscalation(client: PoolClient, before: any | null, after: any): Promise<void> {
+    if (!after.escalated || before?.escalated) {
+      return;
+    }
+    
+    await client.query(
+      `INSERT INTO escalations (call_session_id, reason)
+       VALUES ($1, $2)
+       ON CONFLICT (call_session_id) DO NOTHING`,
+      [after.id, after.escalation_reason || null]
+    );
+  }
+  
   /**
    * Map database row to CallSession type
    * Note: Expects row to have external_project_id from JOIN with crm_projects table
@@ -242,6 +431,11 @@ export class CallSessionService {
       escalation_reason: row.escalation_reason,
       transcript: row.transcript,
       recording_url: row.recording_url,
+      campaign_id: row.campaign_id,
+      provider: row.provider,
+      provider_call_id: row.provider_call_id,
+      status_history: row.status_history ?? [],
+      parent_call_session_id: row.parent_call_session_id,
       started_at: row.started_at,
       ended_at: row.ended_at,
       created_at: row.created_at,
@@ -0,0 +1,128 @@
+import { query, getClient } from '../db/connection';
+import { TranscriptSpeaker, TranscriptTurn } from '../types';
+
+/**
+ * CallTranscriptService
+ * Structured transcripts: speaker turns with offsets from the start of the call
+ *
+ * Idempotency Strategy:
+ * - Turns are numbered per session (seq); appends without seq get the next number
+ * - Re-sending a turn with an existing seq returns the stored turn unchanged,
+ *   so a live transcriber can safely retry
+ */
+export class CallTranscriptService {
+  /**
+   * Append turns to a call session's transcript
+   * Returns the stored turns in the order given
+   */
+  async appendTurns(sessionId: string, turns: TranscriptTurn[]): Promise<TranscriptTurn[]> {
+    const client = await getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      // Lock the session so concurrent appends get distinct seq numbers
+      const sessionResult = await client.query(
+        'SELECT id FROM call_sessions WHERE id = $1 FOR UPDATE',
+        [sessionId]
+      );
+      if (sessionResult.rows.length === 0) {
+        throw new Error(`Call session not found: ${sessionId}`);
+      }
+
+      const seqResult = await client.query(
+        'SELECT COALESCE(MAX(seq), 0) AS max_seq FROM call_transcript_turns WHERE call_session_id = $1',
+        [sessionId]
+      );
+      let maxSeq = parseInt(seqResult.rows[0].max_seq, 10);
+
+      const stored: TranscriptTurn[] = [];
+      for (const turn of turns) {
+        if (turn.end_ms < turn.start_ms) {
+          throw new Error('Invalid transcript turn: end_ms is before start_ms');
+        }
+
+        const seq = turn.seq ?? maxSeq + 1;
+        maxSeq = Math.max(maxSeq, seq);
+
+        const result = await client.query(
+          `INSERT INTO call_transcript_turns (
+            call_session_id, seq, speaker, start_ms, end_ms, text, confidence
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+          ON CONFLICT (call_session_id, seq) DO NOTHING
+          RETURNING *`,
+          [sessionId, seq, turn.speaker, turn.start_ms, turn.end_ms, turn.text, turn.confidence ?? null]
+        );
+
+        if (result.rows.length > 0) {
+          stored.push(this.mapRowToTurn(result.rows[0]));
+        } else {
+          const existing = await client.query(
+            'SELECT * FROM call_transcript_turns WHERE call_session_id = $1 AND seq = $2',
+            [sessionId, seq]
+          );
+          stored.push(this.mapRowToTurn(existing.rows[0]));
+        }
+      }
+
+      await client.query('COMMIT');
+      return stored;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get a call session's transcript turns in order
+   */
+  async getTurns(sessionId: string): Promise<TranscriptTurn[]> {
+    const result = await query(
+      'SELECT * FROM call_transcript_turns WHERE call_session_id = $1 ORDER BY seq ASC',
+      [sessionId]
+    );
+
+    return result.rows.map(row => this.mapRowToTurn(row));
+  }
+
+  /**
+   * What was said on a call, in order, optionally by one speaker only
+   * Uses the structured turns; sessions without turns fall back to the transcript
+   * text ("Agent: ..." lines are the agent, other lines the callee)
+   */
+  async getUtterances(
+    sessionId: string,
+    fallbackTranscript?: string,
+    speaker?: TranscriptSpeaker
+  ): Promise<string[]> {
+    const turns = await this.getTurns(sessionId);
+    if (turns.length > 0) {
+      return turns.filter(turn => !speaker || turn.speaker === speaker).map(turn => turn.text);
+    }
+
+    return (fallbackTranscript || '')
+      .split('\n')
+      .filter(line => line.trim())
+      .filter(line => !speaker || (/^agent:/i.test(line) ? 'agent' : 'callee') === speaker)
+      .map(line => line.replace(/^\w+:\s*/, ''));
+  }
+
+  /**
+   * Map database row to TranscriptTurn type
+   */
+  private mapRowToTurn(row: any): TranscriptTurn {
+    return {
+      id: row.id,
+      call_session_id: row.call_session_id,
+      seq: row.seq,
+      speaker: row.speaker,
+      start_ms: row.start_ms,
+      end_ms: row.end_ms,
+      text: row.text,
+      confidence: row.confidence !== null ? parseFloat(row.confidence) : undefined,
+      created_at: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,338 @@
+import dotenv from 'dotenv';
+import { z } from 'zod';
+import { CallingWindowConfig, CallingWindowCheck, Project } from '../types';
+import { fromLocal, isValidTimezone, LocalDateTime, toLocal, WEEKDAY_NAMES } from '../utils/local-time';
+
+dotenv.config();
+
+/**
+ * Default timezone per Australian state (used when a project has no timezone)
+ */
+const STATE_TIMEZONES: Record<string, string> = {
+  VIC: 'Australia/Melbourne',
+  NSW: 'Australia/Sydney',
+  ACT: 'Australia/Sydney',
+  QLD: 'Australia/Brisbane',
+  SA: 'Australia/Adelaide',
+  WA: 'Australia/Perth',
+  TAS: 'Australia/Hobart',
+  NT: 'Australia/Darwin',
+};
+
+/**
+ * Default calling windows (local time)
+ * Mirrors the Australian telemarketing industry standard:
+ * weekdays 9am-8pm, Saturday 9am-5pm, no calls on Sunday or public holidays
+ */
+const DEFAULT_CALLING_WINDOWS: CallingWindowConfig = {
+  default_timezone: 'Australia/Sydney',
+  weekday: { start: '09:00', end: '20:00' },
+  saturday: { start: '09:00', end: '17:00' },
+  sunday: null,
+  block_public_holidays: true,
+};
+
+const TimeRangeSchema = z.object({
+  start: z.string().regex(/^\d{2}:\d{2}$/),
+  end: z.string().regex(/^\d{2}:\d{2}$/),
+});
+
+const WindowRulesSchema = z.object({
+  weekday: TimeRangeSchema,
+  saturday: TimeRangeSchema.nullable(),
+  sunday: TimeRangeSchema.nullable(),
+  block_public_holidays: z.boolean(),
+});
+
+const CallingWindowConfigSchema = WindowRulesSchema.partial().extend({
+  default_timezone: z.string().optional(),
+  state_overrides: z.record(WindowRulesSchema.partial()).optional(),
+  additional_holidays: z.record(z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/))).optional(),
+});
+
+/** Maximum days to search ahead for the next open window */
+const MAX_LOOKAHEAD_DAYS = 14;
+
+/**
+ * Load calling window config from CALLING_WINDOWS (JSON), merged over defaults
+ */
+function loadCallingWindowConfig(): CallingWindowConfig {
+  const raw = process.env.CALLING_WINDOWS;
+  if (!raw) return DEFAULT_CALLING_WINDOWS;
+  try {
+    const parsed = CallingWindowConfigSchema.parse(JSON.parse(raw));
+    return { ...DEFAULT_CALLING_WINDOWS, ...parsed } as CallingWindowConfig;
+  } catch (error) {
+    console.warn('Invalid CALLING_WINDOWS config, using defaults:', error);
+    return DEFAULT_CALLING_WINDOWS;
+  }
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function parseMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map((n) => parseInt(n, 10));
+  return h * 60 + m;
+}
+
+/** Date (UTC-based arithmetic on calendar days) helper */
+function calendarDay(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/** nth weekday of a month (n = -1 for last) */
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n > 0) {
+    const first = calendarDay(year, month, 1);
+    const offset = (weekday - first.getUTCDay() + 7) % 7;
+    return calendarDay(year, month, 1 + offset + (n - 1) * 7);
+  }
+  const last = calendarDay(year, month + 1, 0);
+  const offset = (last.getUTCDay() - weekday + 7) % 7;
+  return calendarDay(year, month, last.getUTCDate() - offset);
+}
+
+/** Easter Sunday (Anonymous Gregorian algorithm) */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return calendarDay(year, month, day);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+function isoDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Public holidays for a year in an Australian state (YYYY-MM-DD)
+ * National holidays that fall on a weekend are observed on the next weekday.
+ * Holidays set by annual proclamation (e.g. AFL Grand Final Friday) belong in
+ * CALLING_WINDOWS.additional_holidays.
+ */
+function publicHolidays(year: number, state: string | null): Set<string> {
+  const holidays: Date[] = [];
+  const easter = easterSunday(year);
+
+  // National holidays falling on a weekend are observed on the next free weekday
+  const substituted = [calendarDay(year, 1, 1), calendarDay(year, 1, 26), calendarDay(year, 12, 25), calendarDay(year, 12, 26)];
+  const isWeekend = (date: Date) => date.getUTCDay() === 0 || date.getUTCDay() === 6;
+  const observed = new Set(substituted.map(isoDay));
+  holidays.push(...substituted);
+  for (const date of substituted.filter(isWeekend)) {
+    let substitute = addDays(date, 1);
+    while (isWeekend(substitute) || observed.has(isoDay(substitute))) {
+      substitute = addDays(substitute, 1);
+    }
+    holidays.push(substitute);
+    observed.add(isoDay(substitute));
+  }
+
+  holidays.push(addDays(easter, -2), addDays(easter, 1), calendarDay(year, 4, 25));
+
+  switch (state) {
+    case 'VIC':
+      holidays.push(addDays(easter, -1), easter);
+      holidays.push(nthWeekday(year, 3, 1, 2)); // Labour Day
+      holidays.push(nthWeekday(year, 6, 1, 2)); // King's Birthday
+      holidays.push(nthWeekday(year, 11, 2, 1)); // Melbourne Cup
+      break;
+    case 'NSW':
+      holidays.push(addDays(easter, -1), easter);
+      holidays.push(nthWeekday(year, 6, 1, 2)); // King's Birthday
+      holidays.push(nthWeekday(year, 10, 1, 1)); // Labour Day
+      break;
+    case 'ACT':
+      holidays.push(addDays(easter, -1), easter);
+      holidays.push(nthWeekday(year, 3, 1, 2)); // Canberra Day
+      holidays.push(nthWeekday(year, 6, 1, 2)); // King's Birthday
+      holidays.push(nthWeekday(year, 10, 1, 1)); // Labour Day
+      {
+        let reconciliation = calendarDay(year, 5, 27);
+        while (reconciliation.getUTCDay() !== 1) reconciliation = addDays(reconciliation, 1);
+        holidays.push(reconciliation); // Reconciliation Day
+      }
+      break;
+    case 'QLD':
+      holidays.push(addDays(easter, -1), easter);
+      holidays.push(nthWeekday(year, 5, 1, 1)); // Labour Day
+      holidays.push(nthWeekday(year, 10, 1, 1)); // King's Birthday
+      break;
+    case 'SA':
+      holidays.push(addDays(easter, -1));
+      holidays.push(nthWeekday(year, 3, 1, 2)); // Adelaide Cup
+      holidays.push(nthWeekday(year, 6, 1, 2)); // King's Birthday
+      holidays.push(nthWeekday(year, 10, 1, 1)); // Labour Day
+      break;
+    case 'WA':
+      holidays.push(nthWeekday(year, 3, 1, 1)); // Labour Day
+      holidays.push(nthWeekday(year, 6, 1, 1)); // Western Australia Day
+      holidays.push(nthWeekday(year, 9, 1, -1)); // King's Birthday
+      break;
+    case 'TAS':
+      holidays.push(nthWeekday(year, 3, 1, 2)); // Eight Hours Day
+      holidays.push(nthWeekday(year, 6, 1, 2)); // King's Birthday
+      break;
+    case 'NT':
+      holidays.push(addDays(easter, -1));
+      holidays.push(nthWeekday(year, 5, 1, 1)); // May Day
+      holidays.push(nthWeekday(year, 6, 1, 2)); // King's Birthday
+      holidays.push(nthWeekday(year, 8, 1, 1)); // Picnic Day
+      break;
+  }
+
+  return new Set(holidays.map(isoDay));
+}
+
+/**
+ * CallingWindowService
+ *
+ * Enforces local-time calling windows per project:
+ * - Timezone: project.timezone, falling back to the state's timezone, then the configured default
+ * - Weekday / Saturday / Sunday hours (Sunday closed by default)
+ * - Public holidays per AU state (national + state rules, plus configured additions)
+ *
+ * Configuration is read from CALLING_WINDOWS (JSON), e.g.
+ * {"weekday":{"start":"09:00","end":"18:00"},"state_overrides":{"WA":{"saturday":null}}}
+ */
+export class CallingWindowService {
+  private config: CallingWindowConfig;
+  private holidayCache = new Map<string, Set<string>>();
+
+  constructor(config?: CallingWindowConfig) {
+    this.config = config ?? loadCallingWindowConfig();
+  }
+
+  /**
+   * Resolve the timezone to use for a project
+   */
+  resolveTimezone(project: Pick<Project, 'timezone' | 'state'>): string {
+    if (project.timezone && isValidTimezone(project.timezone)) {
+      return project.timezone;
+    }
+    const state = this.normalizeState(project.state);
+    if (state && STATE_TIMEZONES[state]) {
+      return STATE_TIMEZONES[state];
+    }
+    return this.config.default_timezone;
+  }
+
+  /**
+   * Check whether a project may be called at the given instant
+   * When closed, returns when the next window opens
+   */
+  checkCallingWindow(project: Pick<Project, 'timezone' | 'state'>, at: Date = new Date()): CallingWindowCheck {
+    const timezone = this.resolveTimezone(project);
+    const state = this.normalizeState(project.state);
+    const local = toLocal(at, timezone);
+    const nowMinutes = local.hour * 60 + local.minute;
+
+    const today = this.windowForDay(local.year, local.month, local.day, local.weekday, state);
+    if (today && nowMinutes >= parseMinutes(today.start) && nowMinutes < parseMinutes(today.end)) {
+      return { open: true, timezone };
+    }
+
+    const nextWindowAt = this.findNextWindowStart(local, nowMinutes, timezone, state);
+    const localLabel = `${WEEKDAY_NAMES[local.weekday]} ${String(local.hour).padStart(2, '0')}:${String(local.minute).padStart(2, '0')}`;
+    const closedReason = today === null && this.isHoliday(local.year, local.month, local.day, state)
+      ? 'public holiday'
+      : 'outside calling hours';
+
+    if (!nextWindowAt) {
+      return {
+        open: false,
+        timezone,
+        reason: `Outside calling window (${closedReason}, ${localLabel} ${timezone}); no window in the next ${MAX_LOOKAHEAD_DAYS} days`,
+      };
+    }
+
+    const nextLocal = toLocal(nextWindowAt, timezone);
+    const nextLabel = `${WEEKDAY_NAMES[nextLocal.weekday]} ${String(nextLocal.hour).padStart(2, '0')}:${String(nextLocal.minute).padStart(2, '0')}`;
+    return {
+      open: false,
+      timezone,
+      next_window_at: nextWindowAt,
+      reason: `Outside calling window (${closedReason}, ${localLabel} ${timezone}); next window opens ${nextWindowAt.toISOString()} (${nextLabel} local)`,
+    };
+  }
+
+  /**
+   * Whether a local date is a public holiday for a state
+   */
+  isHoliday(year: number, month: number, day: number, state: string | null): boolean {
+    const key = `${year}:${state ?? ''}`;
+    let holidays = this.holidayCache.get(key);
+    if (!holidays) {
+      holidays = publicHolidays(year, state);
+      const additional = this.config.additional_holidays ?? {};
+      for (const date of [...(additional.national ?? []), ...(state ? additional[state] ?? [] : [])]) {
+        holidays.add(date);
+      }
+      this.holidayCache.set(key, holidays);
+    }
+    return holidays.has(formatDate(year, month, day));
+  }
+
+  /**
+   * Calling hours for a local calendar day, or null if closed all day
+   */
+  private windowForDay(
+    year: number,
+    month: number,
+    day: number,
+    weekday: number,
+    state: string | null
+  ): { start: string; end: string } | null {
+    const rules = { ...this.config, ...(state ? this.config.state_overrides?.[state] ?? {} : {}) };
+    if (rules.block_public_holidays && this.isHoliday(year, month, day, state)) {
+      return null;
+    }
+    if (weekday === 0) return rules.sunday;
+    if (weekday === 6) return rules.saturday;
+    return rules.weekday;
+  }
+
+  /**
+   * Find the UTC instant the next calling window opens
+   */
+  private findNextWindowStart(
+    local: LocalDateTime,
+    nowMinutes: number,
+    timezone: string,
+    state: string | null
+  ): Date | null {
+    for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+      const date = addDays(calendarDay(local.year, local.month, local.day), offset);
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth() + 1;
+      const day = date.getUTCDate();
+      const window = this.windowForDay(year, month, day, date.getUTCDay(), state);
+      if (!window) continue;
+      const startMinutes = parseMinutes(window.start);
+      if (offset === 0 && nowMinutes >= startMinutes) continue;
+      return fromLocal(year, month, day, Math.floor(startMinutes / 60), startMinutes % 60, timezone);
+    }
+    return null;
+  }
+
+  private normalizeState(state?: string | null): string | null {
+    return state ? state.trim().toUpperCase() : null;
+  }
+}
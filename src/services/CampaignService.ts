@@ -0,0 +1,323 @@
+import { query } from '../db/connection';
+import { Campaign, CampaignReport, CampaignStatus, EligibleCall } from '../types';
+import { CallEligibilityService } from './CallEligibilityService';
+
+/**
+ * Allowed status transitions (action -> from statuses, to status)
+ */
+const TRANSITIONS: Record<string, { from: CampaignStatus[]; to: CampaignStatus }> = {
+  activate: { from: ['draft'], to: 'active' },
+  pause: { from: ['active'], to: 'paused' },
+  resume: { from: ['paused'], to: 'active' },
+  complete: { from: ['draft', 'active', 'paused'], to: 'completed' },
+};
+
+export type CampaignAction = keyof typeof TRANSITIONS;
+
+/**
+ * CampaignService
+ * Outbound campaigns: a target filter over project/contact pairs, a script/agent,
+ * pacing limits and a schedule
+ *
+ * Lifecycle: draft -> active <-> paused -> completed
+ * - Only active campaigns inside their schedule hand out eligible calls
+ * - Pacing (calls per hour/day, concurrent calls) caps how many calls are handed out;
+ *   active leases count as calls in flight until a call session is recorded
+ * - Leases and call sessions carry campaign_id for attribution and reporting
+ */
+export class CampaignService {
+  private eligibilityService: CallEligibilityService;
+
+  constructor() {
+    this.eligibilityService = new CallEligibilityService();
+  }
+
+  /**
+   * Create a campaign (starts as draft)
+   */
+  async createCampaign(campaign: Campaign): Promise<Campaign> {
+    const result = await query(
+      `INSERT INTO campaigns (
+        name, description, status, target_filter, script_id, agent_id, call_type,
+        max_calls_per_hour, max_calls_per_day, max_concurrent_calls, start_at, end_at
+      ) VALUES (
+        $1, $2, 'draft', $3, $4, $5, $6, $7, $8, $9, $10, $11
+      )
+      RETURNING *`,
+      [
+        campaign.name,
+        campaign.description || null,
+        JSON.stringify(campaign.target_filter ?? {}),
+        campaign.script_id || null,
+        campaign.agent_id || null,
+        campaign.call_type || 'ai',
+        campaign.max_calls_per_hour ?? null,
+        campaign.max_calls_per_day ?? null,
+        campaign.max_concurrent_calls ?? null,
+        campaign.start_at || null,
+        campaign.end_at || null,
+      ]
+    );
+
+    return this.mapRowToCampaign(result.rows[0]);
+  }
+
+  /**
+   * Update campaign settings (status changes go through transition())
+   */
+  async updateCampaign(id: string, updates: Partial<Campaign>): Promise<Campaign> {
+    const existing = await this.getCampaignById(id);
+    if (!existing) {
+      throw new Error(`Campaign not found: ${id}`);
+    }
+    if (existing.status === 'completed') {
+      throw new Error('Campaign conflict: completed campaigns cannot be modified');
+    }
+
+    // Schedule of the merged record (the update may change only one end)
+    const startAt = updates.start_at !== undefined ? updates.start_at : existing.start_at;
+    const endAt = updates.end_at !== undefined ? updates.end_at : existing.end_at;
+    if (startAt && endAt && new Date(startAt) >= new Date(endAt)) {
+      throw new Error('Invalid campaign schedule: start_at must be before end_at');
+    }
+
+    const updateFields: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    const fieldsToUpdate: (keyof Campaign)[] = [
+      'name', 'description', 'target_filter', 'script_id', 'agent_id', 'call_type',
+      'max_calls_per_hour', 'max_calls_per_day', 'max_concurrent_calls', 'start_at', 'end_at'
+    ];
+
+    for (const field of fieldsToUpdate) {
+      if (updates[field] !== undefined) {
+        updateFields.push(`${field} = $${paramIndex}`);
+        values.push(field === 'target_filter' ? JSON.stringify(updates[field]) : updates[field]);
+        paramIndex++;
+      }
+    }
+
+    if (updateFields.length === 0) {
+      return existing;
+    }
+
+    values.push(id);
+
+    const result = await query(
+      `UPDATE campaigns
+       SET ${updateFields.join(', ')}
+       WHERE id = $${paramIndex}
+       RETURNING *`,
+      values
+    );
+
+    return this.mapRowToCampaign(result.rows[0]);
+  }
+
+  /**
+   * Apply a lifecycle action (activate, pause, resume, complete)
+   */
+  async transition(id: string, action: CampaignAction): Promise<Campaign> {
+    const { from, to } = TRANSITIONS[action];
+
+    const result = await query(
+      `UPDATE campaigns SET status = $1
+       WHERE id = $2 AND status = ANY($3)
+       RETURNING *`,
+      [to, id, from]
+    );
+
+    if (result.rows.length === 0) {
+      const existing = await this.getCampaignById(id);
+      if (!existing) {
+        throw new Error(`Campaign not found: ${id}`);
+      }
+      throw new Error(`Campaign conflict: cannot ${action} a ${existing.status} campaign`);
+    }
+
+    // Paused/completed campaigns give back pairs leased but not yet called
+    if (to !== 'active') {
+      await query(
+        `UPDATE call_leases SET released_at = NOW(), release_reason = $1
+         WHERE campaign_id = $2 AND released_at IS NULL`,
+        [`campaign_${to}`, id]
+      );
+    }
+
+    return this.mapRowToCampaign(result.rows[0]);
+  }
+
+  /**
+   * Get campaign by ID
+   */
+  async getCampaignById(id: string): Promise<Campaign | null> {
+    const result = await query(
+      'SELECT * FROM campaigns WHERE id = $1',
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToCampaign(result.rows[0]);
+  }
+
+  /**
+   * List campaigns, newest first
+   */
+  async listCampaigns(status?: CampaignStatus): Promise<Campaign[]> {
+    const result = status
+      ? await query('SELECT * FROM campaigns WHERE status = $1 ORDER BY created_at DESC', [status])
+      : await query('SELECT * FROM campaigns ORDER BY created_at DESC');
+
+    return result.rows.map(row => this.mapRowToCampaign(row));
+  }
+
+  /**
+   * Get eligible calls for a campaign
+   * Returns nothing unless the campaign is active and inside its schedule;
+   * the limit is capped by the campaign's remaining pacing capacity
+   */
+  async getEligibleCalls(id: string, limit: number = 100): Promise<EligibleCall[]> {
+    const campaign = await this.getCampaignById(id);
+    if (!campaign) {
+      throw new Error(`Campaign not found: ${id}`);
+    }
+
+    if (!this.isRunning(campaign)) {
+      return [];
+    }
+
+    const capacity = await this.getRemainingCapacity(campaign);
+    const cappedLimit = capacity === null ? limit : Math.min(limit, capacity);
+    if (cappedLimit <= 0) {
+      return [];
+    }
+
+    return this.eligibilityService.getEligibleCalls(cappedLimit, {
+      call_type: campaign.call_type,
+      campaign,
+    });
+  }
+
+  /**
+   * Report on one campaign: call volume, statuses, outcomes, escalations and in-flight leases
+   */
+  async getCampaignReport(id: string): Promise<CampaignReport | null> {
+    const campaign = await this.getCampaignById(id);
+    if (!campaign) {
+      return null;
+    }
+
+    const totalsResult = await query(
+      `SELECT
+         COUNT(*) AS total_calls,
+         COUNT(*) FILTER (WHERE started_at >= NOW() - INTERVAL '1 hour') AS calls_last_hour,
+         COUNT(*) FILTER (WHERE started_at >= date_trunc('day', NOW())) AS calls_today,
+         COUNT(*) FILTER (WHERE escalated = true) AS escalations
+       FROM call_sessions
+       WHERE campaign_id = $1`,
+      [id]
+    );
+    const statusResult = await query(
+      `SELECT call_status, COUNT(*) AS count FROM call_sessions
+       WHERE campaign_id = $1 GROUP BY call_status`,
+      [id]
+    );
+    const outcomeResult = await query(
+      `SELECT COALESCE(outcome, 'none') AS outcome, COUNT(*) AS count FROM call_sessions
+       WHERE campaign_id = $1 GROUP BY COALESCE(outcome, 'none')`,
+      [id]
+    );
+    const leaseResult = await query(
+      `SELECT COUNT(*) AS count FROM call_leases
+       WHERE campaign_id = $1 AND released_at IS NULL AND expires_at > NOW()`,
+      [id]
+    );
+
+    const totals = totalsResult.rows[0];
+    return {
+      campaign,
+      total_calls: parseInt(totals.total_calls),
+      calls_last_hour: parseInt(totals.calls_last_hour),
+      calls_today: parseInt(totals.calls_today),
+      active_leases: parseInt(leaseResult.rows[0].count),
+      escalations: parseInt(totals.escalations),
+      by_status: Object.fromEntries(statusResult.rows.map(row => [row.call_status, parseInt(row.count)])),
+      by_outcome: Object.fromEntries(outcomeResult.rows.map(row => [row.outcome, parseInt(row.count)])),
+    };
+  }
+
+  /**
+   * Active and inside its start/end schedule
+   */
+  isRunning(campaign: Campaign, at: Date = new Date()): boolean {
+    if (campaign.status !== 'active') return false;
+    if (campaign.start_at && new Date(campaign.start_at) > at) return false;
+    if (campaign.end_at && new Date(campaign.end_at) <= at) return false;
+    return true;
+  }
+
+  /**
+   * Calls the campaign may still hand out under its pacing limits, or null if unlimited
+   */
+  private async getRemainingCapacity(campaign: Campaign): Promise<number | null> {
+    const { max_calls_per_hour, max_calls_per_day, max_concurrent_calls } = campaign;
+    if (max_calls_per_hour == null && max_calls_per_day == null && max_concurrent_calls == null) {
+      return null;
+    }
+
+    // Leased pairs with no call session yet are counted as calls about to be placed
+    const result = await query(
+      `SELECT
+         (SELECT COUNT(*) FROM call_sessions
+          WHERE campaign_id = $1 AND started_at >= NOW() - INTERVAL '1 hour') AS calls_last_hour,
+         (SELECT COUNT(*) FROM call_sessions
+          WHERE campaign_id = $1 AND started_at >= date_trunc('day', NOW())) AS calls_today,
+         (SELECT COUNT(*) FROM call_leases l
+          WHERE l.campaign_id = $1 AND l.released_at IS NULL AND l.expires_at > NOW()) AS active_leases,
+         (SELECT COUNT(*) FROM call_leases l
+          WHERE l.campaign_id = $1 AND l.released_at IS NULL AND l.expires_at > NOW()
+            AND NOT EXISTS (
+              SELECT 1 FROM call_sessions cs
+              INNER JOIN crm_projects p ON p.id = cs.project_id
+              WHERE cs.campaign_id = l.campaign_id AND p.project_id = l.project_id AND cs.started_at >= l.leased_at
+            )) AS pending_leases`,
+      [campaign.id]
+    );
+
+    const row = result.rows[0];
+    const pending = parseInt(row.pending_leases);
+    const remaining: number[] = [];
+    if (max_calls_per_hour != null) remaining.push(max_calls_per_hour - parseInt(row.calls_last_hour) - pending);
+    if (max_calls_per_day != null) remaining.push(max_calls_per_day - parseInt(row.calls_today) - pending);
+    if (max_concurrent_calls != null) remaining.push(max_concurrent_calls - parseInt(row.active_leases));
+
+    return Math.max(0, Math.min(...remaining));
+  }
+
+  /**
+   * Map database row to Campaign type
+   */
+  private mapRowToCampaign(row: any): Campaign {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      status: row.status,
+      target_filter: row.target_filter ?? {},
+      script_id: row.script_id,
+      agent_id: row.agent_id,
+      call_type: row.call_type,
+      max_calls_per_hour: row.max_calls_per_hour,
+      max_calls_per_day: row.max_calls_per_day,
+      max_concurrent_calls: row.max_concurrent_calls,
+      start_at: row.start_at,
+      end_at: row.end_at,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
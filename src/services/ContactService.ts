@@ -1,5 +1,75 @@
+import { PoolClient } from 'pg';
 import { query, getClient } from '../db/connection';
-import { Contact } from '../types';
+import { upsertInChunks } from '../db/batch';
+import { BatchItemResult, Contact, ContactMergeResult, CursorPage, DuplicateCandidate, DuplicateMatchSignal } from '../types';
+import { buildKeysetQuery, nextCursor, SortDirection, SortKey } from '../utils/cursor';
+import { normalizePhoneNumber } from '../utils/phone';
+import { nameSimilarity, normalizeCompany, normalizeName, splitEmail } from '../utils/similarity';
+import { CallSessionEventService } from './CallSessionEventService';
+
+export type ContactSort = 'name' | 'companyname' | 'created_at' | 'updated_at' | 'last_ai_contact';
+
+/**
+ * Sort keys for contact listing (nullable columns sort as empty / earliest)
+ */
+const CONTACT_SORT_KEYS: Record<ContactSort, SortKey> = {
+  name: { expression: 'LOWER(c.name)', type: 'text' },
+  companyname: { expression: "LOWER(COALESCE(c.companyname, ''))", type: 'text' },
+  created_at: { expression: "COALESCE(c.created_at, '-infinity'::timestamptz)", type: 'timestamptz' },
+  updated_at: { expression: "COALESCE(c.updated_at, '-infinity'::timestamptz)", type: 'timestamptz' },
+  last_ai_contact: { expression: "COALESCE(c.last_ai_contact, '-infinity'::timestamptz)", type: 'timestamptz' },
+};
+
+/**
+ * Name similarity at which two records with the same phone number are taken to be the
+ * same person (below it, e.g. colleagues sharing a switchboard, the upsert creates a new contact)
+ */
+const SAME_PERSON_NAME_SIMILARITY = 0.8;
+
+/**
+ * Duplicate candidate scoring: weighted signals, capped at 1
+ */
+const DUPLICATE_WEIGHTS = {
+  name: 0.5, // times name similarity
+  email: 0.35,
+  email_local_part: 0.2, // same local part, different domain
+  email_domain: 0.1, // same company domain (not free-mail)
+  phone_mobile: 0.3,
+  phone_shared: 0.1, // same landline / unknown type: may be a switchboard
+  company: 0.15,
+};
+const DEFAULT_DUPLICATE_MIN_SCORE = 0.6;
+
+/** Candidate blocks larger than this (e.g. a switchboard number) are not compared pairwise */
+const MAX_DUPLICATE_BLOCK_SIZE = 100;
+
+export interface DuplicateSearchOptions {
+  min_score?: number;
+  limit?: number;
+}
+
+export interface ContactListFilter {
+  q?: string; // free text, matched against name, email and company
+  companyname?: string;
+  global_role?: string;
+  authority_level?: string;
+  do_not_call?: boolean;
+  has_phone?: boolean;
+  last_ai_contact_from?: Date;
+  last_ai_contact_to?: Date;
+  sort?: ContactSort;
+  order?: SortDirection;
+  cursor?: string;
+  limit?: number;
+}
+
+/** Columns an upsert replaces when the field is given (omitted fields keep their value) */
+const CONTACT_UPDATE_FIELDS: (keyof Contact)[] = [
+  'contact_id', 'name', 'email', 'companyname', 'phonenumber', 'phonenumber_raw',
+  'phone_valid', 'phone_type', 'phone_country', 'global_role',
+  'authority_level', 'preferred_channel', 'do_not_call', 'last_ai_contact',
+  'next_call_eligible_at'
+];
 
 /**
  * ContactService
@@ -7,130 +77,211 @@ import { Contact } from '../types';
  * 
  * Deduplication Strategy:
  * - Primary: Use external contact_id if available (idempotent upsert)
- * - Secondary: Natural key deduplication by phone or email
+ * - Secondary: Natural key deduplication by phone (E.164, same name only) or email
  * - If phone/email matches existing contact, update that contact
  * - This prevents duplicate contacts from multiple data sources
+ * - Fuzzy duplicates are found with findDuplicateCandidates and merged with mergeContacts;
+ *   merged contacts stay as aliases (merged_into_id) of the survivor
  */
 export class ContactService {
+  private eventService: CallSessionEventService;
+  
+  constructor() {
+    this.eventService = new CallSessionEventService();
+  }
+  
   /**
    * Upsert a contact (idempotent with deduplication)
    * 
    * Strategy:
-   * 1. If contact_id provided and exists, update that contact
+   * 1. If contact_id provided and exists, update that contact (the survivor, if it was merged)
    * 2. If contact_id not provided or doesn't exist:
-   *    - Check for existing contact by phone (if phone provided)
+   *    - Check for existing contact by phone (if phone provided and valid, on its E.164 form)
+   *      with a matching name
    *    - Check for existing contact by email (if email provided)
    *    - If match found, update that contact
    *    - If no match, create new contact
    */
-  async upsertContact(contact: Contact): Promise<Contact> {
+  async upsertContact(input: Contact): Promise<Contact> {
     const client = await getClient();
     
     try {
       await client.query('BEGIN');
-      
-      let existingContactId: string | null = null;
-      
-      // Strategy 1: Check by external contact_id if provided
-      if (contact.contact_id) {
-        const result = await client.query(
-          'SELECT id FROM contacts WHERE contact_id = $1',
-          [contact.contact_id]
-        );
-        if (result.rows.length > 0) {
-          existingContactId = result.rows[0].id;
+      const { row } = await this.writeContact(client, input);
+      await client.query('COMMIT');
+      return this.mapRowToContact(row);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+  
+  /**
+   * Upsert many contacts in chunked transactions (see upsertInChunks), deduplicated as in
+   * upsertContact. Returns a result per contact, in order; failed contacts do not abort the batch
+   */
+  async upsertContacts(contacts: Contact[]): Promise<BatchItemResult[]> {
+    return upsertInChunks(contacts, async (client, contact) => {
+      const { row, created } = await this.writeContact(client, contact);
+      return { key: row.contact_id ?? row.id, id: row.id, created };
+    });
+  }
+  
+  /**
+   * Insert or update (deduplicate) a contact on the given client
+   */
+  private async writeContact(client: PoolClient, input: Contact): Promise<{ row: any; created: boolean }> {
+    // Store the phone number in E.164 with the original; phone_country on input only
+    // says which country national numbers are in
+    const { phone_country, ...rest } = input;
+    const contact: Contact = input.phonenumber !== undefined
+      ? { ...rest, ...(await this.normalizeContactPhone(client, input)) }
+      : rest;
+    
+    let existingContactId: string | null = null;
+    
+    // Strategy 1: Check by external contact_id if provided
+    if (contact.contact_id) {
+      const result = await client.query(
+        'SELECT id, merged_into_id FROM contacts WHERE contact_id = $1',
+        [contact.contact_id]
+      );
+      if (result.rows.length > 0) {
+        existingContactId = result.rows[0].merged_into_id ?? result.rows[0].id;
+        if (result.rows[0].merged_into_id) {
+          // Merged alias: update the survivor, which keeps its own contact_id
+          delete contact.contact_id;
         }
       }
-      
-      // Strategy 2: Natural key deduplication (if not found by contact_id)
-      if (!existingContactId) {
-        if (contact.phonenumber) {
-          const phoneResult = await client.query(
-            'SELECT id FROM contacts WHERE phonenumber = $1',
-            [contact.phonenumber]
-          );
-          if (phoneResult.rows.length > 0) {
-            existingContactId = phoneResult.rows[0].id;
-          }
+    }
+    
+    // Strategy 2: Natural key deduplication (if not found by contact_id)
+    if (!existingContactId) {
+      if (contact.phonenumber && contact.phone_valid) {
+        const phoneResult = await client.query(
+          'SELECT id, name FROM contacts WHERE phonenumber = $1 AND merged_into_id IS NULL ORDER BY created_at',
+          [contact.phonenumber]
+        );
+        const samePerson = phoneResult.rows.find(
+          row => nameSimilarity(row.name, contact.name) >= SAME_PERSON_NAME_SIMILARITY
+        );
+        if (samePerson) {
+          existingContactId = samePerson.id;
         }
-        if (!existingContactId && contact.email) {
-          const emailResult = await client.query(
-            'SELECT id FROM contacts WHERE email = $1',
-            [contact.email]
-          );
-          if (emailResult.rows.length > 0) {
-            existingContactId = emailResult.rows[0].id;
-          }
+      }
+      if (!existingContactId && contact.email) {
+        const emailResult = await client.query(
+          'SELECT id FROM contacts WHERE email = $1 AND merged_into_id IS NULL ORDER BY created_at',
+          [contact.email]
+        );
+        if (emailResult.rows.length > 0) {
+          existingContactId = emailResult.rows[0].id;
         }
       }
+    }
+    
+    const fieldsToUpdate = CONTACT_UPDATE_FIELDS.filter(field => contact[field] !== undefined);
+    
+    if (existingContactId) {
+      // Update existing contact
+      const updateFields: string[] = [];
+      const values: any[] = [];
+      let paramIndex = 1;
       
-      if (existingContactId) {
-        // Update existing contact
-        const updateFields: string[] = [];
-        const values: any[] = [];
-        let paramIndex = 1;
-        
-        const fieldsToUpdate: (keyof Contact)[] = [
-          'contact_id', 'name', 'email', 'companyname', 'phonenumber', 'global_role',
-          'authority_level', 'preferred_channel', 'do_not_call', 'last_ai_contact'
-        ];
-        
-        for (const field of fieldsToUpdate) {
-          if (contact[field] !== undefined) {
-            updateFields.push(`${field} = $${paramIndex}`);
-            values.push(contact[field]);
-            paramIndex++;
-          }
+      for (const field of fieldsToUpdate) {
+        if (contact[field] !== undefined) {
+          updateFields.push(`${field} = $${paramIndex}`);
+          values.push(contact[field]);
+          paramIndex++;
         }
-        
-        values.push(existingContactId);
-        
-        const updateQuery = `
-          UPDATE contacts
-          SET ${updateFields.join(', ')}
-          WHERE id = $${paramIndex}
-          RETURNING *
-        `;
-        
-        const result = await client.query(updateQuery, values);
-        await client.query('COMMIT');
-        return this.mapRowToContact(result.rows[0]);
-      } else {
-        // Insert new contact
-        const insertQuery = `
-          INSERT INTO contacts (
-            contact_id, name, email, companyname, phonenumber, global_role,
-            authority_level, preferred_channel, do_not_call, last_ai_contact
-          ) VALUES (
-            $1, $2, $3, $4, $5, $6, $7, $8, $9, $10
-          )
-          RETURNING *
-        `;
-        
-        const result = await client.query(insertQuery, [
-          contact.contact_id || null,
-          contact.name,
-          contact.email || null,
-          contact.companyname || null,
-          contact.phonenumber || null,
-          contact.global_role || null,
-          contact.authority_level || null,
-          contact.preferred_channel || null,
-          contact.do_not_call || false,
-          contact.last_ai_contact || null,
-        ]);
-        
-        await client.query('COMMIT');
-        return this.mapRowToContact(result.rows[0]);
       }
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
+      
+      values.push(existingContactId);
+      
+      const updateQuery = `
+        UPDATE contacts
+        SET ${updateFields.join(', ')}
+        WHERE id = $${paramIndex}
+        RETURNING *
+      `;
+      
+      const result = await client.query(updateQuery, values);
+      return { row: result.rows[0], created: false };
+    } else {
+      // Insert new contact (a contact_id inserted concurrently is updated instead;
+      // xmax is 0 on a freshly inserted row version)
+      const insertQuery = `
+        INSERT INTO contacts (
+          contact_id, name, email, companyname, phonenumber, phonenumber_raw,
+          phone_valid, phone_type, phone_country, global_role,
+          authority_level, preferred_channel, do_not_call, last_ai_contact,
+          next_call_eligible_at
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15
+        )
+        ON CONFLICT (contact_id) WHERE contact_id IS NOT NULL
+        DO UPDATE SET ${fieldsToUpdate.map(field => `${field} = EXCLUDED.${field}`).join(', ')}
+        RETURNING *, (xmax = 0) AS inserted
+      `;
+      
+      const result = await client.query(insertQuery, [
+        contact.contact_id || null,
+        contact.name,
+        contact.email || null,
+        contact.companyname || null,
+        contact.phonenumber || null,
+        contact.phonenumber_raw || null,
+        contact.phone_valid ?? null,
+        contact.phone_type || null,
+        contact.phone_country || null,
+        contact.global_role || null,
+        contact.authority_level || null,
+        contact.preferred_channel || null,
+        contact.do_not_call || false,
+        contact.last_ai_contact || null,
+        contact.next_call_eligible_at || null,
+      ]);
+      
+      return { row: result.rows[0], created: result.rows[0].inserted };
     }
   }
   
+  /**
+   * Normalized phone fields for an upsert (all null when the number is cleared)
+   * National numbers are read in input.phone_country, else the country of the contact's
+   * projects, else the default phone country.
+   */
+  private async normalizeContactPhone(client: PoolClient, input: Contact): Promise<Partial<Contact>> {
+    const raw = input.phonenumber?.trim();
+    if (!raw) {
+      return { phonenumber: null, phonenumber_raw: null, phone_valid: null, phone_type: null, phone_country: null };
+    }
+    
+    let country = input.phone_country ?? null;
+    if (!country && input.contact_id) {
+      const projectResult = await client.query(
+        `SELECT p.country FROM project_contacts pc
+         INNER JOIN crm_projects p ON p.project_id = pc.project_id
+         WHERE pc.contact_id = $1 AND p.country IS NOT NULL
+         ORDER BY pc.created_at
+         LIMIT 1`,
+        [input.contact_id]
+      );
+      country = projectResult.rows[0]?.country ?? null;
+    }
+    
+    const phone = normalizePhoneNumber(input.phonenumber!, country);
+    return {
+      phonenumber: phone.e164 ?? raw,
+      phonenumber_raw: input.phonenumber,
+      phone_valid: phone.valid,
+      phone_type: phone.type,
+      phone_country: phone.country,
+    };
+  }
+  
   /**
    * Get contact by external contact_id
    */
@@ -168,7 +319,7 @@ export class ContactService {
    */
   async getContactByPhone(phonenumber: string): Promise<Contact | null> {
     const result = await query(
-      'SELECT * FROM contacts WHERE phonenumber = $1',
+      'SELECT * FROM contacts WHERE phonenumber = $1 AND merged_into_id IS NULL ORDER BY created_at LIMIT 1',
       [phonenumber]
     );
     
@@ -184,7 +335,7 @@ export class ContactService {
    */
   async getContactByEmail(email: string): Promise<Contact | null> {
     const result = await query(
-      'SELECT * FROM contacts WHERE email = $1',
+      'SELECT * FROM contacts WHERE LOWER(email) = LOWER($1) AND merged_into_id IS NULL ORDER BY created_at LIMIT 1',
       [email]
     );
     
@@ -195,6 +346,398 @@ export class ContactService {
     return this.mapRowToContact(result.rows[0]);
   }
   
+  /**
+   * List contacts with filters, free-text search, sorting and cursor pagination
+   * Text filters are case-insensitive; an invalid cursor throws 'Invalid cursor'
+   */
+  async listContacts(filter: ContactListFilter = {}): Promise<CursorPage<Contact>> {
+    const limit = filter.limit ?? 50;
+    const conditions: string[] = [];
+    const values: any[] = [];
+    const param = (value: any) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+    
+    // Merged duplicates are only reachable by ID
+    conditions.push('c.merged_into_id IS NULL');
+    
+    if (filter.q) {
+      const pattern = param(`%${filter.q.replace(/[\\%_]/g, match => `\\${match}`)}%`);
+      conditions.push(`(c.name ILIKE ${pattern} OR c.email ILIKE ${pattern} OR c.companyname ILIKE ${pattern})`);
+    }
+    if (filter.companyname) conditions.push(`LOWER(c.companyname) = LOWER(${param(filter.companyname)})`);
+    if (filter.global_role) conditions.push(`LOWER(c.global_role) = LOWER(${param(filter.global_role)})`);
+    if (filter.authority_level) conditions.push(`LOWER(c.authority_level) = LOWER(${param(filter.authority_level)})`);
+    if (filter.do_not_call !== undefined) conditions.push(`COALESCE(c.do_not_call, false) = ${param(filter.do_not_call)}`);
+    if (filter.has_phone !== undefined) {
+      conditions.push(`${filter.has_phone ? '' : 'NOT '}COALESCE(TRIM(c.phonenumber) <> '', false)`);
+    }
+    if (filter.last_ai_contact_from) conditions.push(`c.last_ai_contact >= ${param(filter.last_ai_contact_from)}`);
+    if (filter.last_ai_contact_to) conditions.push(`c.last_ai_contact < ${param(filter.last_ai_contact_to)}`);
+    
+    const keyset = buildKeysetQuery(
+      CONTACT_SORT_KEYS[filter.sort ?? 'name'],
+      'c.id',
+      filter.order ?? 'asc',
+      filter.cursor,
+      param
+    );
+    if (keyset.condition) conditions.push(keyset.condition);
+    
+    const result = await query(
+      `SELECT c.*, ${keyset.select}
+       FROM contacts c
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY ${keyset.orderBy}
+       LIMIT ${param(limit + 1)}`,
+      values
+    );
+    
+    return {
+      items: result.rows.slice(0, limit).map(row => this.mapRowToContact(row)),
+      next_cursor: nextCursor(result.rows, limit),
+    };
+  }
+  
+  /**
+   * Find likely duplicate contacts for review, best matches first
+   * 
+   * Pairs are scored on name similarity, email (exact, same local part or same company
+   * domain), phone (a shared landline counts less than a shared mobile) and company.
+   * Only contacts sharing a phone, email, name or company + name token are compared.
+   * In each candidate, contact is the older record (suggested survivor).
+   */
+  async findDuplicateCandidates(options: DuplicateSearchOptions = {}): Promise<DuplicateCandidate[]> {
+    const minScore = options.min_score ?? DEFAULT_DUPLICATE_MIN_SCORE;
+    const limit = options.limit ?? 100;
+    
+    const result = await query(
+      'SELECT * FROM contacts WHERE merged_into_id IS NULL ORDER BY created_at, id'
+    );
+    const contacts = result.rows.map(row => this.mapRowToContact(row));
+    
+    // Block contacts on shared keys; only contacts in the same block are compared
+    const blocks = new Map<string, number[]>();
+    const addToBlock = (key: string, index: number) => {
+      const block = blocks.get(key);
+      if (block) block.push(index);
+      else blocks.set(key, [index]);
+    };
+    contacts.forEach((contact, index) => {
+      const name = normalizeName(contact.name);
+      const company = normalizeCompany(contact.companyname);
+      const email = splitEmail(contact.email);
+      if (contact.phonenumber) addToBlock(`phone:${contact.phonenumber}`, index);
+      if (email) {
+        addToBlock(`email:${email.local}@${email.domain}`, index);
+        if (email.local.length >= 3) addToBlock(`local:${email.local}`, index);
+      }
+      if (name) addToBlock(`name:${name}`, index);
+      for (const token of name.split(' ').filter(token => token.length >= 2)) {
+        if (company) addToBlock(`company:${company}|${token}`, index);
+        if (email && !email.freeMail) addToBlock(`domain:${email.domain}|${token}`, index);
+      }
+    });
+    
+    const compared = new Set<string>();
+    const candidates: DuplicateCandidate[] = [];
+    for (const block of blocks.values()) {
+      if (block.length < 2 || block.length > MAX_DUPLICATE_BLOCK_SIZE) continue;
+      for (let i = 0; i < block.length; i++) {
+        for (let j = i + 1; j < block.length; j++) {
+          const pairKey = `${block[i]}:${block[j]}`;
+          if (compared.has(pairKey)) continue;
+          compared.add(pairKey);
+          
+          const candidate = this.scoreDuplicate(contacts[block[i]], contacts[block[j]]);
+          if (candidate.score >= minScore) {
+            candidates.push(candidate);
+          }
+        }
+      }
+    }
+    
+    return candidates
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+  
+  /**
+   * Merge duplicate contacts into a survivor
+   * 
+   * In one transaction:
+   * - project_contacts, call_sessions and terminal_sessions move to the survivor (a
+   *   project both were linked to keeps one association, combining both: suppression and
+   *   confirmed role from either, latest contact/follow-up times); each moved call
+   *   session gets a call_session_events entry, so as-of reconstruction stays correct
+   * - a duplicate's active dialer lease moves to the survivor, or is released if the
+   *   survivor holds one already (one active lease per contact)
+   * - the survivor's empty fields are filled from the duplicates; do_not_call from either
+   * - each duplicate is kept as an alias (merged_into_id, merged_at); if the survivor has
+   *   no external contact_id it takes over the first duplicate's
+   * 
+   * Contacts may be referenced by internal UUID or external contact_id.
+   */
+  async mergeContacts(survivorRef: string, duplicateRefs: string[]): Promise<ContactMergeResult> {
+    const client = await getClient();
+    
+    try {
+      await client.query('BEGIN');
+      
+      const survivor = await this.lockContactForMerge(client, survivorRef);
+      const duplicates: any[] = [];
+      for (const ref of duplicateRefs) {
+        const duplicate = await this.lockContactForMerge(client, ref);
+        if (duplicate.id === survivor.id || duplicates.some(d => d.id === duplicate.id)) {
+          throw new Error(`Contact merge conflict: ${ref} is listed more than once`);
+        }
+        duplicates.push(duplicate);
+      }
+      
+      let survivorExternalId: string | null = survivor.contact_id;
+      const moved = { project_contacts_moved: 0, call_sessions_moved: 0, terminal_sessions_moved: 0 };
+      
+      for (const duplicate of duplicates) {
+        // Associations are keyed by external contact_id
+        if (duplicate.contact_id && !survivorExternalId) {
+          // Survivor takes over the duplicate's external ID (and with it, its associations)
+          await client.query('UPDATE contacts SET contact_id = NULL WHERE id = $1', [duplicate.id]);
+          await client.query('UPDATE contacts SET contact_id = $1 WHERE id = $2', [duplicate.contact_id, survivor.id]);
+          survivorExternalId = duplicate.contact_id;
+          const countResult = await client.query(
+            'SELECT COUNT(*) AS count FROM project_contacts WHERE contact_id = $1',
+            [survivorExternalId]
+          );
+          moved.project_contacts_moved += parseInt(countResult.rows[0].count);
+        } else if (duplicate.contact_id) {
+          moved.project_contacts_moved += await this.moveProjectContacts(client, duplicate.contact_id, survivorExternalId!);
+          await this.moveActiveLease(client, duplicate.contact_id, survivorExternalId!);
+        }
+        
+        moved.call_sessions_moved += await this.moveCallSessions(client, duplicate.id, survivor.id);
+        
+        const terminalResult = await client.query(
+          'UPDATE terminal_sessions SET contact_id = $1 WHERE contact_id = $2',
+          [survivor.id, duplicate.id]
+        );
+        moved.terminal_sessions_moved += terminalResult.rowCount ?? 0;
+        
+        // Fill the survivor's gaps; the phone fields move together
+        await client.query(
+          `UPDATE contacts s
+           SET
+             email = COALESCE(s.email, d.email),
+             companyname = COALESCE(s.companyname, d.companyname),
+             phonenumber = CASE WHEN s.phonenumber IS NULL THEN d.phonenumber ELSE s.phonenumber END,
+             phonenumber_raw = CASE WHEN s.phonenumber IS NULL THEN d.phonenumber_raw ELSE s.phonenumber_raw END,
+             phone_valid = CASE WHEN s.phonenumber IS NULL THEN d.phone_valid ELSE s.phone_valid END,
+             phone_type = CASE WHEN s.phonenumber IS NULL THEN d.phone_type ELSE s.phone_type END,
+             phone_country = CASE WHEN s.phonenumber IS NULL THEN d.phone_country ELSE s.phone_country END,
+             global_role = COALESCE(s.global_role, d.global_role),
+             authority_level = COALESCE(s.authority_level, d.authority_level),
+             preferred_channel = COALESCE(s.preferred_channel, d.preferred_channel),
+             do_not_call = COALESCE(s.do_not_call, false) OR COALESCE(d.do_not_call, false),
+             last_ai_contact = GREATEST(s.last_ai_contact, d.last_ai_contact),
+             last_contacted_at = GREATEST(s.last_contacted_at, d.last_contacted_at),
+             next_call_eligible_at = GREATEST(s.next_call_eligible_at, d.next_call_eligible_at)
+           FROM contacts d
+           WHERE s.id = $1 AND d.id = $2`,
+          [survivor.id, duplicate.id]
+        );
+        
+        // Keep the duplicate as an alias (aliases of the duplicate follow it)
+        await client.query(
+          'UPDATE contacts SET merged_into_id = $1, merged_at = NOW() WHERE id = $2',
+          [survivor.id, duplicate.id]
+        );
+        await client.query(
+          'UPDATE contacts SET merged_into_id = $1 WHERE merged_into_id = $2',
+          [survivor.id, duplicate.id]
+        );
+      }
+      
+      const survivorResult = await client.query('SELECT * FROM contacts WHERE id = $1', [survivor.id]);
+      await client.query('COMMIT');
+      
+      return {
+        survivor: this.mapRowToContact(survivorResult.rows[0]),
+        merged_ids: duplicates.map(duplicate => duplicate.id),
+        ...moved,
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+  
+  /**
+   * Give a contact without one an external contact_id (needed for project associations)
+   * Returns the contact unchanged if it already has one
+   */
+  async assignContactId(id: string, contactId: string): Promise<Contact | null> {
+    await query(
+      'UPDATE contacts SET contact_id = $2 WHERE id = $1 AND contact_id IS NULL',
+      [id, contactId]
+    );
+    return this.getContactById(id);
+  }
+  
+  /**
+   * Update last contacted timestamp (starts the contact cooldown)
+   */
+  async updateLastContactedAt(id: string, contactedAt: Date): Promise<void> {
+    await query(
+      'UPDATE contacts SET last_contacted_at = $1 WHERE id = $2',
+      [contactedAt, id]
+    );
+  }
+  
+  /**
+   * Score a pair of contacts as duplicates (older record first)
+   */
+  private scoreDuplicate(contact: Contact, duplicate: Contact): DuplicateCandidate {
+    const matchedOn: DuplicateMatchSignal[] = [];
+    const similarity = nameSimilarity(contact.name, duplicate.name);
+    let score = DUPLICATE_WEIGHTS.name * similarity;
+    if (similarity >= SAME_PERSON_NAME_SIMILARITY) matchedOn.push('name');
+    
+    const email = splitEmail(contact.email);
+    const duplicateEmail = splitEmail(duplicate.email);
+    if (email && duplicateEmail) {
+      if (email.local === duplicateEmail.local && email.domain === duplicateEmail.domain) {
+        score += DUPLICATE_WEIGHTS.email;
+        matchedOn.push('email');
+      } else if (email.local === duplicateEmail.local) {
+        score += DUPLICATE_WEIGHTS.email_local_part;
+        matchedOn.push('email_local_part');
+      } else if (email.domain === duplicateEmail.domain && !email.freeMail) {
+        score += DUPLICATE_WEIGHTS.email_domain;
+        matchedOn.push('email_domain');
+      }
+    }
+    
+    if (contact.phonenumber && contact.phonenumber === duplicate.phonenumber) {
+      score += contact.phone_type === 'mobile' ? DUPLICATE_WEIGHTS.phone_mobile : DUPLICATE_WEIGHTS.phone_shared;
+      matchedOn.push('phone');
+    }
+    
+    const company = normalizeCompany(contact.companyname);
+    if (company && company === normalizeCompany(duplicate.companyname)) {
+      score += DUPLICATE_WEIGHTS.company;
+      matchedOn.push('company');
+    }
+    
+    return {
+      contact,
+      duplicate,
+      score: Math.round(Math.min(score, 1) * 10000) / 10000,
+      name_similarity: Math.round(similarity * 10000) / 10000,
+      matched_on: matchedOn,
+    };
+  }
+  
+  /**
+   * Move a merged contact's call sessions to the survivor, logging each change
+   * Returns the number of sessions moved
+   */
+  private async moveCallSessions(client: PoolClient, fromId: string, toId: string): Promise<number> {
+    const before = await client.query(
+      'SELECT * FROM call_sessions WHERE contact_id = $1 ORDER BY started_at FOR UPDATE',
+      [fromId]
+    );
+    
+    for (const row of before.rows) {
+      const after = await client.query(
+        'UPDATE call_sessions SET contact_id = $1 WHERE id = $2 RETURNING *',
+        [toId, row.id]
+      );
+      await this.eventService.recordChange(client, row.id, row, after.rows[0], { source: 'contact_merge' });
+    }
+    
+    return before.rows.length;
+  }
+  
+  /**
+   * Hand a merged contact's active lease to the survivor (external contact_ids)
+   * Released instead when the survivor is leased already (one active lease per contact)
+   */
+  private async moveActiveLease(client: PoolClient, fromContactId: string, toContactId: string): Promise<void> {
+    await client.query(
+      `UPDATE call_leases SET contact_id = $2
+       WHERE contact_id = $1 AND released_at IS NULL
+         AND NOT EXISTS (SELECT 1 FROM call_leases WHERE contact_id = $2 AND released_at IS NULL)`,
+      [fromContactId, toContactId]
+    );
+    await client.query(
+      `UPDATE call_leases SET released_at = NOW(), release_reason = 'contact_merged'
+       WHERE contact_id = $1 AND released_at IS NULL`,
+      [fromContactId]
+    );
+  }
+  
+  /**
+   * Lock a contact for merging (by internal UUID or external contact_id)
+   */
+  private async lockContactForMerge(client: PoolClient, ref: string): Promise<any> {
+    const result = await client.query(
+      `SELECT * FROM contacts
+       WHERE id::text = $1 OR contact_id = $1
+       ORDER BY (id::text = $1) DESC
+       LIMIT 1
+       FOR UPDATE`,
+      [ref]
+    );
+    if (result.rows.length === 0) {
+      throw new Error(`Contact not found: ${ref}`);
+    }
+    if (result.rows[0].merged_into_id) {
+      throw new Error(`Contact merge conflict: ${ref} is already merged into ${result.rows[0].merged_into_id}`);
+    }
+    return result.rows[0];
+  }
+  
+  /**
+   * Move a duplicate's project associations to the survivor (external contact_ids);
+   * returns the number of associations moved or combined
+   */
+  private async moveProjectContacts(client: PoolClient, fromContactId: string, toContactId: string): Promise<number> {
+    // Projects both are linked to: combine into the survivor's association
+    const combined = await client.query(
+      `UPDATE project_contacts s
+       SET
+         role_for_project = COALESCE(s.role_for_project, d.role_for_project),
+         role_confidence = GREATEST(s.role_confidence, d.role_confidence),
+         role_confirmed = COALESCE(s.role_confirmed, false) OR COALESCE(d.role_confirmed, false),
+         est_start_date = COALESCE(s.est_start_date, d.est_start_date),
+         est_end_date = COALESCE(s.est_end_date, d.est_end_date),
+         preferred_channel_project = COALESCE(s.preferred_channel_project, d.preferred_channel_project),
+         last_contacted_at = GREATEST(s.last_contacted_at, d.last_contacted_at),
+         suppress_for_project = COALESCE(s.suppress_for_project, false) OR COALESCE(d.suppress_for_project, false),
+         next_call_eligible_at = GREATEST(s.next_call_eligible_at, d.next_call_eligible_at),
+         callback_at = COALESCE(s.callback_at, d.callback_at),
+         follow_up_reason = COALESCE(s.follow_up_reason, d.follow_up_reason)
+       FROM project_contacts d
+       WHERE s.contact_id = $2 AND d.contact_id = $1 AND s.project_id = d.project_id`,
+      [fromContactId, toContactId]
+    );
+    await client.query(
+      `DELETE FROM project_contacts d
+       WHERE d.contact_id = $1
+         AND EXISTS (SELECT 1 FROM project_contacts s WHERE s.contact_id = $2 AND s.project_id = d.project_id)`,
+      [fromContactId, toContactId]
+    );
+    
+    const moved = await client.query(
+      'UPDATE project_contacts SET contact_id = $2 WHERE contact_id = $1',
+      [fromContactId, toContactId]
+    );
+    
+    return (combined.rowCount ?? 0) + (moved.rowCount ?? 0);
+  }
+  
   /**
    * Map database row to Contact type
    */
@@ -206,11 +749,19 @@ export class ContactService {
       email: row.email,
       companyname: row.companyname,
       phonenumber: row.phonenumber,
+      phonenumber_raw: row.phonenumber_raw,
+      phone_valid: row.phone_valid,
+      phone_type: row.phone_type,
+      phone_country: row.phone_country,
       global_role: row.global_role,
       authority_level: row.authority_level,
       preferred_channel: row.preferred_channel,
       do_not_call: row.do_not_call,
       last_ai_contact: row.last_ai_contact,
+      last_contacted_at: row.last_contacted_at,
+      next_call_eligible_at: row.next_call_eligible_at,
+      merged_into_id: row.merged_into_id,
+      merged_at: row.merged_at,
       created_at: row.created_at,
       updated_at: row.updated_at,
     };
@@ -0,0 +1,241 @@
+import { query, getClient } from '../db/connection';
+import { EligibilityPolicy, EligibilityPolicyScope, EffectiveEligibilityPolicy } from '../types';
+
+/**
+ * Built-in pacing used when no global policy row exists
+ */
+const FALLBACK_POLICY = {
+  min_call_cooldown_hours: 24, // Minimum hours between calls on a project
+  project_contact_cooldown_hours: 24, // Minimum hours between calls to a contact about a project
+  contact_cooldown_hours: 4, // Minimum hours between calls to a contact on any project
+  max_calls_per_day: 3, // Max calls per day per project/contact
+  max_calls_per_week: 10, // Max calls per week per project/contact
+};
+
+/**
+ * Override precedence, least to most specific
+ */
+const SCOPE_PRECEDENCE: EligibilityPolicyScope[] = ['global', 'category', 'authority_level', 'call_type'];
+
+/** How long active policies are cached in-process */
+const CACHE_TTL_MS = 30 * 1000;
+
+export interface PolicyContext {
+  category?: string | null;
+  authority_level?: string | null;
+  call_type?: string | null;
+}
+
+/**
+ * EligibilityPolicyService
+ * Stored, versioned call pacing policy read by CallEligibilityService and FollowUpService
+ *
+ * Versioning Strategy:
+ * - A policy is identified by (scope, scope_value); scope values are case-insensitive
+ * - Every change inserts a new version and deactivates the previous one
+ * - History is never deleted; removing an override only deactivates it
+ *
+ * Resolution:
+ * - Start from the global policy (or built-in fallback)
+ * - Apply category, then authority_level, then call_type overrides
+ * - NULL fields in an override inherit from the less specific policy
+ */
+export class EligibilityPolicyService {
+  private static cache: { policies: EligibilityPolicy[]; loadedAt: number } | null = null;
+
+  /**
+   * Create a new version of a policy (the previous version is deactivated)
+   */
+  async savePolicy(policy: EligibilityPolicy): Promise<EligibilityPolicy> {
+    const client = await getClient();
+    const scopeValue = policy.scope === 'global' ? null : policy.scope_value ?? null;
+
+    try {
+      await client.query('BEGIN');
+
+      // Serialize concurrent writers for the same policy key
+      await client.query(
+        'SELECT pg_advisory_xact_lock(hashtext($1))',
+        [`eligibility_policy:${policy.scope}:${(scopeValue ?? '').toLowerCase()}`]
+      );
+
+      const versionResult = await client.query(
+        `SELECT COALESCE(MAX(version), 0) AS version FROM eligibility_policies
+         WHERE scope = $1 AND LOWER(scope_value) IS NOT DISTINCT FROM LOWER($2)`,
+        [policy.scope, scopeValue]
+      );
+      const nextVersion = parseInt(versionResult.rows[0].version) + 1;
+
+      await client.query(
+        `UPDATE eligibility_policies SET is_active = false
+         WHERE scope = $1 AND LOWER(scope_value) IS NOT DISTINCT FROM LOWER($2) AND is_active = true`,
+        [policy.scope, scopeValue]
+      );
+
+      const result = await client.query(
+        `INSERT INTO eligibility_policies (
+          scope, scope_value, version, min_call_cooldown_hours,
+          project_contact_cooldown_hours, contact_cooldown_hours,
+          max_calls_per_day, max_calls_per_week, is_active, notes, created_by
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6, $7, $8, true, $9, $10
+        )
+        RETURNING *`,
+        [
+          policy.scope,
+          scopeValue,
+          nextVersion,
+          policy.min_call_cooldown_hours ?? null,
+          policy.project_contact_cooldown_hours ?? null,
+          policy.contact_cooldown_hours ?? null,
+          policy.max_calls_per_day ?? null,
+          policy.max_calls_per_week ?? null,
+          policy.notes || null,
+          policy.created_by || 'system',
+        ]
+      );
+
+      await client.query('COMMIT');
+      EligibilityPolicyService.cache = null;
+      return this.mapRowToPolicy(result.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Deactivate an override policy (the global policy cannot be deactivated)
+   */
+  async deactivatePolicy(id: string): Promise<boolean> {
+    const policy = await this.getPolicyById(id);
+    if (!policy) {
+      return false;
+    }
+
+    if (policy.scope === 'global') {
+      throw new Error('Global policy cannot be deactivated');
+    }
+
+    await query(
+      'UPDATE eligibility_policies SET is_active = false WHERE id = $1',
+      [id]
+    );
+    EligibilityPolicyService.cache = null;
+
+    return true;
+  }
+
+  /**
+   * Get policy version by ID
+   */
+  async getPolicyById(id: string): Promise<EligibilityPolicy | null> {
+    const result = await query(
+      'SELECT * FROM eligibility_policies WHERE id = $1',
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToPolicy(result.rows[0]);
+  }
+
+  /**
+   * Get all active policies (cached briefly in-process)
+   */
+  async getActivePolicies(): Promise<EligibilityPolicy[]> {
+    const cached = EligibilityPolicyService.cache;
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached.policies;
+    }
+
+    const result = await query(
+      `SELECT * FROM eligibility_policies
+       WHERE is_active = true
+       ORDER BY scope, scope_value NULLS FIRST`
+    );
+    const policies = result.rows.map(row => this.mapRowToPolicy(row));
+
+    EligibilityPolicyService.cache = { policies, loadedAt: Date.now() };
+    return policies;
+  }
+
+  /**
+   * Get all versions of a policy, newest first
+   */
+  async getPolicyHistory(scope: EligibilityPolicyScope, scopeValue?: string | null): Promise<EligibilityPolicy[]> {
+    const result = await query(
+      `SELECT * FROM eligibility_policies
+       WHERE scope = $1 AND LOWER(scope_value) IS NOT DISTINCT FROM LOWER($2)
+       ORDER BY version DESC`,
+      [scope, scope === 'global' ? null : scopeValue ?? null]
+    );
+
+    return result.rows.map(row => this.mapRowToPolicy(row));
+  }
+
+  /**
+   * Resolve the effective policy for a call context
+   */
+  async getEffectivePolicy(context: PolicyContext): Promise<EffectiveEligibilityPolicy> {
+    const policies = await this.getActivePolicies();
+    return this.resolvePolicy(policies, context);
+  }
+
+  /**
+   * Resolve the effective policy from a preloaded set of active policies
+   * (lets batch callers load policies once)
+   */
+  resolvePolicy(policies: EligibilityPolicy[], context: PolicyContext): EffectiveEligibilityPolicy {
+    const effective: EffectiveEligibilityPolicy = { ...FALLBACK_POLICY, sources: [] };
+
+    for (const scope of SCOPE_PRECEDENCE) {
+      const value = scope === 'global' ? null : context[scope];
+      if (scope !== 'global' && !value) continue;
+
+      const policy = policies.find(p =>
+        p.scope === scope &&
+        (scope === 'global' || (p.scope_value ?? '').toLowerCase() === String(value).toLowerCase())
+      );
+      if (!policy) continue;
+
+      if (policy.min_call_cooldown_hours != null) effective.min_call_cooldown_hours = policy.min_call_cooldown_hours;
+      if (policy.project_contact_cooldown_hours != null) {
+        effective.project_contact_cooldown_hours = policy.project_contact_cooldown_hours;
+      }
+      if (policy.contact_cooldown_hours != null) effective.contact_cooldown_hours = policy.contact_cooldown_hours;
+      if (policy.max_calls_per_day != null) effective.max_calls_per_day = policy.max_calls_per_day;
+      if (policy.max_calls_per_week != null) effective.max_calls_per_week = policy.max_calls_per_week;
+      effective.sources.push({ scope: policy.scope, scope_value: policy.scope_value, version: policy.version! });
+    }
+
+    return effective;
+  }
+
+  /**
+   * Map database row to EligibilityPolicy type
+   */
+  private mapRowToPolicy(row: any): EligibilityPolicy {
+    return {
+      id: row.id,
+      scope: row.scope,
+      scope_value: row.scope_value,
+      version: row.version,
+      min_call_cooldown_hours: row.min_call_cooldown_hours != null ? parseFloat(row.min_call_cooldown_hours) : null,
+      project_contact_cooldown_hours: row.project_contact_cooldown_hours != null
+        ? parseFloat(row.project_contact_cooldown_hours)
+        : null,
+      contact_cooldown_hours: row.contact_cooldown_hours != null ? parseFloat(row.contact_cooldown_hours) : null,
+      max_calls_per_day: row.max_calls_per_day,
+      max_calls_per_week: row.max_calls_per_week,
+      is_active: row.is_active,
+      notes: row.notes,
+      created_by: row.created_by,
+      created_at: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,266 @@
+import dotenv from 'dotenv';
+import { query } from '../db/connection';
+import { CallSessionEventContext, Escalation, EscalationResolution, EscalationStatus } from '../types';
+import { CallSessionService } from './CallSessionService';
+
+dotenv.config();
+
+/**
+ * SLA timers, in minutes from when the call was escalated
+ * - ESCALATION_CLAIM_SLA_MINUTES (default 30): a rep has claimed it
+ * - ESCALATION_RESOLVE_SLA_MINUTES (default 240): it is resolved
+ */
+function loadSlaMinutes(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return isNaN(value) || value <= 0 ? fallback : value;
+}
+
+export interface EscalationFilter {
+  status?: EscalationStatus[]; // default: open and claimed
+  assigned_to?: string;
+  breached?: boolean; // only escalations past a claim or resolve SLA
+  limit?: number;
+}
+
+/**
+ * Escalation with the escalated call's project/contact context
+ */
+const ESCALATION_SELECT = `
+  SELECT
+    e.*,
+    p.project_id AS external_project_id,
+    p.name AS project_name,
+    cs.contact_id,
+    c.name AS contact_name,
+    c.phonenumber,
+    cs.call_type,
+    cs.outcome,
+    cs.campaign_id,
+    cs.started_at AS call_started_at
+  FROM escalations e
+  INNER JOIN call_sessions cs ON cs.id = e.call_session_id
+  INNER JOIN crm_projects p ON p.id = cs.project_id
+  LEFT JOIN contacts c ON c.id = cs.contact_id
+`;
+
+/**
+ * EscalationService
+ * Human escalation queue for escalated calls
+ *
+ * - CallSessionService queues a session when it becomes escalated (once per session)
+ * - Lifecycle: open -> claimed (assigned to a rep) -> resolved; a claim can be
+ *   released back to open or reassigned; resolved escalations are final
+ * - SLA due times are derived from when the call was escalated, so SLA changes
+ *   apply to escalations already in the queue
+ * - Resolving can queue a human follow-up call linked to the original call
+ *   (parent_call_session_id); retries return the same follow-up session
+ */
+export class EscalationService {
+  private callSessionService: CallSessionService;
+  private claimSlaMinutes: number;
+  private resolveSlaMinutes: number;
+
+  constructor() {
+    this.callSessionService = new CallSessionService();
+    this.claimSlaMinutes = loadSlaMinutes('ESCALATION_CLAIM_SLA_MINUTES', 30);
+    this.resolveSlaMinutes = loadSlaMinutes('ESCALATION_RESOLVE_SLA_MINUTES', 240);
+  }
+
+  /**
+   * List escalations, oldest first (the queue order)
+   */
+  async listEscalations(filter: EscalationFilter = {}): Promise<Escalation[]> {
+    const conditions: string[] = ['e.status = ANY($1)'];
+    const values: any[] = [filter.status?.length ? filter.status : ['open', 'claimed']];
+
+    if (filter.assigned_to) {
+      values.push(filter.assigned_to);
+      conditions.push(`e.assigned_to = $${values.length}`);
+    }
+    if (filter.breached) {
+      values.push(this.claimSlaMinutes, this.resolveSlaMinutes);
+      const claimDue = `e.created_at + make_interval(mins => $${values.length - 1})`;
+      const resolveDue = `e.created_at + make_interval(mins => $${values.length})`;
+      conditions.push(
+        `(COALESCE(e.claimed_at, e.resolved_at, NOW()) > ${claimDue} OR COALESCE(e.resolved_at, NOW()) > ${resolveDue})`
+      );
+    }
+
+    values.push(filter.limit ?? 100);
+    const result = await query(
+      `${ESCALATION_SELECT}
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY e.created_at ASC
+       LIMIT $${values.length}`,
+      values
+    );
+
+    return result.rows.map(row => this.mapRowToEscalation(row));
+  }
+
+  /**
+   * Get escalation by ID
+   */
+  async getEscalationById(id: string): Promise<Escalation | null> {
+    const result = await query(`${ESCALATION_SELECT} WHERE e.id = $1`, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToEscalation(result.rows[0]);
+  }
+
+  /**
+   * Claim an open escalation for a rep (claiming your own claim again is a no-op)
+   */
+  async claimEscalation(id: string, assignedTo: string): Promise<Escalation> {
+    const result = await query(
+      `UPDATE escalations
+       SET status = 'claimed', assigned_to = $1, claimed_at = COALESCE(claimed_at, NOW())
+       WHERE id = $2 AND (status = 'open' OR (status = 'claimed' AND assigned_to = $1))
+       RETURNING id`,
+      [assignedTo, id]
+    );
+
+    if (result.rows.length === 0) {
+      const existing = await this.requireEscalation(id);
+      throw new Error(
+        existing.status === 'resolved'
+          ? 'Escalation conflict: escalation is resolved'
+          : `Escalation conflict: already claimed by ${existing.assigned_to}`
+      );
+    }
+
+    return (await this.getEscalationById(id))!;
+  }
+
+  /**
+   * Assign (or reassign) an unresolved escalation to a rep
+   */
+  async assignEscalation(id: string, assignedTo: string): Promise<Escalation> {
+    const result = await query(
+      `UPDATE escalations
+       SET status = 'claimed', assigned_to = $1, claimed_at = COALESCE(claimed_at, NOW())
+       WHERE id = $2 AND status <> 'resolved'
+       RETURNING id`,
+      [assignedTo, id]
+    );
+
+    if (result.rows.length === 0) {
+      await this.requireEscalation(id);
+      throw new Error('Escalation conflict: escalation is resolved');
+    }
+
+    return (await this.getEscalationById(id))!;
+  }
+
+  /**
+   * Put a claimed escalation back on the queue
+   * claimed_at is kept, so the claim SLA stays met
+   */
+  async releaseEscalation(id: string): Promise<Escalation> {
+    const result = await query(
+      `UPDATE escalations SET status = 'open', assigned_to = NULL
+       WHERE id = $1 AND status = 'claimed'
+       RETURNING id`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      const existing = await this.requireEscalation(id);
+      throw new Error(`Escalation conflict: cannot release a ${existing.status} escalation`);
+    }
+
+    return (await this.getEscalationById(id))!;
+  }
+
+  /**
+   * Resolve an escalation, optionally queueing a human follow-up call
+   */
+  async resolveEscalation(id: string, resolution: EscalationResolution): Promise<Escalation> {
+    const existing = await this.requireEscalation(id);
+    if (existing.status === 'resolved') {
+      throw new Error('Escalation conflict: escalation is already resolved');
+    }
+
+    const resolvedBy = resolution.resolved_by || existing.assigned_to || 'system';
+    let followUpSessionId: string | null = null;
+    if (resolution.create_follow_up) {
+      const context: CallSessionEventContext = { actor: resolvedBy, source: 'escalation' };
+      const followUp = await this.callSessionService.createCallSession({
+        call_session_id: `escalation:${id}:follow-up`,
+        project_id: existing.project_id!,
+        contact_id: existing.contact_id,
+        call_type: 'human',
+        call_status: 'queued',
+        campaign_id: existing.campaign_id,
+        parent_call_session_id: existing.call_session_id,
+      }, context);
+      followUpSessionId = followUp.id!;
+    }
+
+    const result = await query(
+      `UPDATE escalations
+       SET status = 'resolved', resolved_at = NOW(), resolved_by = $1, resolution = $2,
+           resolution_notes = $3, follow_up_session_id = $4, assigned_to = COALESCE(assigned_to, $1)
+       WHERE id = $5 AND status <> 'resolved'
+       RETURNING id`,
+      [resolvedBy, resolution.resolution, resolution.notes || null, followUpSessionId, id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Escalation conflict: escalation is already resolved');
+    }
+
+    return (await this.getEscalationById(id))!;
+  }
+
+  private async requireEscalation(id: string): Promise<Escalation> {
+    const escalation = await this.getEscalationById(id);
+    if (!escalation) {
+      throw new Error(`Escalation not found: ${id}`);
+    }
+    return escalation;
+  }
+
+  /**
+   * Map database row to Escalation type (SLA timers computed from created_at)
+   */
+  private mapRowToEscalation(row: any): Escalation {
+    const createdAt = new Date(row.created_at);
+    const claimDueAt = new Date(createdAt.getTime() + this.claimSlaMinutes * 60 * 1000);
+    const resolveDueAt = new Date(createdAt.getTime() + this.resolveSlaMinutes * 60 * 1000);
+    const now = new Date();
+    const claimedAt = row.claimed_at ?? row.resolved_at;
+
+    return {
+      id: row.id,
+      call_session_id: row.call_session_id,
+      reason: row.reason,
+      status: row.status,
+      assigned_to: row.assigned_to,
+      claimed_at: row.claimed_at,
+      resolved_at: row.resolved_at,
+      resolved_by: row.resolved_by,
+      resolution: row.resolution,
+      resolution_notes: row.resolution_notes,
+      follow_up_session_id: row.follow_up_session_id,
+      claim_due_at: claimDueAt,
+      resolve_due_at: resolveDueAt,
+      claim_sla_breached: (claimedAt ? new Date(claimedAt) : now) > claimDueAt,
+      resolve_sla_breached: (row.resolved_at ? new Date(row.resolved_at) : now) > resolveDueAt,
+      project_id: row.external_project_id,
+      project_name: row.project_name,
+      contact_id: row.contact_id,
+      contact_name: row.contact_name,
+      phonenumber: row.phonenumber,
+      call_type: row.call_type,
+      outcome: row.outcome,
+      campaign_id: row.campaign_id,
+      call_started_at: row.call_started_at,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,217 @@
+import dotenv from 'dotenv';
+import { z } from 'zod';
+import { query } from '../db/connection';
+import { CallSession, FollowUp, FollowUpRule, FollowUpRules } from '../types';
+import { parseCallbackTime } from '../utils/callback-time';
+import { TERMINAL_CALL_STATUSES } from '../utils/call-status';
+import { ProjectService } from './ProjectService';
+import { ContactService } from './ContactService';
+import { ProjectContactService } from './ProjectContactService';
+import { EligibilityPolicyService } from './EligibilityPolicyService';
+import { CallingWindowService } from './CallingWindowService';
+import { CallTranscriptService } from './CallTranscriptService';
+
+dotenv.config();
+
+/**
+ * Default follow-up per outcome (outcome, or call_status when no outcome was recorded)
+ * - callback_requested: the slot the contact asked for, else the next day
+ * - no_answer: 4h, 8h, 16h, ... up to 3 days for consecutive unanswered calls
+ * - voicemail: 3 days; busy / failed: 1 hour
+ * - not_interested: pair suppressed for 90 days
+ * - anything else: no extra wait, cooldowns from the eligibility policy
+ * Only rules with cooldown count as contact: unanswered calls start no cooldown,
+ * so other contacts on the project (and the contact's other projects) stay callable.
+ */
+const DEFAULT_FOLLOW_UP_RULES: FollowUpRules = {
+  callback_requested: { use_callback_time: true, delay_hours: 24 },
+  no_answer: { backoff: { base_hours: 4, multiplier: 2, max_hours: 72 } },
+  busy: { delay_hours: 1 },
+  voicemail: { delay_hours: 72 },
+  failed: { delay_hours: 1 },
+  canceled: {},
+  not_interested: { delay_hours: 90 * 24, cooldown: true },
+  default: { cooldown: true },
+};
+
+const FollowUpRuleSchema = z.object({
+  delay_hours: z.number().min(0).optional(),
+  backoff: z.object({
+    base_hours: z.number().min(0),
+    multiplier: z.number().min(1),
+    max_hours: z.number().min(0),
+  }).optional(),
+  use_callback_time: z.boolean().optional(),
+  cooldown: z.boolean().optional(),
+  project_cooldown: z.boolean().optional(), // Former name of cooldown, still accepted
+}).transform(({ project_cooldown, ...rule }): FollowUpRule => (
+  rule.cooldown === undefined && project_cooldown !== undefined ? { ...rule, cooldown: project_cooldown } : rule
+));
+
+const FollowUpRulesSchema = z.record(FollowUpRuleSchema);
+
+/** Sessions looked at when counting consecutive calls with the same outcome */
+const MAX_STREAK = 20;
+
+/**
+ * Load follow-up rules from FOLLOW_UP_RULES (JSON, outcome -> rule), merged over defaults
+ */
+function loadFollowUpRules(): FollowUpRules {
+  const raw = process.env.FOLLOW_UP_RULES;
+  if (!raw) return DEFAULT_FOLLOW_UP_RULES;
+  try {
+    return { ...DEFAULT_FOLLOW_UP_RULES, ...FollowUpRulesSchema.parse(JSON.parse(raw)) };
+  } catch (error) {
+    console.warn('Invalid FOLLOW_UP_RULES config, using defaults:', error);
+    return DEFAULT_FOLLOW_UP_RULES;
+  }
+}
+
+/**
+ * FollowUpService
+ * Schedules the next call for a project-contact pair when a call session ends
+ *
+ * The rule for the session's outcome sets project_contacts.next_call_eligible_at
+ * (and callback_at for callbacks); rules with cooldown also record the contact on
+ * the project, the pair and the contact (last_contacted_at), which starts the
+ * project, project-contact and contact cooldowns of the eligibility policy.
+ */
+export class FollowUpService {
+  private rules: FollowUpRules;
+  private projectService: ProjectService;
+  private contactService: ContactService;
+  private projectContactService: ProjectContactService;
+  private policyService: EligibilityPolicyService;
+  private callingWindowService: CallingWindowService;
+  private transcriptService: CallTranscriptService;
+
+  constructor(rules?: FollowUpRules) {
+    this.rules = rules ?? loadFollowUpRules();
+    this.projectService = new ProjectService();
+    this.contactService = new ContactService();
+    this.projectContactService = new ProjectContactService();
+    this.policyService = new EligibilityPolicyService();
+    this.callingWindowService = new CallingWindowService();
+    this.transcriptService = new CallTranscriptService();
+  }
+
+  /**
+   * Rule applied for an outcome
+   */
+  getRule(outcome: string): FollowUpRule {
+    return this.rules[outcome] ?? this.rules.default ?? {};
+  }
+
+  /**
+   * Apply the follow-up rule for an ended call session
+   * session.project_id is the external project_id, session.contact_id the internal contact UUID
+   */
+  async scheduleFollowUp(session: CallSession): Promise<FollowUp> {
+    const outcome = session.outcome || session.call_status;
+    const rule = this.getRule(outcome);
+    const endedAt = session.ended_at ? new Date(session.ended_at) : new Date();
+
+    const projectResult = await query(
+      'SELECT id, category, timezone, state FROM crm_projects WHERE project_id = $1',
+      [session.project_id]
+    );
+    if (projectResult.rows.length === 0) {
+      throw new Error(`Project not found: ${session.project_id}`);
+    }
+    const project = projectResult.rows[0];
+
+    const contactResult = session.contact_id
+      ? await query('SELECT contact_id, authority_level FROM contacts WHERE id = $1', [session.contact_id])
+      : { rows: [] as any[] };
+    const contact = contactResult.rows[0] ?? null;
+
+    const followUp: FollowUp = {
+      outcome,
+      next_call_eligible_at: null,
+      callback_at: null,
+      project_next_call_eligible_at: null,
+    };
+
+    if (rule.use_callback_time) {
+      followUp.callback_at = await this.findCallbackTime(session, endedAt, this.callingWindowService.resolveTimezone(project));
+      followUp.next_call_eligible_at = followUp.callback_at;
+    }
+    if (!followUp.next_call_eligible_at && rule.backoff) {
+      const streak = await this.countOutcomeStreak(project.id, session.contact_id ?? null, outcome);
+      const hours = Math.min(
+        rule.backoff.base_hours * Math.pow(rule.backoff.multiplier, Math.max(streak - 1, 0)),
+        rule.backoff.max_hours
+      );
+      followUp.next_call_eligible_at = this.addHours(endedAt, hours);
+    }
+    if (!followUp.next_call_eligible_at && rule.delay_hours != null) {
+      followUp.next_call_eligible_at = this.addHours(endedAt, rule.delay_hours);
+    }
+
+    if (rule.cooldown) {
+      const policy = await this.policyService.getEffectivePolicy({
+        category: project.category,
+        authority_level: contact?.authority_level,
+        call_type: session.call_type,
+      });
+      followUp.project_next_call_eligible_at = this.addHours(endedAt, policy.min_call_cooldown_hours);
+      await this.projectService.updateLastContactedAt(session.project_id, endedAt);
+      await this.projectService.updateNextCallEligibleAt(session.project_id, followUp.project_next_call_eligible_at);
+      if (session.contact_id) {
+        await this.contactService.updateLastContactedAt(session.contact_id, endedAt);
+      }
+    }
+
+    // project_contacts is keyed by external project_id/contact_id
+    if (contact?.contact_id) {
+      await this.projectContactService.upsertProjectContact(session.project_id, contact.contact_id, {
+        next_call_eligible_at: followUp.next_call_eligible_at,
+        callback_at: followUp.callback_at,
+        follow_up_reason: outcome,
+        last_contacted_at: rule.cooldown ? endedAt : undefined,
+      });
+    }
+
+    return followUp;
+  }
+
+  /**
+   * Latest callback slot the contact mentioned on the call
+   * Agent speech is ignored: the agent proposes times the contact may have turned down
+   */
+  private async findCallbackTime(session: CallSession, endedAt: Date, timezone: string): Promise<Date | null> {
+    const utterances = await this.transcriptService.getUtterances(session.id!, session.transcript, 'callee');
+    for (const utterance of utterances.reverse()) {
+      const callbackAt = parseCallbackTime(utterance, endedAt, timezone);
+      if (callbackAt) return callbackAt;
+    }
+    return null;
+  }
+
+  /**
+   * Number of consecutive most recent ended calls to the pair with this outcome
+   */
+  private async countOutcomeStreak(
+    projectInternalId: string,
+    contactInternalId: string | null,
+    outcome: string
+  ): Promise<number> {
+    const result = await query(
+      `SELECT COALESCE(outcome, call_status) AS outcome
+       FROM call_sessions
+       WHERE project_id = $1
+         AND contact_id IS NOT DISTINCT FROM $2
+         AND call_status = ANY($3)
+       ORDER BY started_at DESC
+       LIMIT $4`,
+      [projectInternalId, contactInternalId, TERMINAL_CALL_STATUSES, MAX_STREAK]
+    );
+
+    const firstOther = result.rows.findIndex(row => row.outcome !== outcome);
+    return firstOther === -1 ? result.rows.length : firstOther;
+  }
+
+  private addHours(from: Date, hours: number): Date {
+    return new Date(from.getTime() + hours * 60 * 60 * 1000);
+  }
+}
@@ -0,0 +1,391 @@
+import { Contact, ImportFormat, ImportReport, ImportRowResult, Project, ProjectContact } from '../types';
+import { ProjectService } from './ProjectService';
+import { ContactService } from './ContactService';
+import { ProjectContactService } from './ProjectContactService';
+import { CallingWindowService } from './CallingWindowService';
+import { IMPORT_FORMAT_TABLES, RecordDiffService } from './RecordDiffService';
+import { DRY_RUN_MAX_ROWS, getClient, withDryRun } from '../db/connection';
+import { parseCsv } from '../utils/csv';
+import { fromLocal } from '../utils/local-time';
+import { normalizePhoneNumber } from '../utils/phone';
+
+/** Import order when several files are imported together (associations need both sides) */
+export const IMPORT_FORMAT_ORDER: ImportFormat[] = ['projects', 'contacts', 'records'];
+
+/** Cell values HubSpot exports for "no value" */
+const EMPTY_VALUES = new Set(['', 'null', 'none', 'n/a']);
+
+/** HubSpot channel values -> Contact/ProjectContact preferred channel */
+const CHANNELS: Record<string, NonNullable<Contact['preferred_channel']>> = {
+  call: 'phone',
+  phone: 'phone',
+  email: 'email',
+  sms: 'sms',
+  text: 'sms',
+};
+
+type CsvRow = Map<string, string>;
+
+/** Row result plus the id of the record the row wrote (diffed in dry runs) */
+type RowOutcome = ImportRowResult & { record_id?: string };
+
+interface ImportFile {
+  name?: string;
+  content: string;
+  format?: ImportFormat;
+}
+
+export interface ImportOptions {
+  dry_run?: boolean; // Roll everything back; rows report created/updated/unchanged with field changes
+}
+
+/**
+ * HubSpotImportService
+ * Imports HubSpot CRM export CSVs (all-projects, all-contacts, all-records) through the
+ * existing upsert services
+ *
+ * - Columns are matched case-insensitively, ignoring spaces/underscores ("project id" = project_id)
+ * - Each row is imported on its own; failures are reported per row and do not stop the file
+ * - Dates without an offset are read in the project's timezone (projects) or the default
+ *   calling timezone
+ * - Contacts without a contact_id get "hubspot-<Record ID>" so re-imports are idempotent
+ * - Association records resolve their contact by contact_id, then email, then phone
+ * - Dry runs import inside a transaction that is rolled back and diff each written record
+ *   against its committed row; they are limited to DRY_RUN_MAX_ROWS rows over all files
+ */
+export class HubSpotImportService {
+  private projectService: ProjectService;
+  private contactService: ContactService;
+  private projectContactService: ProjectContactService;
+  private callingWindowService: CallingWindowService;
+  private recordDiffService: RecordDiffService;
+
+  constructor() {
+    this.projectService = new ProjectService();
+    this.contactService = new ContactService();
+    this.projectContactService = new ProjectContactService();
+    this.callingWindowService = new CallingWindowService();
+    this.recordDiffService = new RecordDiffService();
+  }
+
+  /**
+   * Import several export files, projects first, then contacts, then associations
+   */
+  async importFiles(files: ImportFile[], options: ImportOptions = {}): Promise<ImportReport[]> {
+    const parsed = files.map(file => {
+      const rows = parseCsv(file.content);
+      const headers = (rows[0] ?? []).map(normalizeHeader);
+      const format = file.format ?? detectImportFormat(headers);
+      if (!format) {
+        throw new Error(`Unrecognized import format${file.name ? ` for ${file.name}` : ''}: expected a HubSpot projects, contacts or records export`);
+      }
+      return { file, rows, format };
+    });
+
+    parsed.sort((a, b) => IMPORT_FORMAT_ORDER.indexOf(a.format) - IMPORT_FORMAT_ORDER.indexOf(b.format));
+
+    const totalRows = parsed.reduce((sum, { rows }) => sum + Math.max(rows.length - 1, 0), 0);
+    if (options.dry_run && totalRows > DRY_RUN_MAX_ROWS) {
+      throw new Error(`Dry run too large: ${totalRows} rows (at most ${DRY_RUN_MAX_ROWS}); split the files`);
+    }
+
+    const importAll = async () => {
+      const reports: ImportReport[] = [];
+      for (const { file, rows, format } of parsed) {
+        reports.push(await this.importRows(format, rows, file.name, options.dry_run ?? false));
+      }
+      return reports;
+    };
+    return options.dry_run ? withDryRun(importAll) : importAll();
+  }
+
+  /**
+   * Import one export file (format detected from the header row unless given)
+   */
+  async importCsv(content: string, format?: ImportFormat, name?: string, options: ImportOptions = {}): Promise<ImportReport> {
+    const [report] = await this.importFiles([{ content, format, name }], options);
+    return report;
+  }
+
+  private async importRows(format: ImportFormat, rows: string[][], file: string | undefined, dryRun: boolean): Promise<ImportReport> {
+    const headers = (rows[0] ?? []).map(normalizeHeader);
+    const report: ImportReport = {
+      format, file, dry_run: dryRun, total: 0, created: 0, updated: 0, unchanged: 0, skipped: 0, errors: 0, rows: [],
+    };
+
+    for (let i = 1; i < rows.length; i++) {
+      const row: CsvRow = new Map(headers.map((header, column) => [header, rows[i][column] ?? '']));
+      let result: ImportRowResult;
+      try {
+        result = dryRun ? await this.diffRow(format, row, i) : await this.importRow(format, row, i);
+        delete (result as RowOutcome).record_id;
+      } catch (error: any) {
+        result = { row: i, status: 'error', message: error.message };
+      }
+
+      report.rows.push(result);
+      report.total++;
+      if (result.status === 'error') report.errors++;
+      else report[result.status]++;
+    }
+
+    return report;
+  }
+
+  private async importRow(format: ImportFormat, row: CsvRow, index: number): Promise<RowOutcome> {
+    return format === 'projects'
+      ? this.importProjectRow(row, index)
+      : format === 'contacts'
+        ? this.importContactRow(row, index)
+        : this.importRecordRow(row, index);
+  }
+
+  /**
+   * Dry run: import the row in its own savepoint (so a failed row does not abort the run)
+   * and diff the written record against its committed row
+   */
+  private async diffRow(format: ImportFormat, row: CsvRow, index: number): Promise<ImportRowResult> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+      const outcome = await this.importRow(format, row, index);
+      if (outcome.record_id && outcome.key) {
+        const diff = await this.recordDiffService.diffRecord(IMPORT_FORMAT_TABLES[format], outcome.record_id, outcome.key);
+        outcome.status = diff.status;
+        outcome.changes = diff.changes;
+      }
+      await client.query('COMMIT');
+      return outcome;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * all-projects export row -> Project
+   */
+  private async importProjectRow(row: CsvRow, index: number): Promise<RowOutcome> {
+    const projectId = value(row, 'project id');
+    const name = value(row, 'name');
+    if (!projectId) return { row: index, status: 'skipped', message: 'Missing project id' };
+    if (!name) return { row: index, key: projectId, status: 'skipped', message: 'Missing name' };
+
+    const timezone = value(row, 'timezone');
+    const state = value(row, 'state');
+    const localTimezone = this.callingWindowService.resolveTimezone({ timezone, state });
+
+    const project: Project = {
+      project_id: projectId,
+      name,
+      address: value(row, 'project address'),
+      suburb: value(row, 'suburb'),
+      postcode: value(row, 'postcode')?.replace(/\.0+$/, ''), // exported as a number ("3925.0")
+      state,
+      category: value(row, 'category'),
+      awarded_date: parseDateValue(row, 'award date'),
+      distance: parseNumberValue(row, 'distance km'),
+      budget: value(row, 'budget'),
+      quotes_due_date: parseDateValue(row, 'quotes due date'),
+      country: value(row, 'country'),
+      timezone,
+      priority_score: parseNumberValue(row, 'priority score'),
+      last_contacted_at: parseDateTimeValue(row, 'last contacted at', localTimezone),
+      next_call_eligible_at: parseDateTimeValue(row, 'next call eligible at', localTimezone),
+      call_suppressed: parseBooleanValue(row, 'call suppressed'),
+    };
+    if (project.priority_score !== undefined && (project.priority_score < 0 || project.priority_score > 1)) {
+      throw new Error(`Invalid priority_score: ${project.priority_score} (expected 0..1)`);
+    }
+
+    const saved = await this.projectService.upsertProject(project);
+    return { row: index, key: projectId, status: isNewRecord(saved) ? 'created' : 'updated', record_id: saved.id };
+  }
+
+  /**
+   * all-contacts export row -> Contact
+   */
+  private async importContactRow(row: CsvRow, index: number): Promise<RowOutcome> {
+    const recordId = value(row, 'record id');
+    const name = [value(row, 'first name'), value(row, 'last name')].filter(Boolean).join(' ') || value(row, 'name');
+    const email = value(row, 'email');
+    const phonenumber = value(row, 'phone number');
+    if (!name) return { row: index, key: recordId, status: 'skipped', message: 'Missing name' };
+
+    // Without a contact_id, reuse the ID a previous import gave the record
+    const syntheticId = recordId ? `hubspot-${recordId}` : undefined;
+    let contactId = value(row, 'contact id');
+    if (!contactId && syntheticId && await this.contactService.getContactByExternalId(syntheticId)) {
+      contactId = syntheticId;
+    }
+
+    const contact: Contact = {
+      contact_id: contactId,
+      name,
+      email,
+      companyname: value(row, 'associated company') ?? value(row, 'company name'),
+      phonenumber,
+      global_role: value(row, 'global role'),
+      authority_level: value(row, 'authority level'),
+      preferred_channel: parseChannelValue(row, 'preferred channel'),
+      do_not_call: parseBooleanValue(row, 'do not call'),
+      last_ai_contact: parseDateTimeValue(row, 'last ai contact at', this.callingWindowService.resolveTimezone({})),
+    };
+
+    let saved = await this.contactService.upsertContact(contact);
+    const created = isNewRecord(saved);
+    if (!saved.contact_id && syntheticId) {
+      saved = (await this.contactService.assignContactId(saved.id!, syntheticId)) ?? saved;
+    }
+
+    return {
+      row: index,
+      key: saved.contact_id ?? saved.id,
+      status: created ? 'created' : 'updated',
+      message: phonenumber && saved.phone_valid === false ? `Invalid phone number: ${phonenumber}` : undefined,
+      record_id: saved.id,
+    };
+  }
+
+  /**
+   * all-records export row (project-contact association) -> ProjectContact
+   */
+  private async importRecordRow(row: CsvRow, index: number): Promise<RowOutcome> {
+    const projectId = value(row, 'project id');
+    if (!projectId) return { row: index, status: 'skipped', message: 'Missing project_id' };
+
+    await this.projectContactService.resolveProjectId(projectId);
+    const contactId = await this.resolveRecordContact(row);
+    const key = `${projectId}:${contactId}`;
+
+    const data: Partial<ProjectContact> = {
+      role_for_project: value(row, 'role for project'),
+      role_confidence: parseNumberValue(row, 'role confidence'),
+      est_start_date: parseDateValue(row, 'est start date'),
+      est_end_date: parseDateValue(row, 'est end date') ?? parseDateValue(row, 'est end data'), // export typo
+      role_confirmed: parseBooleanValue(row, 'role confirmed'),
+      preferred_channel_project: parseChannelValue(row, 'preferred channel project'),
+      last_contacted_at: parseDateTimeValue(row, 'last contacted at', this.callingWindowService.resolveTimezone({})),
+      suppress_for_project: parseBooleanValue(row, 'suppress for project'),
+    };
+    if (data.role_confidence !== undefined && (data.role_confidence < 0 || data.role_confidence > 1)) {
+      throw new Error(`Invalid role_confidence: ${data.role_confidence} (expected 0..1)`);
+    }
+
+    const saved = await this.projectContactService.upsertProjectContact(projectId, contactId, data);
+    return { row: index, key, status: isNewRecord(saved) ? 'created' : 'updated', record_id: saved.id };
+  }
+
+  /**
+   * External contact_id of an association record's contact: by contact_id, then the
+   * record's email, then its phone number
+   */
+  private async resolveRecordContact(row: CsvRow): Promise<string> {
+    const contactRef = value(row, 'contact id');
+    if (contactRef) {
+      try {
+        return await this.projectContactService.resolveContactId(contactRef);
+      } catch (error: any) {
+        if (!error.message?.includes('Contact not found')) throw error;
+      }
+    }
+
+    const email = value(row, 'email');
+    const phone = value(row, 'phone number');
+    const e164 = phone ? normalizePhoneNumber(phone).e164 : null;
+    const contact = (email ? await this.contactService.getContactByEmail(email) : null)
+      ?? (e164 ? await this.contactService.getContactByPhone(e164) : null);
+    if (!contact) {
+      throw new Error(`Contact not found: ${contactRef ?? email ?? phone ?? '(no contact_id, email or phone)'}`);
+    }
+    return this.projectContactService.resolveContactId(contact.id!);
+  }
+}
+
+/**
+ * Detect the export format from its (normalized) header row
+ */
+export function detectImportFormat(headers: string[]): ImportFormat | null {
+  const has = (header: string) => headers.includes(header);
+  if (has('project id') && has('contact id')) return 'records';
+  if (has('project id') && has('name')) return 'projects';
+  if (has('first name') || has('last name') || (has('email') && has('contact id'))) return 'contacts';
+  return null;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_]+/g, ' ');
+}
+
+/**
+ * Trimmed cell value; undefined for missing columns and "no value" placeholders
+ */
+function value(row: CsvRow, column: string): string | undefined {
+  const cell = row.get(column)?.trim();
+  return cell === undefined || EMPTY_VALUES.has(cell.toLowerCase()) ? undefined : cell;
+}
+
+function parseNumberValue(row: CsvRow, column: string): number | undefined {
+  const cell = value(row, column);
+  if (cell === undefined) return undefined;
+  const number = Number(cell.replace(/,/g, ''));
+  if (isNaN(number)) throw new Error(`Invalid ${column}: ${cell}`);
+  return number;
+}
+
+function parseBooleanValue(row: CsvRow, column: string): boolean | undefined {
+  const cell = value(row, column)?.toLowerCase();
+  if (cell === undefined) return undefined;
+  if (['yes', 'true', 'y', '1'].includes(cell)) return true;
+  if (['no', 'false', 'n', '0'].includes(cell)) return false;
+  throw new Error(`Invalid ${column}: ${cell} (expected Yes/No)`);
+}
+
+function parseChannelValue(row: CsvRow, column: string): Contact['preferred_channel'] {
+  const cell = value(row, column)?.toLowerCase();
+  if (cell === undefined) return undefined;
+  const channel = CHANNELS[cell];
+  if (!channel) throw new Error(`Invalid ${column}: ${cell} (expected call, email or sms)`);
+  return channel;
+}
+
+/**
+ * Date column: YYYY-MM-DD (a time part is dropped) or DD/MM/YYYY
+ */
+function parseDateValue(row: CsvRow, column: string): string | undefined {
+  const cell = value(row, column);
+  if (cell === undefined) return undefined;
+  const iso = cell.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T].*)?$/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const au = cell.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (au) return `${au[3]}-${au[2].padStart(2, '0')}-${au[1].padStart(2, '0')}`;
+  throw new Error(`Invalid ${column}: ${cell}`);
+}
+
+/**
+ * Timestamp column: "YYYY-MM-DD HH:mm[:ss]" in the given timezone, a date (midnight), or
+ * ISO 8601 with an offset
+ */
+function parseDateTimeValue(row: CsvRow, column: string, timezone: string): Date | undefined {
+  const cell = value(row, column);
+  if (cell === undefined) return undefined;
+  const local = cell.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/);
+  if (local) {
+    const [, year, month, day, hour, minute] = local;
+    return fromLocal(+year, +month, +day, hour ? +hour : 0, minute ? +minute : 0, timezone);
+  }
+  const instant = new Date(cell);
+  if (/(?:Z|[+-]\d{2}:?\d{2})$/.test(cell) && !isNaN(instant.getTime())) return instant;
+  throw new Error(`Invalid ${column}: ${cell}`);
+}
+
+/**
+ * Whether an upsert inserted the row: on insert created_at and updated_at share the
+ * transaction timestamp, on update the trigger moves updated_at on
+ */
+function isNewRecord(record: { created_at?: string | Date; updated_at?: string | Date }): boolean {
+  return record.created_at != null && record.updated_at != null
+    && new Date(record.created_at).getTime() === new Date(record.updated_at).getTime();
+}
@@ -1,9 +1,15 @@
 import { Client } from '@hubspot/api-client';
 import dotenv from 'dotenv';
-import { Project, Contact, CallSession, TerminalSession } from '../types';
+import { Project, Contact, CallSession, TerminalSession, TranscriptTurn } from '../types';
+import { renderTranscriptText } from '../utils/transcript';
 
 dotenv.config();
 
+/**
+ * HubSpot's limit on hs_note_body
+ */
+const NOTE_BODY_MAX_LENGTH = 65536;
+
 /**
  * HubSpotSyncService
  * 
@@ -17,7 +23,11 @@ dotenv.config();
  * - Call outcomes → Deal notes/activities
  * - Terminal states → Custom properties
  * 
- * All operations are idempotent using external IDs
+ * All operations are idempotent: objects are updated by the HubSpot id stored from an earlier
+ * sync (returned by each sync method), else found by external ID; search lags behind writes,
+ * so only the stored id keeps an immediate re-sync from creating a duplicate. Call notes are
+ * found by stored id only.
+ * Called by SyncJobService from the sync outbox; errors are thrown so failed syncs are retried
  */
 export class HubSpotSyncService {
   private client: Client | null = null;
@@ -46,387 +56,333 @@ export class HubSpotSyncService {
   
   /**
    * Sync a project to HubSpot as a Deal
-   * Uses project_id as external ID for idempotency
+   * Updates the deal with the stored ID (dealId), else the one found by project_id, else
+   * creates one. Returns the deal ID (null when sync is disabled).
    */
-  async syncProject(project: Project): Promise<void> {
+  async syncProject(project: Project, dealId?: string | null): Promise<string | null> {
     if (!this.isEnabled()) {
       console.log('HubSpot sync disabled, skipping project sync');
-      return;
+      return null;
     }
     
-    try {
-      const dealProperties: Record<string, string> = {
-        dealname: project.name,
-        dealstage: this.mapProjectStatusToDealStage((project as any).project_status),
-        amount: (project as any).priority_score?.toString() || '0',
-        project_id: project.project_id,
-        call_suppressed: project.call_suppressed ? 'true' : 'false',
-      };
-      if (project.awarded_date) {
-        dealProperties.closedate = new Date(project.awarded_date).getTime().toString();
-      }
-      if ((project as any).category) {
-        dealProperties.category = (project as any).category;
-      }
-      if (project.last_contacted_at) {
-        dealProperties.last_contacted_at = new Date(project.last_contacted_at).getTime().toString();
-      }
-      if (project.next_call_eligible_at) {
-        dealProperties.next_call_eligible_at = new Date(project.next_call_eligible_at).getTime().toString();
-      }
-      const address = this.formatAddress(project);
-      if (address) {
-        dealProperties.address = address;
-      }
-      
-      // Try to update deal using project_id as external ID
-      // Note: HubSpot API v3+ uses different methods, we'll search first then update/create
-      try {
-        // Search for existing deal by project_id custom property
-        const searchResult = await this.client!.crm.deals.searchApi.doSearch({
-          filterGroups: [{
-            filters: [{
-              propertyName: 'project_id',
-              operator: 'EQ',
-              value: project.project_id,
-            }],
-          }],
-          properties: ['id'],
-          limit: 1,
-          sorts: [],
-          after: 0,
-        });
-        
-        if (searchResult.results && searchResult.results.length > 0) {
-          // Update existing deal
-          await this.client!.crm.deals.basicApi.update(
-            searchResult.results[0].id,
-            { properties: dealProperties }
-          );
-        } else {
-          throw new Error('Deal not found');
-        }
-      } catch (error: any) {
-        // If not found or error, create new deal
-        throw new Error('CREATE_NEW');
-      }
-      
+    const dealProperties: Record<string, string> = {
+      dealname: project.name,
+      dealstage: this.mapProjectStatusToDealStage((project as any).project_status),
+      amount: (project as any).priority_score?.toString() || '0',
+      project_id: project.project_id,
+      call_suppressed: project.call_suppressed ? 'true' : 'false',
+    };
+    if (project.awarded_date) {
+      dealProperties.closedate = new Date(project.awarded_date).getTime().toString();
+    }
+    if ((project as any).category) {
+      dealProperties.category = (project as any).category;
+    }
+    if (project.last_contacted_at) {
+      dealProperties.last_contacted_at = new Date(project.last_contacted_at).getTime().toString();
+    }
+    if (project.next_call_eligible_at) {
+      dealProperties.next_call_eligible_at = new Date(project.next_call_eligible_at).getTime().toString();
+    }
+    const address = this.formatAddress(project);
+    if (address) {
+      dealProperties.address = address;
+    }
+    
+    // Search errors (e.g. rate limits) are thrown rather than treated as "not found",
+    // so a retry cannot create a duplicate deal
+    const existingId = await this.updateExisting(
+      dealId,
+      () => this.findDealId(project.project_id),
+      id => this.client!.crm.deals.basicApi.update(id, { properties: dealProperties })
+    );
+    if (existingId) {
       console.log(`Synced project to HubSpot: ${project.project_id}`);
-    } catch (error: any) {
-      // If deal doesn't exist, create it
-      if (error.code === 404 || error.message === 'CREATE_NEW') {
-        try {
-          const dealProperties: Record<string, string> = {
-            dealname: project.name,
-            dealstage: this.mapProjectStatusToDealStage((project as any).project_status),
-            amount: (project as any).priority_score?.toString() || '0',
-            project_id: project.project_id,
-            call_suppressed: project.call_suppressed ? 'true' : 'false',
-          };
-          if ((project as any).category) {
-            dealProperties.category = (project as any).category;
-          }
-          
-          await this.client!.crm.deals.basicApi.create({
-            properties: dealProperties,
-            associations: [],
-          });
-          
-          console.log(`Created new deal in HubSpot: ${project.project_id}`);
-        } catch (createError) {
-          console.error(`Error creating deal in HubSpot:`, createError);
-          throw createError;
-        }
-      } else {
-        console.error(`Error syncing project to HubSpot:`, error);
-        throw error;
-      }
+      return existingId;
     }
+    
+    const deal = await this.client!.crm.deals.basicApi.create({
+      properties: dealProperties,
+      associations: [],
+    });
+    console.log(`Created new deal in HubSpot: ${project.project_id}`);
+    return deal.id;
   }
   
   /**
    * Sync a contact to HubSpot
-   * Uses contact_id as external ID if available, otherwise uses phone/email for deduplication
+   * Updates the HubSpot contact with the stored ID (hubspotContactId), else the one found by
+   * contact_id or email, else creates one. Returns the HubSpot contact ID (null when sync is
+   * disabled).
    */
-  async syncContact(contact: Contact): Promise<void> {
+  async syncContact(contact: Contact, hubspotContactId?: string | null): Promise<string | null> {
     if (!this.isEnabled()) {
       console.log('HubSpot sync disabled, skipping contact sync');
-      return;
+      return null;
     }
     
-    try {
-      const contactProperties: any = {
-        firstname: this.extractFirstName(contact.name),
-        lastname: this.extractLastName(contact.name),
-        phone: contact.phonenumber,
-        email: contact.email,
-        // Custom properties
-        global_role: contact.global_role,
-        authority_level: contact.authority_level,
-        preferred_channel: contact.preferred_channel,
-        do_not_call: contact.do_not_call ? 'true' : 'false',
-      };
-      
-      // Add external ID if available
-      if (contact.contact_id) {
-        contactProperties.contact_id = contact.contact_id;
-      }
-      
-      // Remove undefined values
-      Object.keys(contactProperties).forEach(key => {
-        if (contactProperties[key] === undefined) {
-          delete contactProperties[key];
-        }
-      });
-      
-      // Try to find existing contact by external ID, phonenumber, or email
-      let hubspotContactId: string | null = null;
-      
-      if (contact.contact_id) {
-        try {
-          // Search by custom property (contact_id)
-          const searchResult = await this.client!.crm.contacts.searchApi.doSearch({
-            filterGroups: [{
-              filters: [{
-                propertyName: 'contact_id',
-                operator: 'EQ',
-                value: contact.contact_id,
-              }],
-            }],
-            properties: ['id'],
-            limit: 1,
-            sorts: [],
-            after: 0,
-          });
-          if (searchResult.results && searchResult.results.length > 0) {
-            hubspotContactId = searchResult.results[0].id;
-          }
-        } catch (e) {
-          // Contact not found by external ID, continue
-        }
-      }
-      
-      if (!hubspotContactId && contact.email) {
-        try {
-          // Search by email
-          const searchResult = await this.client!.crm.contacts.searchApi.doSearch({
-            filterGroups: [{
-              filters: [{
-                propertyName: 'email',
-                operator: 'EQ',
-                value: contact.email,
-              }],
-            }],
-            properties: ['id'],
-            limit: 1,
-            sorts: [],
-            after: 0,
-          });
-          if (searchResult.results && searchResult.results.length > 0) {
-            hubspotContactId = searchResult.results[0].id;
-          }
-        } catch (e) {
-          // Contact not found by email, continue
-        }
-      }
-      
-      if (hubspotContactId) {
-        // Update existing contact
-        await this.client!.crm.contacts.basicApi.update(
-          hubspotContactId,
-          { properties: contactProperties }
-        );
-        console.log(`Updated contact in HubSpot: ${hubspotContactId}`);
-      } else {
-        // Create new contact
-        await this.client!.crm.contacts.basicApi.create({
-          properties: contactProperties,
-          associations: [],
-        });
-        console.log(`Created new contact in HubSpot`);
+    const contactProperties: any = {
+      firstname: this.extractFirstName(contact.name),
+      lastname: this.extractLastName(contact.name),
+      phone: contact.phonenumber,
+      email: contact.email,
+      // Custom properties
+      global_role: contact.global_role,
+      authority_level: contact.authority_level,
+      preferred_channel: contact.preferred_channel,
+      do_not_call: contact.do_not_call ? 'true' : 'false',
+    };
+    
+    // Add external ID if available
+    if (contact.contact_id) {
+      contactProperties.contact_id = contact.contact_id;
+    }
+    
+    // Remove undefined/null values
+    Object.keys(contactProperties).forEach(key => {
+      if (contactProperties[key] === undefined || contactProperties[key] === null) {
+        delete contactProperties[key];
       }
-    } catch (error) {
-      console.error(`Error syncing contact to HubSpot:`, error);
-      throw error;
+    });
+    
+    const existingId = await this.updateExisting(
+      hubspotContactId,
+      () => this.findContactId(contact),
+      id => this.client!.crm.contacts.basicApi.update(id, { properties: contactProperties })
+    );
+    if (existingId) {
+      console.log(`Updated contact in HubSpot: ${existingId}`);
+      return existingId;
     }
+    
+    const created = await this.client!.crm.contacts.basicApi.create({
+      properties: contactProperties,
+      associations: [],
+    });
+    console.log(`Created new contact in HubSpot`);
+    return created.id;
   }
   
   /**
    * Sync project-contact association to HubSpot
-   * Associates a contact with a deal
+   * Associates a contact with a deal (stored IDs, else found by external ID); throws if either
+   * is not in HubSpot yet (so the association is retried after the deal and contact have synced)
    */
   async syncProjectContact(
     projectId: string,
-    contactId: string,
-    roleForProject?: string
+    contact: Contact,
+    ids: { dealId?: string | null; hubspotContactId?: string | null } = {}
   ): Promise<void> {
     if (!this.isEnabled()) {
       console.log('HubSpot sync disabled, skipping project-contact sync');
       return;
     }
     
-    try {
-      // Get HubSpot deal ID by project_id (search by custom property)
-      const dealSearch = await this.client!.crm.deals.searchApi.doSearch({
-        filterGroups: [{
-          filters: [{
-            propertyName: 'project_id',
-            operator: 'EQ',
-            value: projectId,
-          }],
-        }],
-        properties: ['id'],
-        limit: 1,
-        sorts: [],
-        after: 0,
-      });
-      
-      if (!dealSearch.results || dealSearch.results.length === 0) {
-        console.warn(`Deal not found for project_id: ${projectId}`);
-        return;
-      }
-      
-      const dealId = dealSearch.results[0].id;
-      
-      // Get HubSpot contact ID by internal UUID
-      const contact = await this.client!.crm.contacts.basicApi.getById(contactId);
-      
-      // Associate contact with deal using batch API
-      await this.client!.crm.deals.batchApi.create({
-        inputs: [{
-          from: { id: dealId },
-          to: { id: contact.id },
-          type: 'deal_to_contact',
-        }],
-      } as any);
-      
-      console.log(`Associated contact ${contactId} with project ${projectId} in HubSpot`);
-    } catch (error) {
-      console.error(`Error syncing project-contact association to HubSpot:`, error);
-      // Don't throw - association errors are non-critical
+    const dealId = ids.dealId || await this.findDealId(projectId);
+    if (!dealId) {
+      throw new Error(`Deal not found for project_id: ${projectId}`);
+    }
+    const hubspotContactId = ids.hubspotContactId || await this.findContactId(contact);
+    if (!hubspotContactId) {
+      throw new Error(`HubSpot contact not found for contact: ${contact.contact_id ?? contact.id}`);
     }
+    
+    // Default deal-contact association (creating an existing association is a no-op)
+    await this.client!.crm.associations.v4.basicApi.createDefault(
+      'deals',
+      Number(dealId),
+      'contacts',
+      Number(hubspotContactId)
+    );
+    
+    console.log(`Associated contact ${contact.contact_id ?? contact.id} with project ${projectId} in HubSpot`);
   }
   
   /**
    * Sync call session outcome to HubSpot
-   * Creates a note or activity on the deal
+   * Updates the session's note (stored noteId), else creates one on the deal (stored dealId,
+   * else found by external project_id). Returns the note ID (null when sync is disabled).
+   * The full transcript is included (structured turns if given, else the transcript text)
    */
-  async syncCallSession(callSession: CallSession): Promise<void> {
+  async syncCallSession(
+    callSession: CallSession,
+    transcriptTurns: TranscriptTurn[] = [],
+    ids: { dealId?: string | null; noteId?: string | null } = {}
+  ): Promise<string | null> {
     if (!this.isEnabled()) {
       console.log('HubSpot sync disabled, skipping call session sync');
-      return;
+      return null;
     }
     
-    try {
-      // Get HubSpot deal ID by project_id (search by custom property)
-      const dealSearch = await this.client!.crm.deals.searchApi.doSearch({
-        filterGroups: [{
-          filters: [{
-            propertyName: 'project_id',
-            operator: 'EQ',
-            value: callSession.project_id,
-          }],
-        }],
-        properties: ['id'],
-        limit: 1,
-        sorts: [],
-        after: 0,
-      });
-      
-      if (!dealSearch.results || dealSearch.results.length === 0) {
-        console.warn(`Deal not found for project_id: ${callSession.project_id}`);
-        return;
-      }
-      
-      const dealId = dealSearch.results[0].id;
-      
-      // Create a note with call outcome
-      const noteBody = `
+    // Note with call outcome
+    const transcript = transcriptTurns.length > 0
+      ? renderTranscriptText(transcriptTurns)
+      : callSession.transcript;
+    const noteBody = `
 Call Type: ${callSession.call_type}
 Status: ${callSession.call_status}
 Outcome: ${callSession.outcome || 'N/A'}
 Sentiment: ${callSession.sentiment || 'N/A'}
 ${callSession.escalated ? `Escalated: ${callSession.escalation_reason}` : ''}
-${callSession.transcript ? `Transcript: ${callSession.transcript.substring(0, 500)}` : ''}
-      `.trim();
-      
-      await this.client!.crm.objects.notes.basicApi.create({
-        properties: {
-          hs_note_body: noteBody,
-          hs_timestamp: new Date(callSession.started_at || new Date()).getTime().toString(),
-        },
-        associations: [{
-          to: { id: dealId },
-          types: [{
-            associationCategory: 'HUBSPOT_DEFINED',
-            associationTypeId: 214, // Note to Deal association
-          }],
-        }],
-      });
-      
+${transcript ? `Transcript:\n${transcript}` : ''}
+    `.trim().substring(0, NOTE_BODY_MAX_LENGTH);
+    const noteProperties = {
+      hs_note_body: noteBody,
+      hs_timestamp: new Date(callSession.started_at || new Date()).getTime().toString(),
+    };
+    
+    // Notes cannot be searched by call session, so only the stored ID prevents a duplicate
+    const existingId = await this.updateExisting(
+      ids.noteId,
+      async () => null,
+      id => this.client!.crm.objects.notes.basicApi.update(id, { properties: noteProperties })
+    );
+    if (existingId) {
       console.log(`Synced call session to HubSpot: ${callSession.id}`);
-    } catch (error) {
-      console.error(`Error syncing call session to HubSpot:`, error);
-      // Don't throw - sync errors are non-critical
+      return existingId;
+    }
+    
+    const dealId = ids.dealId || await this.findDealId(callSession.project_id);
+    if (!dealId) {
+      throw new Error(`Deal not found for project_id: ${callSession.project_id}`);
     }
+    const note = await this.client!.crm.objects.notes.basicApi.create({
+      properties: noteProperties,
+      associations: [{
+        to: { id: dealId },
+        types: [{
+          associationCategory: 'HUBSPOT_DEFINED' as any,
+          associationTypeId: 214, // Note to Deal association
+        }],
+      }],
+    });
+    
+    console.log(`Synced call session to HubSpot: ${callSession.id}`);
+    return note.id;
   }
   
   /**
    * Sync terminal state to HubSpot
-   * Updates deal/contact properties
+   * Updates deal/contact properties: the project's deal (scope 'project', projectId:
+   * external project_id) or the contact (scope 'contact'), by stored ID if given.
+   * activeReason is the reason of the target's active terminal session, null if it has none
+   * left (e.g. this session expired or was removed): terminal_state is then cleared.
    */
-  async syncTerminalSession(terminalSession: TerminalSession): Promise<void> {
+  async syncTerminalSession(
+    terminalSession: TerminalSession,
+    target: {
+      projectId?: string;
+      contact?: Contact;
+      dealId?: string | null;
+      hubspotContactId?: string | null;
+      activeReason?: string | null;
+    } = {}
+  ): Promise<void> {
     if (!this.isEnabled()) {
       console.log('HubSpot sync disabled, skipping terminal session sync');
       return;
     }
     
-    try {
-      if (terminalSession.scope === 'project' && terminalSession.project_id) {
-        // Find deal by project_id and update with terminal state
-        const dealSearch = await this.client!.crm.deals.searchApi.doSearch({
-          filterGroups: [{
-            filters: [{
-              propertyName: 'project_id',
-              operator: 'EQ',
-              value: terminalSession.project_id,
-            }],
-          }],
-          properties: ['id'],
-          limit: 1,
-          sorts: [],
-          after: 0,
-        });
-        
-        if (dealSearch.results && dealSearch.results.length > 0) {
-          await this.client!.crm.deals.basicApi.update(
-            dealSearch.results[0].id,
-            {
-              properties: {
-                terminal_state: 'true',
-                terminal_reason: terminalSession.reason,
-              },
-            }
-          );
+    const activeReason = target.activeReason === undefined ? terminalSession.reason : target.activeReason;
+    const properties = {
+      terminal_state: activeReason ? 'true' : 'false',
+      terminal_reason: activeReason || '',
+    };
+    
+    if (terminalSession.scope === 'project' && target.projectId) {
+      const dealId = target.dealId || await this.findDealId(target.projectId);
+      if (!dealId) {
+        throw new Error(`Deal not found for project_id: ${target.projectId}`);
+      }
+      await this.client!.crm.deals.basicApi.update(dealId, { properties });
+    } else if (terminalSession.scope === 'contact' && target.contact) {
+      const hubspotContactId = target.hubspotContactId || await this.findContactId(target.contact);
+      if (!hubspotContactId) {
+        throw new Error(`HubSpot contact not found for contact: ${target.contact.contact_id ?? target.contact.id}`);
+      }
+      await this.client!.crm.contacts.basicApi.update(hubspotContactId, { properties });
+    }
+    
+    console.log(`Synced terminal session to HubSpot`);
+  }
+  
+  /**
+   * Helper: Update the object with the stored ID, else the one found by search
+   * A stored ID whose object was deleted in HubSpot (404) falls back to the search.
+   * Returns the updated object's ID, or null if there is none (the caller creates it)
+   */
+  private async updateExisting(
+    storedId: string | null | undefined,
+    find: () => Promise<string | null>,
+    update: (id: string) => Promise<unknown>
+  ): Promise<string | null> {
+    if (storedId) {
+      try {
+        await update(storedId);
+        return storedId;
+      } catch (error: any) {
+        if (error?.code !== 404) {
+          throw error;
         }
-      } else if (terminalSession.scope === 'contact' && terminalSession.contact_id) {
-        // Update contact with terminal state
-        await this.client!.crm.contacts.basicApi.update(
-          terminalSession.contact_id,
-          {
-            properties: {
-              terminal_state: 'true',
-              terminal_reason: terminalSession.reason,
-            },
-          }
-        );
       }
-      
-      console.log(`Synced terminal session to HubSpot`);
-    } catch (error) {
-      console.error(`Error syncing terminal session to HubSpot:`, error);
-      // Don't throw - sync errors are non-critical
     }
+    
+    const foundId = await find();
+    if (foundId) {
+      await update(foundId);
+    }
+    return foundId;
+  }
+  
+  /**
+   * Helper: HubSpot deal ID for a project (search by the project_id custom property)
+   */
+  private async findDealId(projectId: string): Promise<string | null> {
+    const searchResult = await this.client!.crm.deals.searchApi.doSearch({
+      filterGroups: [{
+        filters: [{
+          propertyName: 'project_id',
+          operator: 'EQ' as any,
+          value: projectId,
+        }],
+      }],
+      properties: ['id'],
+      limit: 1,
+      sorts: [],
+      after: '0',
+    } as any);
+    return searchResult.results?.[0]?.id ?? null;
+  }
+  
+  /**
+   * Helper: HubSpot contact ID for a contact (by the contact_id custom property, then email)
+   */
+  private async findContactId(contact: Contact): Promise<string | null> {
+    const searches: [string, string | null | undefined][] = [
+      ['contact_id', contact.contact_id],
+      ['email', contact.email],
+    ];
+    
+    for (const [propertyName, value] of searches) {
+      if (!value) continue;
+      const searchResult = await this.client!.crm.contacts.searchApi.doSearch({
+        filterGroups: [{
+          filters: [{
+            propertyName,
+            operator: 'EQ' as any,
+            value,
+          }],
+        }],
+        properties: ['id'],
+        limit: 1,
+        sorts: [],
+        after: '0',
+      } as any);
+      if (searchResult.results && searchResult.results.length > 0) {
+        return searchResult.results[0].id;
+      }
+    }
+    return null;
   }
   
   /**
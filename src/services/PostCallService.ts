@@ -0,0 +1,148 @@
+import { query } from '../db/connection';
+import { TerminalSession, TerminalSignal, TerminalSignalDetection } from '../types';
+import { createTerminalSignalClassifier, TerminalSignalClassifier } from '../classifiers';
+import { isTerminalCallStatus, TERMINAL_CALL_STATUSES } from '../utils/call-status';
+import { CallSessionService } from './CallSessionService';
+import { CallTranscriptService } from './CallTranscriptService';
+import { TerminalService } from './TerminalService';
+
+export interface PostCallResult {
+  call_session_id: string;
+  detections: TerminalSignalDetection[];
+  terminal_sessions: TerminalSession[]; // Created (or already existing) for detections above the threshold
+}
+
+export interface PostCallFailure {
+  call_session_id: string;
+  error: string;
+}
+
+export interface PostCallBatchResult {
+  processed: PostCallResult[];
+  failed: PostCallFailure[];
+}
+
+/**
+ * Terminal session created for each signal
+ * Detections are heuristic, so every automatic terminal session can be overridden by a human
+ */
+const SIGNAL_SCOPES: Record<TerminalSignal, 'contact' | 'project'> = {
+  opt_out: 'contact',
+  do_not_call: 'contact',
+  wrong_number: 'contact',
+  project_completed: 'project',
+};
+
+/**
+ * PostCallService
+ * Scans finished call sessions for terminal signals and records them as terminal sessions
+ *
+ * - Callee speech (structured transcript turns, else non-agent transcript lines) and the
+ *   outcome are classified by the configured TerminalSignalClassifier
+ * - Detections at or above POST_CALL_MIN_CONFIDENCE (default 0.8) create a contact- or
+ *   project-scoped terminal session with created_by = 'system' and a link to the call
+ * - Idempotent: terminal_id is derived from the call and signal, so re-processing a call
+ *   never creates duplicates
+ * - A failing session does not stop the batch: the error is recorded on the session and it
+ *   is retried after fresh sessions, up to POST_CALL_MAX_ATTEMPTS (default 3) times
+ */
+export class PostCallService {
+  private classifier: TerminalSignalClassifier;
+  private minConfidence: number;
+  private maxAttempts: number;
+  private callSessionService: CallSessionService;
+  private transcriptService: CallTranscriptService;
+  private terminalService: TerminalService;
+
+  constructor(classifier?: TerminalSignalClassifier) {
+    this.classifier = classifier ?? createTerminalSignalClassifier();
+    const minConfidence = parseFloat(process.env.POST_CALL_MIN_CONFIDENCE || '');
+    this.minConfidence = isNaN(minConfidence) ? 0.8 : minConfidence;
+    const maxAttempts = parseInt(process.env.POST_CALL_MAX_ATTEMPTS || '', 10);
+    this.maxAttempts = isNaN(maxAttempts) ? 3 : maxAttempts;
+    this.callSessionService = new CallSessionService();
+    this.transcriptService = new CallTranscriptService();
+    this.terminalService = new TerminalService();
+  }
+
+  /**
+   * Classify one finished call session and create its terminal sessions
+   */
+  async processCallSession(sessionId: string): Promise<PostCallResult> {
+    const session = await this.callSessionService.getCallSessionById(sessionId);
+    if (!session) {
+      throw new Error(`Call session not found: ${sessionId}`);
+    }
+    if (!isTerminalCallStatus(session.call_status)) {
+      throw new Error(`Call conflict: call has not ended (${session.call_status})`);
+    }
+
+    const calleeUtterances = await this.transcriptService.getUtterances(sessionId, session.transcript, 'callee');
+
+    const detections = await this.classifier.classify({
+      outcome: session.outcome,
+      callee_utterances: calleeUtterances,
+    });
+
+    const terminalSessions: TerminalSession[] = [];
+    for (const detection of detections) {
+      if (detection.confidence < this.minConfidence) continue;
+
+      const scope = SIGNAL_SCOPES[detection.signal];
+      if (scope === 'contact' && !session.contact_id) continue;
+
+      terminalSessions.push(await this.terminalService.createTerminalSession({
+        terminal_id: `call:${sessionId}:${detection.signal}`,
+        scope,
+        project_id: scope === 'project' ? session.project_id : undefined,
+        contact_id: scope === 'contact' ? session.contact_id : undefined,
+        reason: detection.signal,
+        created_by: 'system',
+        call_session_id: sessionId,
+        override_allowed: true,
+      }));
+    }
+
+    await query(
+      'UPDATE call_sessions SET post_call_processed_at = NOW() WHERE id = $1',
+      [sessionId]
+    );
+
+    return { call_session_id: sessionId, detections, terminal_sessions: terminalSessions };
+  }
+
+  /**
+   * Process finished call sessions that have not been scanned yet, oldest first
+   * Sessions that failed before come after fresh ones and are skipped once they reach
+   * the attempt limit
+   */
+  async processFinishedSessions(limit: number = 100): Promise<PostCallBatchResult> {
+    const result = await query(
+      `SELECT id FROM call_sessions
+       WHERE post_call_processed_at IS NULL
+         AND call_status = ANY($1)
+         AND post_call_attempts < $2
+       ORDER BY post_call_attempts ASC, started_at ASC
+       LIMIT $3`,
+      [TERMINAL_CALL_STATUSES, this.maxAttempts, limit]
+    );
+
+    const batch: PostCallBatchResult = { processed: [], failed: [] };
+    for (const row of result.rows) {
+      try {
+        batch.processed.push(await this.processCallSession(row.id));
+      } catch (error: any) {
+        const message = error?.message ?? String(error);
+        await query(
+          `UPDATE call_sessions
+           SET post_call_attempts = post_call_attempts + 1, post_call_error = $2
+           WHERE id = $1`,
+          [row.id, message]
+        );
+        batch.failed.push({ call_session_id: row.id, error: message });
+      }
+    }
+
+    return batch;
+  }
+}
@@ -34,7 +34,8 @@ export class ProjectContactService {
         
         const fieldsToUpdate: (keyof ProjectContact)[] = [
           'role_for_project', 'role_confidence', 'est_start_date', 'est_end_date',
-          'role_confirmed', 'preferred_channel_project', 'last_contacted_at', 'suppress_for_project'
+          'role_confirmed', 'preferred_channel_project', 'last_contacted_at', 'suppress_for_project',
+          'next_call_eligible_at', 'callback_at', 'follow_up_reason'
         ];
         
         for (const field of fieldsToUpdate) {
@@ -45,6 +46,16 @@ export class ProjectContactService {
           }
         }
         
+        // Nothing to change: return the association as is
+        if (updateFields.length === 0) {
+          const current = await client.query(
+            'SELECT * FROM project_contacts WHERE project_id = $1 AND contact_id = $2',
+            [projectId, contactId]
+          );
+          await client.query('COMMIT');
+          return this.mapRowToProjectContact(current.rows[0]);
+        }
+        
         values.push(projectId, contactId);
         
         const updateQuery = `
@@ -94,6 +105,113 @@ export class ProjectContactService {
     }
   }
   
+  /**
+   * Check that a project exists; throws 'Project not found'
+   */
+  async resolveProjectId(projectId: string): Promise<string> {
+    const result = await query(
+      'SELECT project_id FROM crm_projects WHERE project_id = $1',
+      [projectId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Project not found');
+    }
+    return result.rows[0].project_id;
+  }
+
+  /**
+   * Resolve a contact reference (external contact_id or internal UUID) to the external
+   * contact_id associations are keyed by; merged contacts resolve to their survivor.
+   * Throws 'Contact not found'
+   */
+  async resolveContactId(contactRef: string): Promise<string> {
+    const result = await query(
+      `SELECT s.contact_id FROM contacts c
+       INNER JOIN contacts s ON s.id = COALESCE(c.merged_into_id, c.id)
+       WHERE c.contact_id = $1 OR c.id::text = $1
+       ORDER BY (c.contact_id = $1) DESC NULLS LAST
+       LIMIT 1`,
+      [contactRef]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Contact not found');
+    }
+    if (!result.rows[0].contact_id) {
+      throw new Error('Contact has no external contact_id');
+    }
+    return result.rows[0].contact_id;
+  }
+
+  /**
+   * Resolve both sides of an association (see resolveProjectId / resolveContactId)
+   */
+  async resolveAssociationIds(
+    projectId: string,
+    contactRef: string
+  ): Promise<{ projectId: string; contactId: string }> {
+    return {
+      projectId: await this.resolveProjectId(projectId),
+      contactId: await this.resolveContactId(contactRef),
+    };
+  }
+
+  /**
+   * Get a single project-contact association
+   */
+  async getProjectContact(projectId: string, contactId: string): Promise<ProjectContact | null> {
+    const result = await query(
+      'SELECT * FROM project_contacts WHERE project_id = $1 AND contact_id = $2',
+      [projectId, contactId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToProjectContact(result.rows[0]);
+  }
+
+  /**
+   * Confirm the contact's role on the project (optionally correcting it)
+   * A confirmed role is no longer an inference: role_confidence is set to 1.
+   */
+  async confirmRole(projectId: string, contactId: string, role?: string): Promise<ProjectContact> {
+    const result = await query(
+      `UPDATE project_contacts
+       SET role_confirmed = true,
+           role_for_project = COALESCE($3, role_for_project),
+           role_confidence = 1
+       WHERE project_id = $1 AND contact_id = $2
+       RETURNING *`,
+      [projectId, contactId, role ?? null]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Project contact not found');
+    }
+
+    return this.mapRowToProjectContact(result.rows[0]);
+  }
+
+  /**
+   * Suppress (or unsuppress) calls to the contact for this project only
+   */
+  async updateProjectSuppression(projectId: string, contactId: string, suppressed: boolean): Promise<ProjectContact> {
+    const result = await query(
+      `UPDATE project_contacts
+       SET suppress_for_project = $3
+       WHERE project_id = $1 AND contact_id = $2
+       RETURNING *`,
+      [projectId, contactId, suppressed]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Project contact not found');
+    }
+
+    return this.mapRowToProjectContact(result.rows[0]);
+  }
+
   /**
    * Get project contacts by project ID
    */
@@ -134,6 +252,9 @@ export class ProjectContactService {
       preferred_channel_project: row.preferred_channel_project,
       last_contacted_at: row.last_contacted_at,
       suppress_for_project: row.suppress_for_project,
+      next_call_eligible_at: row.next_call_eligible_at,
+      callback_at: row.callback_at,
+      follow_up_reason: row.follow_up_reason,
       created_at: row.created_at,
       updated_at: row.updated_at,
     };
@@ -1,5 +1,63 @@
+import { PoolClient } from 'pg';
 import { query, getClient } from '../db/connection';
-import { Project } from '../types';
+import { upsertInChunks } from '../db/batch';
+import { BatchItemResult, CursorPage, Project } from '../types';
+import { parseBudgetBand } from '../utils/budget';
+import { buildKeysetQuery, nextCursor, SortDirection, SortKey } from '../utils/cursor';
+
+export type ProjectSort =
+  | 'name'
+  | 'created_at'
+  | 'updated_at'
+  | 'awarded_date'
+  | 'quotes_due_date'
+  | 'distance'
+  | 'budget'
+  | 'priority_score';
+
+/**
+ * Sort keys for project listing
+ * Missing values sort first, except quotes_due_date and distance (last, so the
+ * most urgent / nearest projects lead an ascending list)
+ */
+const PROJECT_SORT_KEYS: Record<ProjectSort, SortKey> = {
+  name: { expression: 'LOWER(p.name)', type: 'text' },
+  created_at: { expression: "COALESCE(p.created_at, '-infinity'::timestamptz)", type: 'timestamptz' },
+  updated_at: { expression: "COALESCE(p.updated_at, '-infinity'::timestamptz)", type: 'timestamptz' },
+  awarded_date: { expression: "COALESCE(p.awarded_date, '-infinity'::date)", type: 'date' },
+  quotes_due_date: { expression: "COALESCE(p.quotes_due_date, 'infinity'::date)", type: 'date' },
+  distance: { expression: 'COALESCE(p.distance, 99999999.9999)', type: 'numeric' },
+  budget: { expression: 'COALESCE(p.budget_max, -1)', type: 'numeric' },
+  priority_score: { expression: 'COALESCE(p.priority_score, -1)', type: 'numeric' },
+};
+
+export interface ProjectListFilter {
+  q?: string; // free text, matched against name, address and suburb
+  states?: string[];
+  suburb?: string;
+  postcode?: string;
+  categories?: string[];
+  awarded_from?: Date;
+  awarded_to?: Date;
+  quotes_due_from?: Date;
+  quotes_due_to?: Date;
+  max_distance?: number; // km
+  budget_min?: number; // budget band must reach this amount
+  budget_max?: number; // budget band must start at or below this amount
+  call_suppressed?: boolean;
+  has_eligible_contacts?: boolean;
+  sort?: ProjectSort;
+  order?: SortDirection;
+  cursor?: string;
+  limit?: number;
+}
+
+/** Columns an upsert replaces when the field is given (omitted fields keep their value) */
+const PROJECT_UPDATE_FIELDS: (keyof Project)[] = [
+  'name', 'address', 'suburb', 'postcode', 'state', 'category',
+  'awarded_date', 'distance', 'budget', 'quotes_due_date', 'country', 'timezone',
+  'priority_score', 'last_contacted_at', 'next_call_eligible_at', 'call_suppressed'
+];
 
 /**
  * ProjectService
@@ -7,8 +65,8 @@ import { Project } from '../types';
  * 
  * Idempotency Strategy:
  * - Uses external project_id as the unique identifier
- * - All upsert operations check for existing project_id first
- * - If exists, update; if not, insert
+ * - Upserts are INSERT ... ON CONFLICT (project_id) DO UPDATE
+ * - If exists, update the given fields; if not, insert
  * - This ensures the same project data can be ingested multiple times safely
  */
 export class ProjectService {
@@ -21,80 +79,9 @@ export class ProjectService {
     
     try {
       await client.query('BEGIN');
-      
-      // Check if project exists by external project_id
-      const existingResult = await client.query(
-        'SELECT id FROM crm_projects WHERE project_id = $1',
-        [project.project_id]
-      );
-      
-      if (existingResult.rows.length > 0) {
-        // Update existing project
-        const updateFields: string[] = [];
-        const values: any[] = [];
-        let paramIndex = 1;
-        
-        // Build dynamic update query
-        const fieldsToUpdate: (keyof Project)[] = [
-          'name', 'address', 'suburb', 'postcode', 'state', 'category',
-          'awarded_date', 'distance', 'budget', 'quotes_due_date', 'country',
-          'last_contacted_at', 'next_call_eligible_at', 'call_suppressed'
-        ];
-        
-        for (const field of fieldsToUpdate) {
-          if (project[field] !== undefined) {
-            updateFields.push(`${field} = $${paramIndex}`);
-            values.push(project[field]);
-            paramIndex++;
-          }
-        }
-        
-        values.push(project.project_id);
-        
-        const updateQuery = `
-          UPDATE crm_projects
-          SET ${updateFields.join(', ')}
-          WHERE project_id = $${paramIndex}
-          RETURNING *
-        `;
-        
-        const result = await client.query(updateQuery, values);
-        await client.query('COMMIT');
-        return this.mapRowToProject(result.rows[0]);
-      } else {
-        // Insert new project
-        const insertQuery = `
-          INSERT INTO crm_projects (
-            project_id, name, address, suburb, postcode, state, category,
-            awarded_date, distance, budget, quotes_due_date, country,
-            last_contacted_at, next_call_eligible_at, call_suppressed
-          ) VALUES (
-            $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15
-          )
-          RETURNING *
-        `;
-        
-        const result = await client.query(insertQuery, [
-          project.project_id,
-          project.name,
-          project.address || null,
-          project.suburb || null,
-          project.postcode || null,
-          project.state || null,
-          project.category || null,
-          project.awarded_date || null,
-          project.distance ?? null,
-          project.budget || null,
-          project.quotes_due_date || null,
-          project.country || 'AU',
-          project.last_contacted_at || null,
-          project.next_call_eligible_at || null,
-          project.call_suppressed || false,
-        ]);
-        
-        await client.query('COMMIT');
-        return this.mapRowToProject(result.rows[0]);
-      }
+      const { row } = await this.writeProject(client, project);
+      await client.query('COMMIT');
+      return this.mapRowToProject(row);
     } catch (error) {
       await client.query('ROLLBACK');
       throw error;
@@ -103,6 +90,68 @@ export class ProjectService {
     }
   }
   
+  /**
+   * Upsert many projects in chunked transactions (see upsertInChunks)
+   * Returns a result per project, in order; failed projects do not abort the batch
+   */
+  async upsertProjects(projects: Project[]): Promise<BatchItemResult[]> {
+    return upsertInChunks(projects, async (client, project) => {
+      const { row, created } = await this.writeProject(client, project);
+      return { key: row.project_id, id: row.id, created };
+    });
+  }
+  
+  /**
+   * Insert or update a project on the given client
+   */
+  private async writeProject(client: PoolClient, project: Project): Promise<{ row: any; created: boolean }> {
+    // Numeric bounds of the budget band (used by campaign target filters)
+    const budgetBand = parseBudgetBand(project.budget);
+    
+    const updateFields = PROJECT_UPDATE_FIELDS
+      .filter(field => project[field] !== undefined)
+      .map(field => `${field} = EXCLUDED.${field}`);
+    if (project.budget !== undefined) {
+      updateFields.push('budget_min = EXCLUDED.budget_min', 'budget_max = EXCLUDED.budget_max');
+    }
+    
+    // xmax is 0 on a freshly inserted row version
+    const result = await client.query(
+      `INSERT INTO crm_projects (
+         project_id, name, address, suburb, postcode, state, category,
+         awarded_date, distance, budget, budget_min, budget_max, quotes_due_date, country, timezone,
+         priority_score, last_contacted_at, next_call_eligible_at, call_suppressed
+       ) VALUES (
+         $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19
+       )
+       ON CONFLICT (project_id) DO UPDATE SET ${updateFields.join(', ')}
+       RETURNING *, (xmax = 0) AS inserted`,
+      [
+        project.project_id,
+        project.name,
+        project.address || null,
+        project.suburb || null,
+        project.postcode || null,
+        project.state || null,
+        project.category || null,
+        project.awarded_date || null,
+        project.distance ?? null,
+        project.budget || null,
+        budgetBand?.min ?? null,
+        budgetBand?.max ?? null,
+        project.quotes_due_date || null,
+        project.country || 'AU',
+        project.timezone || null,
+        project.priority_score ?? null,
+        project.last_contacted_at || null,
+        project.next_call_eligible_at || null,
+        project.call_suppressed || false,
+      ]
+    );
+    
+    return { row: result.rows[0], created: result.rows[0].inserted };
+  }
+  
   /**
    * Get project by external project_id
    */
@@ -135,6 +184,94 @@ export class ProjectService {
     return this.mapRowToProject(result.rows[0]);
   }
   
+  /**
+   * List projects with filters, sorting and cursor pagination
+   * 
+   * - Text filters are case-insensitive; date ranges are inclusive
+   * - Budget bounds match projects whose budget band overlaps the range
+   * - has_eligible_contacts: at least one linked contact who may be called about the
+   *   project (has a phone number, not do_not_call or suppressed for the project, no
+   *   active contact, project or global terminal session); cooldowns, fatigue and calling windows are not applied,
+   *   see CallEligibilityService for that
+   * - An invalid cursor throws 'Invalid cursor'
+   */
+  async listProjects(filter: ProjectListFilter = {}): Promise<CursorPage<Project>> {
+    const limit = filter.limit ?? 50;
+    const conditions: string[] = [];
+    const values: any[] = [];
+    const param = (value: any) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+    
+    if (filter.q) {
+      const pattern = param(`%${filter.q.replace(/[\\%_]/g, match => `\\${match}`)}%`);
+      conditions.push(`(p.name ILIKE ${pattern} OR p.address ILIKE ${pattern} OR p.suburb ILIKE ${pattern})`);
+    }
+    if (filter.states?.length) {
+      conditions.push(`UPPER(TRIM(p.state)) = ANY(${param(filter.states.map(st => st.trim().toUpperCase()))})`);
+    }
+    if (filter.suburb) conditions.push(`LOWER(TRIM(p.suburb)) = LOWER(TRIM(${param(filter.suburb)}))`);
+    if (filter.postcode) conditions.push(`TRIM(p.postcode) = TRIM(${param(filter.postcode)})`);
+    if (filter.categories?.length) {
+      conditions.push(`LOWER(p.category) = ANY(${param(filter.categories.map(c => c.toLowerCase()))})`);
+    }
+    if (filter.awarded_from) conditions.push(`p.awarded_date >= ${param(filter.awarded_from)}::date`);
+    if (filter.awarded_to) conditions.push(`p.awarded_date <= ${param(filter.awarded_to)}::date`);
+    if (filter.quotes_due_from) conditions.push(`p.quotes_due_date >= ${param(filter.quotes_due_from)}::date`);
+    if (filter.quotes_due_to) conditions.push(`p.quotes_due_date <= ${param(filter.quotes_due_to)}::date`);
+    if (filter.max_distance != null) conditions.push(`p.distance <= ${param(filter.max_distance)}`);
+    if (filter.budget_min != null) conditions.push(`p.budget_max >= ${param(filter.budget_min)}`);
+    if (filter.budget_max != null) conditions.push(`p.budget_min <= ${param(filter.budget_max)}`);
+    if (filter.call_suppressed !== undefined) {
+      conditions.push(`COALESCE(p.call_suppressed, false) = ${param(filter.call_suppressed)}`);
+    }
+    if (filter.has_eligible_contacts !== undefined) {
+      conditions.push(`${filter.has_eligible_contacts ? '' : 'NOT '}EXISTS (
+        SELECT 1
+        FROM project_contacts pc
+        INNER JOIN contacts c ON c.contact_id = pc.contact_id
+        WHERE pc.project_id = p.project_id
+          AND COALESCE(pc.suppress_for_project, false) = false
+          AND COALESCE(c.do_not_call, false) = false
+          AND COALESCE(TRIM(c.phonenumber), '') <> ''
+          AND COALESCE(c.phone_valid, true) = true
+          AND NOT EXISTS (
+            SELECT 1 FROM terminal_sessions ts
+            WHERE (ts.expires_at IS NULL OR ts.expires_at > NOW())
+              AND (
+                ts.scope = 'global'
+                OR (ts.scope = 'contact' AND ts.contact_id = c.id)
+                OR (ts.scope = 'project' AND ts.project_id = p.id AND (ts.contact_id IS NULL OR ts.contact_id = c.id))
+              )
+          )
+      )`);
+    }
+    
+    const keyset = buildKeysetQuery(
+      PROJECT_SORT_KEYS[filter.sort ?? 'name'],
+      'p.id',
+      filter.order ?? 'asc',
+      filter.cursor,
+      param
+    );
+    if (keyset.condition) conditions.push(keyset.condition);
+    
+    const result = await query(
+      `SELECT p.*, ${keyset.select}
+       FROM crm_projects p
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY ${keyset.orderBy}
+       LIMIT ${param(limit + 1)}`,
+      values
+    );
+    
+    return {
+      items: result.rows.slice(0, limit).map(row => this.mapRowToProject(row)),
+      next_cursor: nextCursor(result.rows, limit),
+    };
+  }
+  
   /**
    * Update call suppression status
    */
@@ -181,8 +318,12 @@ export class ProjectService {
       awarded_date: row.awarded_date,
       distance: row.distance != null ? parseFloat(row.distance) : undefined,
       budget: row.budget,
+      budget_min: row.budget_min != null ? parseFloat(row.budget_min) : undefined,
+      budget_max: row.budget_max != null ? parseFloat(row.budget_max) : undefined,
       quotes_due_date: row.quotes_due_date,
       country: row.country,
+      timezone: row.timezone,
+      priority_score: row.priority_score != null ? parseFloat(row.priority_score) : undefined,
       last_contacted_at: row.last_contacted_at,
       next_call_eligible_at: row.next_call_eligible_at,
       call_suppressed: row.call_suppressed,
@@ -0,0 +1,105 @@
+import { query, outsideDryRun } from '../db/connection';
+import { DiffTable, FieldChange, ImportFormat, ImportReport, RecordDiff } from '../types';
+
+/** Table each HubSpot export format is imported into */
+export const IMPORT_FORMAT_TABLES: Record<ImportFormat, DiffTable> = {
+  projects: 'crm_projects',
+  contacts: 'contacts',
+  records: 'project_contacts',
+};
+
+/** Columns left out of diffs: identity and bookkeeping timestamps */
+const IGNORED_FIELDS = new Set(['id', 'created_at', 'updated_at']);
+
+/** One CSV line per changed field (or per record without changes) */
+export interface DiffCsvRow {
+  source: string; // Import file name / format, or project_details
+  row?: number;
+  table: DiffTable;
+  key?: string;
+  status: string;
+  field?: string;
+  current?: string;
+  new?: string;
+  message?: string;
+}
+
+export const DIFF_CSV_COLUMNS: (keyof DiffCsvRow)[] = [
+  'source', 'row', 'table', 'key', 'status', 'field', 'current', 'new', 'message',
+];
+
+/**
+ * RecordDiffService
+ * Field-level diffs of records written in a dry run (see withDryRun) against the
+ * committed rows
+ */
+export class RecordDiffService {
+  /**
+   * Diff a row written in the current dry run against its committed version
+   * (created if it has none, unchanged if no compared column differs)
+   */
+  async diffRecord(table: DiffTable, id: string, key: string): Promise<RecordDiff> {
+    const sql = `SELECT * FROM ${table} WHERE id = $1`;
+    const written = (await query(sql, [id])).rows[0] ?? {};
+    const current = (await outsideDryRun(() => query(sql, [id]))).rows[0];
+
+    const changes: FieldChange[] = [];
+    for (const field of Object.keys(written)) {
+      if (IGNORED_FIELDS.has(field)) continue;
+      const before = current ? current[field] ?? null : null;
+      const after = written[field] ?? null;
+      if (current ? comparable(before) !== comparable(after) : after !== null) {
+        changes.push({ field, current: before, new: after });
+      }
+    }
+
+    return {
+      table,
+      key,
+      status: !current ? 'created' : changes.length > 0 ? 'updated' : 'unchanged',
+      changes,
+    };
+  }
+}
+
+/**
+ * Flatten import reports into diff CSV rows
+ */
+export function importReportDiffRows(reports: ImportReport[]): DiffCsvRow[] {
+  return reports.flatMap(report => report.rows.flatMap(row => {
+    const base = {
+      source: report.file ?? report.format,
+      row: row.row,
+      table: IMPORT_FORMAT_TABLES[report.format],
+      key: row.key,
+      status: row.status,
+      message: row.message,
+    };
+    return row.changes?.length ? row.changes.map(change => ({ ...base, ...changeColumns(change) })) : [base];
+  }));
+}
+
+/**
+ * Flatten record diffs into diff CSV rows
+ */
+export function recordDiffRows(diffs: RecordDiff[], source: string): DiffCsvRow[] {
+  return diffs.flatMap(diff => {
+    const base = { source, table: diff.table, key: diff.key, status: diff.status };
+    return diff.changes.length ? diff.changes.map(change => ({ ...base, ...changeColumns(change) })) : [base];
+  });
+}
+
+function changeColumns(change: FieldChange): Pick<DiffCsvRow, 'field' | 'current' | 'new'> {
+  return { field: change.field, current: csvValue(change.current), new: csvValue(change.new) };
+}
+
+function csvValue(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/** Value for equality checks (dates by instant, JSON by content) */
+function comparable(value: unknown): string {
+  return csvValue(value) ?? 'null';
+}
@@ -0,0 +1,184 @@
+import { query } from '../db/connection';
+import {
+  CallReportGroup,
+  CallReportQuery,
+  CallReportRow,
+  CallStatus,
+  OutcomeReportRow,
+  ReportDimension,
+} from '../types';
+
+/** Statuses of calls answered by a person */
+const CONNECTED_CALL_STATUSES: CallStatus[] = ['in_progress', 'completed'];
+
+/** Placeholder for the report timezone parameter in dimension expressions */
+const TIMEZONE_PARAM = ':timezone';
+
+/**
+ * SQL per grouping dimension (output column -> expression)
+ */
+const DIMENSION_COLUMNS: Record<ReportDimension, Partial<Record<keyof CallReportGroup, string>>> = {
+  day: { day: `to_char(date_trunc('day', cs.started_at AT TIME ZONE ${TIMEZONE_PARAM}), 'YYYY-MM-DD')` },
+  week: { week: `to_char(date_trunc('week', cs.started_at AT TIME ZONE ${TIMEZONE_PARAM}), 'YYYY-MM-DD')` },
+  category: { category: 'p.category' },
+  state: { state: 'UPPER(TRIM(p.state))' },
+  call_type: { call_type: 'cs.call_type' },
+  campaign: { campaign_id: 'cs.campaign_id', campaign_name: 'camp.name' },
+};
+
+/**
+ * Output columns of the grouping dimensions, in group_by order
+ */
+export function reportGroupColumns(groupBy: ReportDimension[]): (keyof CallReportGroup)[] {
+  return groupBy.flatMap(dimension => Object.keys(DIMENSION_COLUMNS[dimension]) as (keyof CallReportGroup)[]);
+}
+
+/**
+ * ReportService
+ * Call analytics over call_sessions
+ *
+ * - Calls are selected by started_at in [from, to) and optional filters
+ * - Rows are grouped by any of day/week (in the report timezone), project category,
+ *   state, call_type and campaign; with no grouping a single total row is returned
+ * - Connected = answered by a person (reached in_progress); durations use
+ *   started_at/ended_at of ended calls
+ */
+export class ReportService {
+  /**
+   * Connect rate, duration, escalations, calls per contact and sentiment per group
+   */
+  async getCallReport(options: CallReportQuery): Promise<CallReportRow[]> {
+    const { select, groupBy, where, values } = this.buildQuery(options);
+    values.push(CONNECTED_CALL_STATUSES);
+    const connectedParam = `$${values.length}`;
+
+    const result = await query(
+      `SELECT
+         ${select.map(column => `${column},`).join('\n         ')}
+         COUNT(*) AS total_calls,
+         COUNT(*) FILTER (WHERE cs.call_status = ANY(${connectedParam})) AS connected_calls,
+         AVG(EXTRACT(EPOCH FROM (cs.ended_at - cs.started_at))) FILTER (WHERE cs.ended_at IS NOT NULL) AS avg_duration_seconds,
+         COUNT(*) FILTER (WHERE cs.escalated = true) AS escalated_calls,
+         COUNT(DISTINCT cs.contact_id) AS unique_contacts,
+         COUNT(cs.contact_id) AS contact_calls,
+         COUNT(*) FILTER (WHERE cs.sentiment = 'positive') AS positive_calls,
+         COUNT(*) FILTER (WHERE cs.sentiment = 'neutral') AS neutral_calls,
+         COUNT(*) FILTER (WHERE cs.sentiment = 'negative') AS negative_calls
+       FROM call_sessions cs
+       INNER JOIN crm_projects p ON p.id = cs.project_id
+       LEFT JOIN campaigns camp ON camp.id = cs.campaign_id
+       WHERE ${where.join(' AND ')}
+       ${groupBy.length > 0 ? `GROUP BY ${groupBy.join(', ')}` : ''}
+       ${groupBy.length > 0 ? `ORDER BY ${groupBy.join(', ')}` : ''}`,
+      values
+    );
+
+    return result.rows.map(row => {
+      const totalCalls = parseInt(row.total_calls);
+      const uniqueContacts = parseInt(row.unique_contacts);
+      return {
+        ...this.mapRowToGroup(row, options.group_by),
+        total_calls: totalCalls,
+        connected_calls: parseInt(row.connected_calls),
+        connect_rate: this.ratio(parseInt(row.connected_calls), totalCalls),
+        avg_duration_seconds: row.avg_duration_seconds != null
+          ? Math.round(parseFloat(row.avg_duration_seconds) * 10) / 10
+          : null,
+        escalated_calls: parseInt(row.escalated_calls),
+        escalation_rate: this.ratio(parseInt(row.escalated_calls), totalCalls),
+        unique_contacts: uniqueContacts,
+        calls_per_contact: uniqueContacts > 0
+          ? Math.round((parseInt(row.contact_calls) / uniqueContacts) * 100) / 100
+          : null,
+        positive_calls: parseInt(row.positive_calls),
+        neutral_calls: parseInt(row.neutral_calls),
+        negative_calls: parseInt(row.negative_calls),
+      };
+    });
+  }
+
+  /**
+   * Outcome distribution per group (outcome, or call_status when none was recorded)
+   */
+  async getOutcomeReport(options: CallReportQuery): Promise<OutcomeReportRow[]> {
+    const { select, groupBy, where, values } = this.buildQuery(options);
+    const groupColumns = reportGroupColumns(options.group_by);
+    const partition = groupColumns.length > 0 ? `PARTITION BY ${groupColumns.join(', ')}` : '';
+
+    const result = await query(
+      `SELECT *, SUM(calls) OVER (${partition}) AS group_calls
+       FROM (
+         SELECT
+           ${select.map(column => `${column},`).join('\n           ')}
+           COALESCE(cs.outcome, cs.call_status) AS outcome,
+           COUNT(*) AS calls
+         FROM call_sessions cs
+         INNER JOIN crm_projects p ON p.id = cs.project_id
+         LEFT JOIN campaigns camp ON camp.id = cs.campaign_id
+         WHERE ${where.join(' AND ')}
+         GROUP BY ${[...groupBy, 'COALESCE(cs.outcome, cs.call_status)'].join(', ')}
+       ) outcomes
+       ORDER BY ${[...groupColumns, 'calls DESC', 'outcome'].join(', ')}`,
+      values
+    );
+
+    return result.rows.map(row => ({
+      ...this.mapRowToGroup(row, options.group_by),
+      outcome: row.outcome,
+      calls: parseInt(row.calls),
+      share: this.ratio(parseInt(row.calls), parseInt(row.group_calls)),
+    }));
+  }
+
+  /**
+   * Grouping columns, GROUP BY expressions and filters shared by the reports
+   */
+  private buildQuery(options: CallReportQuery): {
+    select: string[];
+    groupBy: string[];
+    where: string[];
+    values: any[];
+  } {
+    const values: any[] = [options.from, options.to];
+    const where = ['cs.started_at >= $1', 'cs.started_at < $2'];
+    const param = (value: any) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    if (options.call_type) where.push(`cs.call_type = ${param(options.call_type)}`);
+    if (options.campaign_id) where.push(`cs.campaign_id = ${param(options.campaign_id)}`);
+    if (options.category) where.push(`LOWER(p.category) = LOWER(${param(options.category)})`);
+    if (options.state) where.push(`UPPER(TRIM(p.state)) = UPPER(TRIM(${param(options.state)}))`);
+
+    // Day/week buckets are local dates in the report timezone
+    let timezoneParam: string | null = null;
+    const select: string[] = [];
+    const groupBy: string[] = [];
+    for (const dimension of options.group_by) {
+      for (const [column, template] of Object.entries(DIMENSION_COLUMNS[dimension])) {
+        let expression = template!;
+        if (expression.includes(TIMEZONE_PARAM)) {
+          timezoneParam ??= param(options.timezone);
+          expression = expression.replace(TIMEZONE_PARAM, timezoneParam);
+        }
+        select.push(`${expression} AS ${column}`);
+        groupBy.push(expression);
+      }
+    }
+
+    return { select, groupBy, where, values };
+  }
+
+  private mapRowToGroup(row: any, groupBy: ReportDimension[]): CallReportGroup {
+    const group: CallReportGroup = {};
+    for (const column of reportGroupColumns(groupBy)) {
+      group[column] = row[column];
+    }
+    return group;
+  }
+
+  private ratio(count: number, total: number): number {
+    return total > 0 ? Math.round((count / total) * 10000) / 10000 : 0;
+  }
+}
@@ -0,0 +1,474 @@
+import dotenv from 'dotenv';
+import { query } from '../db/connection';
+import { SyncEntityType, SyncJob, SyncJobStatus, SyncRunResult } from '../types';
+import { isTerminalCallStatus } from '../utils/call-status';
+import { HubSpotSyncService } from './HubSpotSyncService';
+import { ProjectService } from './ProjectService';
+import { ContactService } from './ContactService';
+import { CallSessionService } from './CallSessionService';
+import { CallTranscriptService } from './CallTranscriptService';
+import { TerminalService } from './TerminalService';
+
+dotenv.config();
+
+/**
+ * Retry policy
+ * - SYNC_MAX_ATTEMPTS (default 8): failed attempts before a job is dead-lettered
+ * - SYNC_RETRY_BASE_SECONDS (default 30): delay after the first failure, doubled per attempt
+ * - SYNC_RETRY_MAX_SECONDS (default 21600): maximum delay between attempts
+ * - SYNC_LOCK_SECONDS (default 300): a claimed job not finished by then may be claimed again
+ * - SYNC_RATE_LIMIT_SECONDS (default 10): wait after a HubSpot 429 without Retry-After
+ */
+function loadSetting(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) || value <= 0 ? fallback : value;
+}
+
+export interface SyncJobFilter {
+  status?: SyncJobStatus[]; // default: all
+  entity_type?: SyncEntityType;
+  entity_id?: string;
+  limit?: number;
+}
+
+/**
+ * Column storing the HubSpot object a synced row was pushed to (see 023_hubspot_object_ids)
+ */
+const HUBSPOT_ID_COLUMNS = {
+  crm_projects: 'hubspot_deal_id',
+  contacts: 'hubspot_contact_id',
+  call_sessions: 'hubspot_note_id',
+} as const;
+
+type HubSpotSyncedTable = keyof typeof HUBSPOT_ID_COLUMNS;
+
+/**
+ * HubSpot rate limit (429) error: the job is not at fault, so the attempt is not counted
+ */
+function rateLimitDelaySeconds(error: any, fallback: number): number | null {
+  if (error?.code !== 429) {
+    return null;
+  }
+  const retryAfter = parseInt(error.headers?.['retry-after'] ?? '', 10);
+  return isNaN(retryAfter) || retryAfter <= 0 ? fallback : retryAfter;
+}
+
+/**
+ * SyncJobService
+ * Outbox of HubSpot sync jobs
+ *
+ * - Writes to crm_projects, contacts, project_contacts, call_sessions and terminal_sessions
+ *   enqueue a job in the same transaction (triggers, see 019_hubspot_sync_outbox), so no
+ *   committed write is left unsynced and rolled-back writes are never synced; writes that
+ *   only touch bookkeeping columns (updated_at, stored HubSpot IDs, post-call scan state)
+ *   enqueue nothing, and rows written before the outbox existed are synced on their next write
+ * - The HubSpot object ID of each synced project, contact and call note is stored on the row,
+ *   so a re-sync updates that object rather than relying on (lagging) HubSpot search
+ * - One active (pending/processing) job per entity; a write while the job is processing
+ *   sets resync_requested, and the entity is synced once more afterwards
+ * - Workers claim due jobs with SKIP LOCKED; a failed attempt is retried with exponential
+ *   backoff and dead-lettered after SYNC_MAX_ATTEMPTS; dead jobs can be retried manually
+ * - A HubSpot 429 puts the job back without counting the attempt and pauses the worker
+ *   until the Retry-After time
+ */
+export class SyncJobService {
+  private hubSpotSyncService: HubSpotSyncService;
+  private projectService: ProjectService;
+  private contactService: ContactService;
+  private callSessionService: CallSessionService;
+  private callTranscriptService: CallTranscriptService;
+  private terminalService: TerminalService;
+  private maxAttempts: number;
+  private retryBaseSeconds: number;
+  private retryMaxSeconds: number;
+  private lockSeconds: number;
+  private rateLimitSeconds: number;
+
+  constructor() {
+    this.hubSpotSyncService = new HubSpotSyncService();
+    this.projectService = new ProjectService();
+    this.contactService = new ContactService();
+    this.callSessionService = new CallSessionService();
+    this.callTranscriptService = new CallTranscriptService();
+    this.terminalService = new TerminalService();
+    this.maxAttempts = loadSetting('SYNC_MAX_ATTEMPTS', 8);
+    this.retryBaseSeconds = loadSetting('SYNC_RETRY_BASE_SECONDS', 30);
+    this.retryMaxSeconds = loadSetting('SYNC_RETRY_MAX_SECONDS', 21600);
+    this.lockSeconds = loadSetting('SYNC_LOCK_SECONDS', 300);
+    this.rateLimitSeconds = loadSetting('SYNC_RATE_LIMIT_SECONDS', 10);
+  }
+
+  /**
+   * Whether jobs can be processed (HubSpot configured); jobs stay queued otherwise
+   */
+  isEnabled(): boolean {
+    return this.hubSpotSyncService.isEnabled();
+  }
+
+  /**
+   * List sync jobs, next due first
+   */
+  async listJobs(filter: SyncJobFilter = {}): Promise<SyncJob[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filter.status?.length) {
+      values.push(filter.status);
+      conditions.push(`status = ANY($${values.length})`);
+    }
+    if (filter.entity_type) {
+      values.push(filter.entity_type);
+      conditions.push(`entity_type = $${values.length}`);
+    }
+    if (filter.entity_id) {
+      values.push(filter.entity_id);
+      conditions.push(`entity_id = $${values.length}`);
+    }
+
+    values.push(filter.limit ?? 100);
+    const result = await query(
+      `SELECT * FROM sync_jobs
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY next_attempt_at ASC, created_at ASC
+       LIMIT $${values.length}`,
+      values
+    );
+
+    return result.rows.map(row => this.mapRowToSyncJob(row));
+  }
+
+  /**
+   * Get sync job by ID
+   */
+  async getJobById(id: string): Promise<SyncJob | null> {
+    const result = await query('SELECT * FROM sync_jobs WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToSyncJob(result.rows[0]);
+  }
+
+  /**
+   * Number of jobs per status (all statuses, zero if none)
+   */
+  async getStatusCounts(): Promise<Record<SyncJobStatus, number>> {
+    const result = await query('SELECT status, COUNT(*)::int AS count FROM sync_jobs GROUP BY status');
+    const counts: Record<SyncJobStatus, number> = { pending: 0, processing: 0, succeeded: 0, dead: 0 };
+    for (const row of result.rows) {
+      counts[row.status as SyncJobStatus] = row.count;
+    }
+    return counts;
+  }
+
+  /**
+   * Retry a dead (or waiting pending) job now, with a fresh set of attempts
+   */
+  async retryJob(id: string): Promise<SyncJob> {
+    try {
+      const result = await query(
+        `UPDATE sync_jobs
+         SET status = 'pending', attempts = 0, next_attempt_at = NOW(), completed_at = NULL,
+             locked_by = NULL, locked_until = NULL
+         WHERE id = $1 AND status IN ('dead', 'pending')
+         RETURNING *`,
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        const existing = await this.getJobById(id);
+        if (!existing) {
+          throw new Error(`Sync job not found: ${id}`);
+        }
+        throw new Error(`Sync job conflict: cannot retry a ${existing.status} job`);
+      }
+
+      return this.mapRowToSyncJob(result.rows[0]);
+    } catch (error: any) {
+      if (error.code === '23505') {
+        throw new Error('Sync job conflict: the entity already has an active sync job');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Retry all dead jobs (latest per entity; entities with an active job are covered by it)
+   * Returns the number of jobs requeued
+   */
+  async retryDeadJobs(entityType?: SyncEntityType): Promise<number> {
+    const result = await query(
+      `UPDATE sync_jobs
+       SET status = 'pending', attempts = 0, next_attempt_at = NOW(), completed_at = NULL
+       WHERE id IN (
+         SELECT DISTINCT ON (d.entity_type, d.entity_id) d.id
+         FROM sync_jobs d
+         WHERE d.status = 'dead'
+           AND ($1::varchar IS NULL OR d.entity_type = $1)
+           AND NOT EXISTS (
+             SELECT 1 FROM sync_jobs a
+             WHERE a.entity_type = d.entity_type AND a.entity_id = d.entity_id
+               AND a.status IN ('pending', 'processing')
+           )
+         ORDER BY d.entity_type, d.entity_id, d.created_at DESC
+       )`,
+      [entityType ?? null]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Claim due jobs for a worker (including processing jobs whose lock expired)
+   * Each claim counts as an attempt.
+   */
+  async claimJobs(workerId: string, limit: number): Promise<SyncJob[]> {
+    const result = await query(
+      `UPDATE sync_jobs
+       SET status = 'processing', locked_by = $1, locked_until = NOW() + make_interval(secs => $2),
+           attempts = attempts + 1, last_attempt_at = NOW(), resync_requested = false
+       WHERE id IN (
+         SELECT id FROM sync_jobs
+         WHERE (status = 'pending' AND next_attempt_at <= NOW())
+            OR (status = 'processing' AND locked_until < NOW())
+         ORDER BY next_attempt_at ASC
+         LIMIT $3
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [workerId, this.lockSeconds, limit]
+    );
+
+    return result.rows
+      .map(row => this.mapRowToSyncJob(row))
+      .sort((a, b) => a.next_attempt_at.getTime() - b.next_attempt_at.getTime());
+  }
+
+  /**
+   * Claim and process a batch of due jobs
+   * Stops at a HubSpot rate limit: the remaining claimed jobs are put back unattempted
+   */
+  async processJobs(workerId: string, limit: number): Promise<SyncRunResult> {
+    const jobs = await this.claimJobs(workerId, limit);
+    const result: SyncRunResult = { claimed: jobs.length, succeeded: 0, retried: 0, dead: 0 };
+
+    for (let i = 0; i < jobs.length; i++) {
+      const job = jobs[i];
+      try {
+        await this.syncEntity(job);
+        await this.completeJob(job);
+        result.succeeded++;
+      } catch (error: any) {
+        const delaySeconds = rateLimitDelaySeconds(error, this.rateLimitSeconds);
+        if (delaySeconds !== null) {
+          const until = new Date(Date.now() + delaySeconds * 1000);
+          await this.releaseJobs(jobs.slice(i), until, error);
+          result.rate_limited_until = until;
+          break;
+        }
+
+        if (await this.failJob(job, error)) {
+          result.dead++;
+        } else {
+          result.retried++;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Push the job's entity to HubSpot
+   * Entities that are gone, merged away or not ready (calls still in progress) are skipped;
+   * their next write enqueues a new job
+   */
+  private async syncEntity(job: SyncJob): Promise<void> {
+    switch (job.entity_type) {
+      case 'project': {
+        const project = await this.projectService.getProjectById(job.entity_id);
+        if (project) {
+          const dealId = await this.getHubSpotId('crm_projects', project.id!);
+          const syncedId = await this.hubSpotSyncService.syncProject(project, dealId);
+          await this.saveHubSpotId('crm_projects', project.id!, syncedId);
+        }
+        return;
+      }
+      case 'contact': {
+        const contact = await this.contactService.getContactById(job.entity_id);
+        if (contact && !contact.merged_into_id) {
+          const hubspotContactId = await this.getHubSpotId('contacts', contact.id!);
+          const syncedId = await this.hubSpotSyncService.syncContact(contact, hubspotContactId);
+          await this.saveHubSpotId('contacts', contact.id!, syncedId);
+        }
+        return;
+      }
+      case 'project_contact': {
+        const row = (await query(
+          `SELECT pc.project_id, pc.contact_id, p.hubspot_deal_id
+           FROM project_contacts pc
+           LEFT JOIN crm_projects p ON p.project_id = pc.project_id
+           WHERE pc.id = $1`,
+          [job.entity_id]
+        )).rows[0];
+        const contact = row ? await this.contactService.getContactByExternalId(row.contact_id) : null;
+        if (contact) {
+          await this.hubSpotSyncService.syncProjectContact(row.project_id, contact, {
+            dealId: row.hubspot_deal_id,
+            hubspotContactId: await this.getHubSpotId('contacts', contact.id!),
+          });
+        }
+        return;
+      }
+      case 'call_session': {
+        const session = await this.callSessionService.getCallSessionById(job.entity_id);
+        if (session && isTerminalCallStatus(session.call_status)) {
+          const turns = await this.callTranscriptService.getTurns(session.id!);
+          const ids = (await query(
+            `SELECT cs.hubspot_note_id, p.hubspot_deal_id
+             FROM call_sessions cs
+             INNER JOIN crm_projects p ON p.id = cs.project_id
+             WHERE cs.id = $1`,
+            [session.id]
+          )).rows[0];
+          const noteId = await this.hubSpotSyncService.syncCallSession(session, turns, {
+            dealId: ids?.hubspot_deal_id,
+            noteId: ids?.hubspot_note_id,
+          });
+          await this.saveHubSpotId('call_sessions', session.id!, noteId);
+        }
+        return;
+      }
+      case 'terminal_session': {
+        const terminal = await this.terminalService.getTerminalSessionById(job.entity_id);
+        if (!terminal) {
+          return;
+        }
+        const project = terminal.project_id ? await this.projectService.getProjectById(terminal.project_id) : null;
+        const contact = terminal.contact_id ? await this.contactService.getContactById(terminal.contact_id) : null;
+        // The target's terminal state as a whole: this session may have expired or been
+        // removed while another one is still active
+        const resourceId = terminal.scope === 'project' ? terminal.project_id : terminal.contact_id;
+        const active = terminal.scope !== 'global' && resourceId
+          ? await this.terminalService.hasActiveTerminalSession(terminal.scope, resourceId)
+          : { hasTerminal: false };
+        await this.hubSpotSyncService.syncTerminalSession(terminal, {
+          projectId: project?.project_id,
+          contact: contact ?? undefined,
+          dealId: project ? await this.getHubSpotId('crm_projects', project.id!) : null,
+          hubspotContactId: contact ? await this.getHubSpotId('contacts', contact.id!) : null,
+          activeReason: active.hasTerminal ? active.reason ?? terminal.reason : null,
+        });
+        return;
+      }
+    }
+  }
+
+  /**
+   * HubSpot object ID stored on a synced row (null if it has not been synced yet)
+   */
+  private async getHubSpotId(table: HubSpotSyncedTable, id: string): Promise<string | null> {
+    const result = await query(`SELECT ${HUBSPOT_ID_COLUMNS[table]} AS object_id FROM ${table} WHERE id = $1`, [id]);
+    return result.rows[0]?.object_id ?? null;
+  }
+
+  /**
+   * Store the HubSpot object ID a row was synced to (the sync triggers ignore this column,
+   * so it does not enqueue another job)
+   */
+  private async saveHubSpotId(table: HubSpotSyncedTable, id: string, objectId: string | null): Promise<void> {
+    if (!objectId) {
+      return;
+    }
+    const column = HUBSPOT_ID_COLUMNS[table];
+    await query(
+      `UPDATE ${table} SET ${column} = $2 WHERE id = $1 AND ${column} IS DISTINCT FROM $2`,
+      [id, objectId]
+    );
+  }
+
+  /**
+   * Mark a job succeeded, or requeue it if its entity was written while it was processing
+   */
+  private async completeJob(job: SyncJob): Promise<void> {
+    await query(
+      `UPDATE sync_jobs
+       SET status = CASE WHEN resync_requested THEN 'pending' ELSE 'succeeded' END,
+           attempts = CASE WHEN resync_requested THEN 0 ELSE attempts END,
+           next_attempt_at = NOW(),
+           completed_at = CASE WHEN resync_requested THEN NULL ELSE NOW() END,
+           resync_requested = false, locked_by = NULL, locked_until = NULL, last_error = NULL
+       WHERE id = $1 AND locked_by = $2`,
+      [job.id, job.locked_by]
+    );
+  }
+
+  /**
+   * Schedule a failed job's next attempt with exponential backoff, or dead-letter it
+   * after the last attempt (a write while processing still gets a fresh set of attempts)
+   * Returns whether the job is dead
+   */
+  private async failJob(job: SyncJob, error: any): Promise<boolean> {
+    const dead = job.attempts >= this.maxAttempts;
+    const delaySeconds = Math.min(this.retryBaseSeconds * 2 ** (job.attempts - 1), this.retryMaxSeconds);
+    const result = await query(
+      `UPDATE sync_jobs
+       SET status = CASE WHEN $2 AND NOT resync_requested THEN 'dead' ELSE 'pending' END,
+           attempts = CASE WHEN $2 AND resync_requested THEN 0 ELSE attempts END,
+           next_attempt_at = CASE WHEN $2 AND resync_requested THEN NOW()
+                                  ELSE NOW() + make_interval(secs => $3) END,
+           completed_at = CASE WHEN $2 AND NOT resync_requested THEN NOW() ELSE NULL END,
+           resync_requested = false, locked_by = NULL, locked_until = NULL, last_error = $4
+       WHERE id = $1 AND locked_by = $5
+       RETURNING status`,
+      [job.id, dead, delaySeconds, errorMessage(error), job.locked_by]
+    );
+
+    if (result.rows[0]?.status === 'dead') {
+      console.error(`Sync job ${job.id} (${job.entity_type} ${job.entity_id}) dead after ${job.attempts} attempts:`, errorMessage(error));
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Put claimed jobs back on the queue until a time, without counting the attempt
+   */
+  private async releaseJobs(jobs: SyncJob[], until: Date, error: any): Promise<void> {
+    await query(
+      `UPDATE sync_jobs
+       SET status = 'pending', attempts = GREATEST(attempts - 1, 0), next_attempt_at = $2,
+           locked_by = NULL, locked_until = NULL, last_error = $3
+       WHERE id = ANY($1) AND locked_by = $4`,
+      [jobs.map(job => job.id), until, errorMessage(error), jobs[0].locked_by]
+    );
+  }
+
+  /**
+   * Map database row to SyncJob type
+   */
+  private mapRowToSyncJob(row: any): SyncJob {
+    return {
+      id: row.id,
+      entity_type: row.entity_type,
+      entity_id: row.entity_id,
+      status: row.status,
+      attempts: row.attempts,
+      next_attempt_at: row.next_attempt_at,
+      resync_requested: row.resync_requested,
+      locked_by: row.locked_by,
+      locked_until: row.locked_until,
+      last_attempt_at: row.last_attempt_at,
+      last_error: row.last_error,
+      completed_at: row.completed_at,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
+
+function errorMessage(error: any): string {
+  const message = error?.message || String(error);
+  return error?.code && typeof error.code === 'number' ? `HubSpot ${error.code}: ${message}` : message;
+}
@@ -0,0 +1,295 @@
+import { query } from '../db/connection';
+import { CallSession, CallSessionEventContext, CallStatus, TelephonyStatusEvent } from '../types';
+import { createTelephonyProvider, TelephonyProvider, TelephonyWebhookContext } from '../telephony';
+import { callStatusPath, isTerminalCallStatus } from '../utils/call-status';
+import { CallSessionService } from './CallSessionService';
+import { CallEligibilityService } from './CallEligibilityService';
+import { CampaignService } from './CampaignService';
+import { CallTranscriptService } from './CallTranscriptService';
+import { PostCallService } from './PostCallService';
+
+export interface PlaceCallInput {
+  project_id: string; // External project_id
+  contact_id: string; // Internal UUID or external contact_id
+  call_type?: CallSession['call_type'];
+  campaign_id?: string;
+  worker_id?: string; // Holder of the dialer lease, if the call was claimed
+  metadata?: Record<string, string>; // Passed to the provider (simulator: simulated_result)
+}
+
+/**
+ * Progress order used to ignore stale (out-of-order) status events
+ */
+const STATUS_RANK: Record<CallStatus, number> = {
+  queued: 0,
+  dialing: 1,
+  ringing: 2,
+  in_progress: 3,
+  completed: 4,
+  no_answer: 4,
+  busy: 4,
+  voicemail: 4,
+  failed: 4,
+  canceled: 4,
+};
+
+/**
+ * TelephonyService
+ * Runs the call loop: eligible call -> placed call -> status events -> closed CallSession
+ *
+ * - placeCall re-checks eligibility, records a 'queued' session and asks the provider to dial
+ *   (the session moves to 'dialing' once the provider accepts the call)
+ * - Status events (pushed by the provider or received as webhooks) update the session;
+ *   terminal events close it (ended_at, outcome) and release the pair's dialer lease.
+ *   Events that arrive before the dial has returned (and its provider_call_id is saved)
+ *   are applied once the calls being placed in this process have saved their call IDs
+ * - Structured transcript turns carried by an event are appended to the session's transcript
+ * - Finished calls are scanned for opt-out and similar signals (PostCallService)
+ * - One provider instance is shared per process (see createTelephonyProvider)
+ */
+export class TelephonyService {
+  private static sharedProvider: TelephonyProvider | null = null;
+  /** Calls being dialed in this process; each settles once its provider_call_id is saved */
+  private static placements = new Set<Promise<unknown>>();
+
+  private provider: TelephonyProvider;
+  private callSessionService: CallSessionService;
+  private eligibilityService: CallEligibilityService;
+  private campaignService: CampaignService;
+  private transcriptService: CallTranscriptService;
+  private postCallService: PostCallService;
+
+  constructor(provider?: TelephonyProvider) {
+    this.provider = provider ?? (TelephonyService.sharedProvider ??= createTelephonyProvider());
+    this.callSessionService = new CallSessionService();
+    this.eligibilityService = new CallEligibilityService();
+    this.campaignService = new CampaignService();
+    this.transcriptService = new CallTranscriptService();
+    this.postCallService = new PostCallService();
+    this.provider.onStatus(event => this.handleStatusEvent(event).then(() => undefined));
+  }
+
+  /**
+   * Name of the active provider
+   */
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Place an outbound call for a project-contact pair
+   * Throws 'Call not eligible: ...' if the pair may not be called right now
+   */
+  async placeCall(input: PlaceCallInput): Promise<CallSession> {
+    const callType = input.call_type ?? 'ai';
+
+    const contactResult = await query(
+      'SELECT * FROM contacts WHERE id::text = $1 OR contact_id = $1 ORDER BY (id::text = $1) DESC LIMIT 1',
+      [input.contact_id]
+    );
+    if (contactResult.rows.length === 0) {
+      throw new Error(`Contact not found: ${input.contact_id}`);
+    }
+    const contact = contactResult.rows[0];
+
+    const projectResult = await query(
+      'SELECT name FROM crm_projects WHERE project_id = $1',
+      [input.project_id]
+    );
+    if (projectResult.rows.length === 0) {
+      throw new Error(`Project not found: ${input.project_id}`);
+    }
+
+    if (input.campaign_id) {
+      const campaign = await this.campaignService.getCampaignById(input.campaign_id);
+      if (!campaign) {
+        throw new Error(`Campaign not found: ${input.campaign_id}`);
+      }
+      if (!this.campaignService.isRunning(campaign)) {
+        throw new Error(`Call not eligible: campaign is ${campaign.status} or outside its schedule`);
+      }
+    }
+
+    const eligibility = await this.eligibilityService.isProjectContactEligible(
+      input.project_id,
+      contact.id,
+      input.worker_id,
+      callType
+    );
+    if (!eligibility.eligible) {
+      throw new Error(`Call not eligible: ${eligibility.reason}`);
+    }
+    if (!contact.phonenumber) {
+      throw new Error('Call not eligible: Contact has no phone number');
+    }
+    if (contact.phone_valid === false) {
+      throw new Error('Call not eligible: Contact phone number is invalid');
+    }
+
+    const session = await this.callSessionService.createCallSession({
+      project_id: input.project_id,
+      contact_id: contact.id,
+      call_type: callType,
+      call_status: 'queued',
+      campaign_id: input.campaign_id,
+      provider: this.provider.name,
+    }, this.eventContext());
+
+    const placement = this.dial(session, contact, projectResult.rows[0].name, input);
+    TelephonyService.placements.add(placement);
+    try {
+      return await placement;
+    } finally {
+      TelephonyService.placements.delete(placement);
+    }
+  }
+
+  /**
+   * Hang up an active call
+   */
+  async hangUp(sessionId: string): Promise<CallSession> {
+    const session = await this.callSessionService.getCallSessionById(sessionId);
+    if (!session) {
+      throw new Error(`Call session not found: ${sessionId}`);
+    }
+    if (!session.provider_call_id || session.provider !== this.provider.name) {
+      throw new Error(`Call conflict: session was not placed by the ${this.provider.name} provider`);
+    }
+    if (isTerminalCallStatus(session.call_status)) {
+      throw new Error(`Call conflict: call already ended (${session.call_status})`);
+    }
+
+    await this.provider.hangUp(session.provider_call_id);
+    return (await this.callSessionService.getCallSessionById(sessionId))!;
+  }
+
+  /**
+   * Authenticate and apply a provider status callback
+   */
+  async handleWebhook(
+    provider: string,
+    payload: Record<string, string>,
+    context: TelephonyWebhookContext
+  ): Promise<CallSession> {
+    if (provider !== this.provider.name) {
+      throw new Error(`Telephony provider not configured: ${provider}`);
+    }
+
+    return this.handleStatusEvent(this.provider.parseWebhook(payload, context));
+  }
+
+  /**
+   * Apply a status event to its call session
+   * Duplicate, stale and post-termination events are ignored (the session is returned unchanged).
+   * Statuses the provider skipped (a late or lost 'answered' callback before 'completed') are
+   * recorded first, so the event's status is always reached; a transition that became invalid
+   * meanwhile (another event won the race) is rejected by CallSessionService ('Invalid transition')
+   */
+  async handleStatusEvent(event: TelephonyStatusEvent): Promise<CallSession> {
+    let session = await this.callSessionService.getCallSessionByProviderCallId(event.provider, event.provider_call_id);
+    if (!session && TelephonyService.placements.size > 0) {
+      // The event may have arrived before the dial returned its call ID: retry once the
+      // calls being placed have saved theirs
+      await Promise.allSettled([...TelephonyService.placements]);
+      session = await this.callSessionService.getCallSessionByProviderCallId(event.provider, event.provider_call_id);
+    }
+    if (!session) {
+      throw new Error(`Call session not found for ${event.provider} call ${event.provider_call_id}`);
+    }
+
+    const currentRank = STATUS_RANK[session.call_status] ?? 0;
+    if (
+      isTerminalCallStatus(session.call_status) ||
+      event.status === session.call_status ||
+      STATUS_RANK[event.status] < currentRank
+    ) {
+      return session;
+    }
+
+    const updates: Partial<CallSession> = { call_status: event.status };
+    if (event.transcript !== undefined) updates.transcript = event.transcript;
+    if (event.recording_url !== undefined) updates.recording_url = event.recording_url;
+    if (event.sentiment !== undefined) updates.sentiment = event.sentiment;
+    if (event.detected_role !== undefined) updates.detected_role = event.detected_role;
+    if (event.role_confidence !== undefined) updates.role_confidence = event.role_confidence;
+
+    const terminal = isTerminalCallStatus(event.status);
+    if (terminal) {
+      updates.ended_at = event.occurred_at;
+      updates.outcome = event.outcome ?? (event.status === 'completed' ? undefined : event.status);
+    }
+
+    const path = callStatusPath(session.call_status, event.status) ?? [event.status];
+    for (const skipped of path.slice(0, -1)) {
+      await this.callSessionService.updateCallSession(session.id!, { call_status: skipped }, this.eventContext());
+    }
+    const updated = await this.callSessionService.updateCallSession(session.id!, updates, this.eventContext());
+
+    if (event.transcript_turns?.length) {
+      await this.transcriptService.appendTurns(session.id!, event.transcript_turns);
+    }
+
+    if (terminal && session.contact_id) {
+      await this.releaseLease(session.project_id, session.contact_id);
+    }
+
+    if (terminal) {
+      try {
+        await this.postCallService.processCallSession(session.id!);
+      } catch (error) {
+        // Not fatal: the session stays unprocessed and is picked up by process:calls
+        console.error(`Error processing finished call ${session.id}:`, error);
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Ask the provider to dial and save its call ID on the session
+   */
+  private async dial(session: CallSession, contact: any, projectName: string, input: PlaceCallInput): Promise<CallSession> {
+    try {
+      const placed = await this.provider.placeCall({
+        session_id: session.id!,
+        to: contact.phonenumber,
+        contact_name: contact.name,
+        project_name: projectName,
+        metadata: input.metadata,
+      });
+
+      return await this.callSessionService.updateCallSession(session.id!, {
+        call_status: 'dialing',
+        provider_call_id: placed.provider_call_id,
+      }, this.eventContext());
+    } catch (error: any) {
+      await this.callSessionService.updateCallSession(session.id!, {
+        call_status: 'failed',
+        outcome: 'failed',
+        ended_at: new Date(),
+      }, this.eventContext());
+      await this.releaseLease(input.project_id, contact.id);
+      throw new Error(`Telephony error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Attribution for call session events written by the call loop
+   */
+  private eventContext(): CallSessionEventContext {
+    return { actor: this.provider.name, source: 'telephony' };
+  }
+
+  /**
+   * Return the pair to the pool once its call has ended
+   */
+  private async releaseLease(projectId: string, contactInternalId: string): Promise<void> {
+    await query(
+      `UPDATE call_leases SET released_at = NOW(), release_reason = 'call_ended'
+       WHERE project_id = $1
+         AND contact_id = (SELECT contact_id FROM contacts WHERE id = $2)
+         AND released_at IS NULL`,
+      [projectId, contactInternalId]
+    );
+  }
+}
@@ -62,9 +62,9 @@ export class TerminalService {
       const insertQuery = `
         INSERT INTO terminal_sessions (
           terminal_id, scope, project_id, contact_id, reason,
-          created_by, expires_at, override_allowed
+          created_by, call_session_id, expires_at, override_allowed
         ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8
+          $1, $2, $3, $4, $5, $6, $7, $8, $9
         )
         RETURNING *
       `;
@@ -76,6 +76,7 @@ export class TerminalService {
         contactInternalId,
         session.reason,
         session.created_by || 'system',
+        session.call_session_id || null,
         session.expires_at || null,
         session.override_allowed || false,
       ]);
@@ -93,37 +94,41 @@ export class TerminalService {
   /**
    * Check if an active terminal session exists
    * Returns true if a non-expired terminal session exists
+   * When several are active, the longest-lasting one is reported (expires_at NULL = permanent)
    */
   async hasActiveTerminalSession(
     scope: 'project' | 'contact' | 'global',
     resourceId: string,
     contactId?: string
-  ): Promise<{ hasTerminal: boolean; reason?: string }> {
+  ): Promise<{ hasTerminal: boolean; reason?: string; expires_at?: Date | null }> {
     let queryText: string;
     let params: any[];
     
     if (scope === 'global') {
       queryText = `
-        SELECT reason FROM terminal_sessions
+        SELECT reason, expires_at FROM terminal_sessions
         WHERE scope = 'global'
           AND (expires_at IS NULL OR expires_at > NOW())
+        ORDER BY expires_at DESC NULLS FIRST
         LIMIT 1
       `;
       params = [];
     } else if (scope === 'project') {
       queryText = `
-        SELECT reason FROM terminal_sessions
+        SELECT reason, expires_at FROM terminal_sessions
         WHERE scope = 'project' AND project_id = $1
           AND (expires_at IS NULL OR expires_at > NOW())
+        ORDER BY expires_at DESC NULLS FIRST
         LIMIT 1
       `;
       params = [resourceId];
     } else {
       // contact scope
       queryText = `
-        SELECT reason FROM terminal_sessions
+        SELECT reason, expires_at FROM terminal_sessions
         WHERE scope = 'contact' AND contact_id = $1
           AND (expires_at IS NULL OR expires_at > NOW())
+        ORDER BY expires_at DESC NULLS FIRST
         LIMIT 1
       `;
       params = [resourceId];
@@ -135,6 +140,7 @@ export class TerminalService {
       return {
         hasTerminal: true,
         reason: result.rows[0].reason,
+        expires_at: result.rows[0].expires_at,
       };
     }
     
@@ -190,6 +196,7 @@ export class TerminalService {
       contact_id: row.contact_id,
       reason: row.reason,
       created_by: row.created_by,
+      call_session_id: row.call_session_id,
       expires_at: row.expires_at,
       override_allowed: row.override_allowed,
       created_at: row.created_at,
@@ -0,0 +1,286 @@
+import { randomUUID } from 'crypto';
+import { PlaceCallRequest, PlaceCallResult, TelephonyStatusEvent, TranscriptTurn } from '../types';
+import { TelephonyProvider, TelephonyStatusHandler } from './TelephonyProvider';
+
+export type SimulatedCallResult =
+  | 'interested'
+  | 'callback_requested'
+  | 'not_interested'
+  | 'wrong_contact'
+  | 'no_answer'
+  | 'busy'
+  | 'voicemail'
+  | 'failed';
+
+/**
+ * Outcome mix for simulated calls (roughly what an outbound B2B dialer sees)
+ */
+const RESULT_WEIGHTS: [SimulatedCallResult, number][] = [
+  ['interested', 0.12],
+  ['callback_requested', 0.14],
+  ['not_interested', 0.18],
+  ['wrong_contact', 0.08],
+  ['no_answer', 0.22],
+  ['busy', 0.08],
+  ['voicemail', 0.14],
+  ['failed', 0.04],
+];
+
+/** Simulated-seconds timeline */
+const RING_START_SECONDS = 1;
+const NO_ANSWER_TIMEOUT_SECONDS = 30;
+const VOICEMAIL_PICKUP_SECONDS = 20;
+
+/** Scripted transcript pacing */
+const SPOKEN_WORD_MS = 350;
+const TURN_GAP_MS = 600;
+
+interface SimulatorOptions {
+  timeScaleMs?: number; // Real milliseconds per simulated second
+  random?: () => number; // Injectable for deterministic runs
+}
+
+interface SimulatedCall {
+  request: PlaceCallRequest;
+  result: SimulatedCallResult;
+  answeredAt?: number;
+  timers: NodeJS.Timeout[];
+  ended: boolean;
+}
+
+/**
+ * SimulatorTelephonyProvider
+ * Offline provider that plays out a realistic call timeline with timers:
+ * queued -> ringing -> in_progress -> completed (with transcript), or no_answer / busy /
+ * voicemail / failed. Results are drawn from RESULT_WEIGHTS unless forced with
+ * request.metadata.simulated_result.
+ */
+export class SimulatorTelephonyProvider implements TelephonyProvider {
+  readonly name = 'simulator';
+  private handler: TelephonyStatusHandler | null = null;
+  private calls = new Map<string, SimulatedCall>();
+  private timeScaleMs: number;
+  private random: () => number;
+
+  constructor(options: SimulatorOptions = {}) {
+    this.timeScaleMs = options.timeScaleMs ?? 50;
+    this.random = options.random ?? Math.random;
+  }
+
+  onStatus(handler: TelephonyStatusHandler): void {
+    this.handler = handler;
+  }
+
+  async placeCall(request: PlaceCallRequest): Promise<PlaceCallResult> {
+    const providerCallId = `SIM${randomUUID().replace(/-/g, '')}`;
+    const forced = request.metadata?.simulated_result as SimulatedCallResult | undefined;
+    const result = forced && RESULT_WEIGHTS.some(([r]) => r === forced) ? forced : this.pickResult();
+    const call: SimulatedCall = { request, result, timers: [], ended: false };
+    this.calls.set(providerCallId, call);
+
+    this.schedule(providerCallId, call);
+    return { provider_call_id: providerCallId, status: 'queued' };
+  }
+
+  async hangUp(providerCallId: string): Promise<void> {
+    const call = this.calls.get(providerCallId);
+    if (!call || call.ended) {
+      return;
+    }
+
+    call.timers.forEach(timer => clearTimeout(timer));
+    if (call.answeredAt !== undefined) {
+      const duration = Math.round((Date.now() - call.answeredAt) / this.timeScaleMs);
+      this.finish(providerCallId, call, { status: 'completed', duration_seconds: duration, answered_by: 'human' });
+    } else {
+      this.finish(providerCallId, call, { status: 'canceled' });
+    }
+  }
+
+  /**
+   * The simulator pushes events directly; it has no webhook
+   */
+  parseWebhook(): TelephonyStatusEvent {
+    throw new Error('Simulator provider does not accept webhooks');
+  }
+
+  /**
+   * Schedule the status timeline for a call
+   */
+  private schedule(providerCallId: string, call: SimulatedCall): void {
+    const at = (seconds: number, fn: () => void) => {
+      call.timers.push(setTimeout(fn, seconds * this.timeScaleMs));
+    };
+
+    if (call.result === 'failed') {
+      at(RING_START_SECONDS, () => this.finish(providerCallId, call, { status: 'failed' }));
+      return;
+    }
+
+    at(RING_START_SECONDS, () => this.emit(providerCallId, { status: 'ringing' }));
+
+    switch (call.result) {
+      case 'busy':
+        at(RING_START_SECONDS + 2, () => this.finish(providerCallId, call, { status: 'busy' }));
+        return;
+      case 'no_answer':
+        at(RING_START_SECONDS + NO_ANSWER_TIMEOUT_SECONDS, () => this.finish(providerCallId, call, { status: 'no_answer' }));
+        return;
+      case 'voicemail': {
+        const pickup = RING_START_SECONDS + VOICEMAIL_PICKUP_SECONDS;
+        const duration = 25;
+        const transcript = this.voicemailTranscript(call.request);
+        at(pickup, () => this.answer(providerCallId, call, 'machine'));
+        at(pickup + duration, () => this.finish(providerCallId, call, {
+          status: 'voicemail',
+          answered_by: 'machine',
+          duration_seconds: duration,
+          transcript,
+          transcript_turns: this.scriptedTurns(transcript),
+          recording_url: `https://simulator.local/recordings/${providerCallId}.wav`,
+        }));
+        return;
+      }
+      default: {
+        const pickup = RING_START_SECONDS + 4 + Math.round(this.random() * 10);
+        const duration = 45 + Math.round(this.random() * 150);
+        const conversation = this.conversation(call.request, call.result);
+        at(pickup, () => this.answer(providerCallId, call, 'human'));
+        at(pickup + duration, () => this.finish(providerCallId, call, {
+          status: 'completed',
+          answered_by: 'human',
+          duration_seconds: duration,
+          recording_url: `https://simulator.local/recordings/${providerCallId}.wav`,
+          ...conversation,
+          transcript_turns: this.scriptedTurns(conversation.transcript!),
+        }));
+      }
+    }
+  }
+
+  private answer(providerCallId: string, call: SimulatedCall, answeredBy: 'human' | 'machine'): void {
+    call.answeredAt = Date.now();
+    this.emit(providerCallId, { status: 'in_progress', answered_by: answeredBy });
+  }
+
+  private finish(
+    providerCallId: string,
+    call: SimulatedCall,
+    event: Omit<TelephonyStatusEvent, 'provider' | 'provider_call_id' | 'occurred_at'>
+  ): void {
+    call.ended = true;
+    this.calls.delete(providerCallId);
+    this.emit(providerCallId, event);
+  }
+
+  private emit(
+    providerCallId: string,
+    event: Omit<TelephonyStatusEvent, 'provider' | 'provider_call_id' | 'occurred_at'>
+  ): void {
+    if (!this.handler) {
+      return;
+    }
+
+    this.handler({ ...event, provider: this.name, provider_call_id: providerCallId, occurred_at: new Date() })
+      .catch(error => console.error('Error handling simulated call status:', error));
+  }
+
+  private pickResult(): SimulatedCallResult {
+    let roll = this.random();
+    for (const [result, weight] of RESULT_WEIGHTS) {
+      if (roll < weight) return result;
+      roll -= weight;
+    }
+    return RESULT_WEIGHTS[RESULT_WEIGHTS.length - 1][0];
+  }
+
+  /**
+   * Scripted conversation for an answered call
+   */
+  private conversation(
+    request: PlaceCallRequest,
+    result: SimulatedCallResult
+  ): Pick<TelephonyStatusEvent, 'transcript' | 'outcome' | 'sentiment' | 'detected_role' | 'role_confidence'> {
+    const name = request.contact_name?.split(' ')[0] || 'there';
+    const project = request.project_name || 'your project';
+    const opening = [
+      `Agent: Hi ${name}, I'm calling about ${project}. Are you the right person to speak to about the subcontract packages?`,
+    ];
+
+    switch (result) {
+      case 'interested':
+        return {
+          outcome: 'interested',
+          sentiment: 'positive',
+          detected_role: 'estimator',
+          role_confidence: 0.9,
+          transcript: [
+            ...opening,
+            `Contact: Yes, I'm the estimator on that one.`,
+            `Agent: Great. We'd like to quote on the job. When are quotes due?`,
+            `Contact: End of the month. Send your details through and I'll add you to the tender list.`,
+            `Agent: Will do, thanks ${name}.`,
+          ].join('\n'),
+        };
+      case 'callback_requested':
+        return {
+          outcome: 'callback_requested',
+          sentiment: 'neutral',
+          detected_role: 'project_manager',
+          role_confidence: 0.7,
+          transcript: [
+            ...opening,
+            `Contact: I am, but I'm on site right now. Can you call me back next week?`,
+            `Agent: No problem, I'll call you back next week.`,
+          ].join('\n'),
+        };
+      case 'wrong_contact':
+        return {
+          outcome: 'wrong_contact',
+          sentiment: 'neutral',
+          detected_role: 'site_manager',
+          role_confidence: 0.6,
+          transcript: [
+            ...opening,
+            `Contact: No, I just run the site. You want the estimating team at head office.`,
+            `Agent: Thanks, I'll get in touch with them.`,
+          ].join('\n'),
+        };
+      default:
+        return {
+          outcome: 'not_interested',
+          sentiment: 'negative',
+          transcript: [
+            ...opening,
+            `Contact: We've already let all the packages on that job.`,
+            `Agent: Understood. Thanks for your time.`,
+          ].join('\n'),
+        };
+    }
+  }
+
+  /**
+   * Speaker turns for a scripted transcript ("Agent: ..." lines are the agent,
+   * anything else the callee), timed at a steady speaking pace from pickup
+   */
+  private scriptedTurns(transcript: string): TranscriptTurn[] {
+    let offsetMs = 0;
+    return transcript.split('\n').map(line => {
+      const separator = line.indexOf(': ');
+      const speaker = line.slice(0, separator) === 'Agent' ? 'agent' : 'callee';
+      const text = line.slice(separator + 2);
+      const startMs = offsetMs;
+      const endMs = startMs + text.split(' ').length * SPOKEN_WORD_MS;
+      offsetMs = endMs + TURN_GAP_MS;
+      return { speaker, start_ms: startMs, end_ms: endMs, text, confidence: 0.95 };
+    });
+  }
+
+  private voicemailTranscript(request: PlaceCallRequest): string {
+    const name = request.contact_name?.split(' ')[0] || 'there';
+    return [
+      `Voicemail: You've reached ${request.contact_name || 'this number'}, please leave a message.`,
+      `Agent: Hi ${name}, I'm calling about ${request.project_name || 'your project'}. I'll try you again soon.`,
+    ].join('\n');
+  }
+}
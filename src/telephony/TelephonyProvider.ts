@@ -0,0 +1,35 @@
+import { PlaceCallRequest, PlaceCallResult, TelephonyStatusEvent } from '../types';
+
+/**
+ * Receives call status changes pushed by a provider (e.g. the simulator's timeline)
+ */
+export type TelephonyStatusHandler = (event: TelephonyStatusEvent) => Promise<void>;
+
+/**
+ * Request context needed to authenticate a provider webhook
+ */
+export interface TelephonyWebhookContext {
+  signature?: string; // Provider signature header, if any
+}
+
+/**
+ * Pluggable telephony provider
+ *
+ * Providers report progress either by pushing events to the registered status handler
+ * (simulator) or through HTTP status callbacks parsed by parseWebhook (Twilio).
+ */
+export interface TelephonyProvider {
+  readonly name: string;
+
+  /** Start an outbound call; progress is reported as status events */
+  placeCall(request: PlaceCallRequest): Promise<PlaceCallResult>;
+
+  /** End a call that is queued, ringing or in progress */
+  hangUp(providerCallId: string): Promise<void>;
+
+  /** Register the handler for pushed status events */
+  onStatus(handler: TelephonyStatusHandler): void;
+
+  /** Parse and authenticate a status callback (throws 'Invalid webhook signature') */
+  parseWebhook(payload: Record<string, string>, context: TelephonyWebhookContext): TelephonyStatusEvent;
+}
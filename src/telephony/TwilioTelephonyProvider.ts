@@ -0,0 +1,141 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PlaceCallRequest, PlaceCallResult, TelephonyCallStatus, TelephonyStatusEvent } from '../types';
+import { TelephonyProvider, TelephonyWebhookContext } from './TelephonyProvider';
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  fromNumber: string;
+  voiceUrl: string; // TwiML URL that connects the answered call to the agent
+  statusCallbackUrl: string; // Public URL of POST /api/telephony/webhooks/twilio
+  apiBaseUrl?: string; // Override for Twilio-compatible APIs (default https://api.twilio.com)
+}
+
+/**
+ * Twilio CallStatus -> internal status
+ */
+const STATUS_MAP: Record<string, TelephonyCallStatus> = {
+  queued: 'queued',
+  initiated: 'queued',
+  ringing: 'ringing',
+  'in-progress': 'in_progress',
+  completed: 'completed',
+  busy: 'busy',
+  'no-answer': 'no_answer',
+  failed: 'failed',
+  canceled: 'canceled',
+};
+
+/**
+ * TwilioTelephonyProvider
+ * Places calls through the Twilio REST API (or a compatible API) and reads progress
+ * from Twilio status callbacks
+ *
+ * - Calls are created with answering machine detection; a completed call answered
+ *   by a machine is reported as 'voicemail'
+ * - Callbacks are authenticated with the X-Twilio-Signature HMAC
+ */
+export class TwilioTelephonyProvider implements TelephonyProvider {
+  readonly name = 'twilio';
+  private config: TwilioConfig;
+
+  constructor(config: TwilioConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Twilio reports status through webhooks only
+   */
+  onStatus(): void {}
+
+  async placeCall(request: PlaceCallRequest): Promise<PlaceCallResult> {
+    const params = new URLSearchParams({
+      To: request.to,
+      From: request.from || this.config.fromNumber,
+      Url: this.config.voiceUrl,
+      StatusCallback: this.config.statusCallbackUrl,
+      StatusCallbackMethod: 'POST',
+      MachineDetection: 'Enable',
+    });
+    for (const event of ['initiated', 'ringing', 'answered', 'completed']) {
+      params.append('StatusCallbackEvent', event);
+    }
+
+    const body = await this.request('Calls.json', params);
+    return {
+      provider_call_id: body.sid,
+      status: STATUS_MAP[body.status] ?? 'queued',
+    };
+  }
+
+  async hangUp(providerCallId: string): Promise<void> {
+    await this.request(`Calls/${encodeURIComponent(providerCallId)}.json`, new URLSearchParams({ Status: 'completed' }));
+  }
+
+  parseWebhook(payload: Record<string, string>, context: TelephonyWebhookContext): TelephonyStatusEvent {
+    if (!this.isValidSignature(payload, context)) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const answeredBy = payload.AnsweredBy
+      ? (payload.AnsweredBy === 'human' ? 'human' : payload.AnsweredBy === 'unknown' ? undefined : 'machine')
+      : undefined;
+    let status = STATUS_MAP[payload.CallStatus];
+    if (!status) {
+      throw new Error(`Unknown CallStatus: ${payload.CallStatus}`);
+    }
+    if (status === 'completed' && answeredBy === 'machine') {
+      status = 'voicemail';
+    }
+
+    return {
+      provider: this.name,
+      provider_call_id: payload.CallSid,
+      status,
+      occurred_at: payload.Timestamp ? new Date(payload.Timestamp) : new Date(),
+      duration_seconds: payload.CallDuration ? parseInt(payload.CallDuration, 10) : undefined,
+      answered_by: answeredBy,
+      recording_url: payload.RecordingUrl || undefined,
+    };
+  }
+
+  /**
+   * X-Twilio-Signature: base64 HMAC-SHA1 of the callback URL followed by sorted POST params (key + value)
+   * Signed against the configured callback URL, so it also validates behind proxies
+   */
+  private isValidSignature(payload: Record<string, string>, context: TelephonyWebhookContext): boolean {
+    if (!context.signature) {
+      return false;
+    }
+
+    const data = Object.keys(payload)
+      .sort()
+      .reduce((acc, key) => acc + key + payload[key], this.config.statusCallbackUrl);
+    const expected = createHmac('sha1', this.config.authToken).update(data, 'utf8').digest('base64');
+
+    const a = Buffer.from(expected);
+    const b = Buffer.from(context.signature);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  private async request(path: string, params: URLSearchParams): Promise<any> {
+    const baseUrl = this.config.apiBaseUrl || 'https://api.twilio.com';
+    const url = `${baseUrl}/2010-04-01/Accounts/${this.config.accountSid}/${path}`;
+    const auth = Buffer.from(`${this.config.accountSid}:${this.config.authToken}`).toString('base64');
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${auth}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params.toString(),
+    });
+    const body: any = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(`Twilio request failed (${response.status}): ${body.message || response.statusText}`);
+    }
+    return body;
+  }
+}
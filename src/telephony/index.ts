@@ -0,0 +1,49 @@
+import dotenv from 'dotenv';
+import { TelephonyProvider } from './TelephonyProvider';
+import { SimulatorTelephonyProvider } from './SimulatorTelephonyProvider';
+import { TwilioTelephonyProvider } from './TwilioTelephonyProvider';
+
+dotenv.config();
+
+export * from './TelephonyProvider';
+export { SimulatorTelephonyProvider } from './SimulatorTelephonyProvider';
+export { TwilioTelephonyProvider } from './TwilioTelephonyProvider';
+
+/**
+ * Build the configured telephony provider
+ * TELEPHONY_PROVIDER: 'simulator' (default) or 'twilio'
+ * - simulator: TELEPHONY_SIMULATOR_TIME_SCALE_MS = real ms per simulated second (default 50)
+ * - twilio: TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER, TWILIO_VOICE_URL,
+ *   TWILIO_STATUS_CALLBACK_URL, optional TWILIO_API_BASE_URL
+ */
+export function createTelephonyProvider(): TelephonyProvider {
+  const provider = process.env.TELEPHONY_PROVIDER || 'simulator';
+
+  if (provider === 'twilio') {
+    const {
+      TWILIO_ACCOUNT_SID,
+      TWILIO_AUTH_TOKEN,
+      TWILIO_FROM_NUMBER,
+      TWILIO_VOICE_URL,
+      TWILIO_STATUS_CALLBACK_URL,
+      TWILIO_API_BASE_URL,
+    } = process.env;
+
+    if (TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN && TWILIO_FROM_NUMBER && TWILIO_VOICE_URL && TWILIO_STATUS_CALLBACK_URL) {
+      return new TwilioTelephonyProvider({
+        accountSid: TWILIO_ACCOUNT_SID,
+        authToken: TWILIO_AUTH_TOKEN,
+        fromNumber: TWILIO_FROM_NUMBER,
+        voiceUrl: TWILIO_VOICE_URL,
+        statusCallbackUrl: TWILIO_STATUS_CALLBACK_URL,
+        apiBaseUrl: TWILIO_API_BASE_URL,
+      });
+    }
+    console.warn('Twilio telephony config incomplete, using simulator provider');
+  } else if (provider !== 'simulator') {
+    console.warn(`Unknown TELEPHONY_PROVIDER "${provider}", using simulator provider`);
+  }
+
+  const timeScaleMs = parseInt(process.env.TELEPHONY_SIMULATOR_TIME_SCALE_MS || '', 10);
+  return new SimulatorTelephonyProvider({ timeScaleMs: isNaN(timeScaleMs) ? undefined : timeScaleMs });
+}
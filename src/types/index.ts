@@ -14,8 +14,12 @@ export interface Project {
   awarded_date?: string | Date;
   distance?: number;
   budget?: string;
+  budget_min?: number; // parsed from budget band
+  budget_max?: number; // parsed from budget band
   quotes_due_date?: string | Date;
   country?: string;
+  timezone?: string; // IANA timezone, e.g. 'Australia/Melbourne' (falls back to state)
+  priority_score?: number; // 0..1, from HubSpot
   last_contacted_at?: string | Date;
   next_call_eligible_at?: string | Date;
   call_suppressed?: boolean;
@@ -23,22 +27,50 @@ export interface Project {
   updated_at?: string | Date;
 }
 
+export type PhoneType = 'mobile' | 'landline' | 'non_geographic' | 'unknown';
+
 export interface Contact {
   id?: string;
   contact_id?: string;
   name: string;
   email?: string;
   companyname?: string;
-  phonenumber?: string;
+  phonenumber?: string | null; // E.164 when valid, otherwise as received
+  phonenumber_raw?: string | null; // As received
+  phone_valid?: boolean | null; // null = not normalized yet
+  phone_type?: PhoneType | null;
+  phone_country?: string | null; // ISO 3166-1 alpha-2; on upsert, the country national numbers are read in
   global_role?: string;
   authority_level?: string;
   preferred_channel?: 'phone' | 'email' | 'sms';
   do_not_call?: boolean;
   last_ai_contact?: string | Date;
+  last_contacted_at?: string | Date | null; // Last completed call on any project
+  next_call_eligible_at?: string | Date | null; // Hold on calling the contact on any project
+  merged_into_id?: string | null; // Surviving contact, when this one was merged as a duplicate
+  merged_at?: string | Date | null;
   created_at?: string | Date;
   updated_at?: string | Date;
 }
 
+export type DuplicateMatchSignal = 'name' | 'email' | 'email_local_part' | 'email_domain' | 'phone' | 'company';
+
+export interface DuplicateCandidate {
+  contact: Contact;
+  duplicate: Contact;
+  score: number; // 0..1
+  name_similarity: number; // 0..1
+  matched_on: DuplicateMatchSignal[];
+}
+
+export interface ContactMergeResult {
+  survivor: Contact;
+  merged_ids: string[]; // Internal IDs of the contacts merged into the survivor (kept as aliases)
+  project_contacts_moved: number;
+  call_sessions_moved: number;
+  terminal_sessions_moved: number;
+}
+
 export interface ProjectContact {
   id?: string;
   project_id: string;
@@ -51,17 +83,38 @@ export interface ProjectContact {
   preferred_channel_project?: 'phone' | 'email' | 'sms';
   last_contacted_at?: string | Date;
   suppress_for_project?: boolean;
+  next_call_eligible_at?: string | Date | null; // Follow-up from the last call's outcome
+  callback_at?: string | Date | null; // Callback slot the contact asked for
+  follow_up_reason?: string | null; // Outcome the follow-up was scheduled for
   created_at?: string | Date;
   updated_at?: string | Date;
 }
 
+export type CallStatus =
+  | 'queued'
+  | 'dialing'
+  | 'ringing'
+  | 'in_progress'
+  | 'completed'
+  | 'no_answer'
+  | 'busy'
+  | 'voicemail'
+  | 'failed'
+  | 'canceled';
+
+export interface CallStatusTransition {
+  from: CallStatus | null; // null for the initial status
+  to: CallStatus;
+  at: string | Date;
+}
+
 export interface CallSession {
   id?: string;
   call_session_id?: string; // External ID (optional, for idempotency)
   project_id: string;
   contact_id?: string;
   call_type: 'ai' | 'human';
-  call_status: string;
+  call_status: CallStatus;
   detected_role?: string;
   role_confidence?: number;
   outcome?: string;
@@ -70,11 +123,86 @@ export interface CallSession {
   escalation_reason?: string;
   transcript?: string;
   recording_url?: string;
+  campaign_id?: string;
+  provider?: string; // telephony provider that placed the call
+  provider_call_id?: string; // provider's call ID (e.g. Twilio CallSid)
+  status_history?: CallStatusTransition[]; // every status change, oldest first
+  parent_call_session_id?: string; // Call this one follows up (internal UUID)
   started_at?: string | Date;
   ended_at?: string | Date;
   created_at?: string | Date;
 }
 
+export type EscalationStatus = 'open' | 'claimed' | 'resolved';
+
+export interface Escalation {
+  id?: string;
+  call_session_id: string; // Escalated call (internal UUID)
+  reason?: string | null;
+  status: EscalationStatus;
+  assigned_to?: string | null;
+  claimed_at?: string | Date | null;
+  resolved_at?: string | Date | null;
+  resolved_by?: string | null;
+  resolution?: string | null;
+  resolution_notes?: string | null;
+  follow_up_session_id?: string | null; // Human call created on resolution
+  claim_due_at: Date; // SLA: claimed by a rep before
+  resolve_due_at: Date; // SLA: resolved before
+  claim_sla_breached: boolean;
+  resolve_sla_breached: boolean;
+  // Context of the escalated call
+  project_id?: string; // External project_id
+  project_name?: string;
+  contact_id?: string; // Internal contact UUID
+  contact_name?: string;
+  phonenumber?: string;
+  call_type?: CallSession['call_type'];
+  outcome?: string;
+  campaign_id?: string;
+  call_started_at?: string | Date;
+  created_at?: string | Date;
+  updated_at?: string | Date;
+}
+
+export interface EscalationResolution {
+  resolution: string; // e.g. 'handled', 'callback_scheduled', 'no_action'
+  notes?: string;
+  resolved_by?: string;
+  create_follow_up?: boolean; // Queue a human call to the same project/contact
+}
+
+export type TranscriptSpeaker = 'agent' | 'callee';
+
+export type TranscriptFormat = 'json' | 'text' | 'vtt' | 'srt';
+
+export interface TranscriptTurn {
+  id?: string;
+  call_session_id?: string;
+  seq?: number; // Position in the transcript (assigned on append)
+  speaker: TranscriptSpeaker;
+  start_ms: number; // Offset from the start of the call
+  end_ms: number;
+  text: string;
+  confidence?: number; // Speech-to-text confidence (0-1)
+  created_at?: string | Date;
+}
+
+export interface CallSessionEventContext {
+  actor?: string; // who made the change (user, worker or provider); default 'system'
+  source?: string; // 'api', 'telephony', 'system', ...; default 'system'
+}
+
+export interface CallSessionEvent {
+  id?: string;
+  call_session_id: string;
+  event_type: 'created' | 'updated';
+  actor: string;
+  source: string;
+  changes: Record<string, { from: unknown; to: unknown }>; // column -> previous/new value
+  created_at?: string | Date;
+}
+
 export interface TerminalSession {
   id?: string;
   terminal_id?: string; // External ID (optional, for idempotency)
@@ -83,12 +211,21 @@ export interface TerminalSession {
   contact_id?: string;
   reason: string;
   created_by?: string;
+  call_session_id?: string; // Call the terminal state was detected on (internal UUID)
   expires_at?: string | Date;
   override_allowed?: boolean;
   created_at?: string | Date;
   updated_at?: string | Date;
 }
 
+export type TerminalSignal = 'opt_out' | 'do_not_call' | 'wrong_number' | 'project_completed';
+
+export interface TerminalSignalDetection {
+  signal: TerminalSignal;
+  confidence: number; // 0-1
+  evidence: string; // Matched phrase or outcome
+}
+
 export interface EligibleCall {
   project_id: string;
   project_name: string; // display name (from project.name)
@@ -98,6 +235,370 @@ export interface EligibleCall {
   role_for_project?: string;
   role_confidence?: number;
   preferred_channel?: string;
+  campaign_id?: string;
+  score?: number;
+  score_breakdown?: CallScore;
+}
+
+export interface CallScoringFeatures {
+  quotes_due_date?: string | Date | null;
+  distance?: number | null; // km
+  budget?: string | null; // band string, e.g. "$4.0m - $5.0m"
+  role_confidence?: number | null;
+  authority_level?: string | null;
+  last_contacted_at?: string | Date | null; // most recent contact with this person
+  priority_score?: number | null; // 0..1 (from HubSpot)
+}
+
+export interface CallScoringWeights {
+  quote_due_urgency: number;
+  distance: number;
+  budget: number;
+  role_confidence: number;
+  authority_level: number;
+  days_since_last_contact: number;
+  priority_score: number;
+}
+
+export interface CallScoreComponent {
+  feature: keyof CallScoringWeights;
+  raw: string | number | null; // Input value as stored
+  normalized: number; // 0..1
+  weight: number;
+  contribution: number; // normalized * weight
+}
+
+export interface CallScore {
+  model: string;
+  total: number;
+  components: CallScoreComponent[];
+}
+
+export type EligibilityPolicyScope = 'global' | 'category' | 'authority_level' | 'call_type';
+
+export interface EligibilityPolicy {
+  id?: string;
+  scope: EligibilityPolicyScope;
+  scope_value?: string | null; // category / authority_level / call_type value (NULL for global)
+  version?: number;
+  min_call_cooldown_hours?: number | null; // Project cooldown; NULL = inherit from less specific policy
+  project_contact_cooldown_hours?: number | null; // Same contact on the same project
+  contact_cooldown_hours?: number | null; // Same contact on any project
+  max_calls_per_day?: number | null;
+  max_calls_per_week?: number | null;
+  is_active?: boolean;
+  notes?: string;
+  created_by?: string;
+  created_at?: string | Date;
+}
+
+export interface EffectiveEligibilityPolicy {
+  min_call_cooldown_hours: number;
+  project_contact_cooldown_hours: number;
+  contact_cooldown_hours: number;
+  max_calls_per_day: number;
+  max_calls_per_week: number;
+  sources: { scope: EligibilityPolicyScope; scope_value?: string | null; version: number }[];
+}
+
+export interface CallLease {
+  id?: string;
+  project_id: string; // crm_projects.project_id (external)
+  contact_id: string; // contacts.contact_id (external)
+  worker_id: string;
+  campaign_id?: string;
+  leased_at?: string | Date;
+  heartbeat_at?: string | Date;
+  expires_at: string | Date;
+  released_at?: string | Date;
+  release_reason?: string;
+  created_at?: string | Date;
+}
+
+export interface ClaimedCall extends EligibleCall {
+  lease_id: string;
+  lease_expires_at: string | Date;
+}
+
+export interface CallingHours {
+  start: string; // 'HH:MM' local time
+  end: string; // 'HH:MM' local time (exclusive)
+}
+
+export interface CallingWindowRules {
+  weekday: CallingHours;
+  saturday: CallingHours | null; // null = no calls
+  sunday: CallingHours | null; // null = no calls
+  block_public_holidays: boolean;
+}
+
+export interface CallingWindowConfig extends CallingWindowRules {
+  default_timezone: string;
+  state_overrides?: Record<string, Partial<CallingWindowRules>>;
+  additional_holidays?: Record<string, string[]>; // 'national' or state code -> YYYY-MM-DD dates
+}
+
+/**
+ * Follow-up after a call ends, per outcome (see FollowUpService)
+ */
+export interface FollowUpRule {
+  delay_hours?: number; // Wait before the pair may be called again (omitted = no pair-level wait)
+  backoff?: { // Escalating wait for consecutive calls with this outcome (overrides delay_hours)
+    base_hours: number;
+    multiplier: number;
+    max_hours: number;
+  };
+  use_callback_time?: boolean; // Call back at the time the contact asked for (delay_hours if none found)
+  cooldown?: boolean; // Counts as contact: starts the project, project-contact and contact cooldowns
+}
+
+export type FollowUpRules = Record<string, FollowUpRule>; // outcome -> rule; 'default' for other outcomes
+
+export interface FollowUp {
+  outcome: string;
+  next_call_eligible_at: Date | null; // For the project-contact pair
+  callback_at: Date | null;
+  project_next_call_eligible_at: Date | null; // Set when the rule starts the cooldowns
+}
+
+export interface CallingWindowCheck {
+  open: boolean;
+  timezone: string;
+  next_window_at?: Date;
+  reason?: string;
+}
+
+export type EligibilityRuleId =
+  | 'project_suppressed'
+  | 'global_terminal'
+  | 'project_terminal'
+  | 'project_cooldown'
+  | 'project_fatigue'
+  | 'calling_window'
+  | 'do_not_call'
+  | 'contact_terminal'
+  | 'project_contact_suppressed'
+  | 'project_contact_follow_up'
+  | 'project_contact_cooldown'
+  | 'contact_cooldown'
+  | 'contact_fatigue'
+  | 'missing_phone'
+  | 'invalid_phone'
+  | 'active_lease';
+
+export interface EligibilityRuleResult {
+  rule: EligibilityRuleId;
+  passed: boolean;
+  blocking_value?: unknown; // The value that caused the failure (flag, reason, count, ...)
+  reason?: string;
+  clears_at?: Date | null; // When the blocker clears on its own (null = needs manual action)
+}
+
+export interface EligibilityExplanation {
+  project_id: string;
+  contact_id: string;
+  eligible: boolean;
+  rules: EligibilityRuleResult[];
+  policy: EffectiveEligibilityPolicy;
+}
+
+export type CampaignStatus = 'draft' | 'active' | 'paused' | 'completed';
+
+export interface CampaignTargetFilter {
+  categories?: string[];
+  states?: string[];
+  budget_min?: number; // project budget band must reach this amount
+  budget_max?: number; // project budget band must start at or below this amount
+  roles?: string[]; // project role, falling back to the contact's global role
+}
+
+export interface Campaign {
+  id?: string;
+  name: string;
+  description?: string;
+  status?: CampaignStatus;
+  target_filter?: CampaignTargetFilter;
+  script_id?: string;
+  agent_id?: string;
+  call_type?: 'ai' | 'human';
+  max_calls_per_hour?: number | null;
+  max_calls_per_day?: number | null;
+  max_concurrent_calls?: number | null;
+  start_at?: string | Date | null;
+  end_at?: string | Date | null;
+  created_at?: string | Date;
+  updated_at?: string | Date;
+}
+
+export interface CampaignReport {
+  campaign: Campaign;
+  total_calls: number;
+  calls_last_hour: number;
+  calls_today: number;
+  active_leases: number;
+  escalations: number;
+  by_status: Record<string, number>;
+  by_outcome: Record<string, number>;
+}
+
+export type ReportDimension = 'day' | 'week' | 'category' | 'state' | 'call_type' | 'campaign';
+
+export interface CallReportQuery {
+  from: Date; // started_at >= from
+  to: Date; // started_at < to
+  group_by: ReportDimension[];
+  timezone: string; // IANA timezone for day/week buckets
+  call_type?: CallSession['call_type'];
+  campaign_id?: string;
+  category?: string;
+  state?: string;
+}
+
+export interface CallReportGroup {
+  day?: string; // YYYY-MM-DD (local)
+  week?: string; // YYYY-MM-DD of the week's Monday (local)
+  category?: string | null;
+  state?: string | null;
+  call_type?: string;
+  campaign_id?: string | null;
+  campaign_name?: string | null;
+}
+
+export interface CallReportRow extends CallReportGroup {
+  total_calls: number;
+  connected_calls: number; // answered by a person (in_progress or completed)
+  connect_rate: number; // connected_calls / total_calls
+  avg_duration_seconds: number | null; // ended calls only
+  escalated_calls: number;
+  escalation_rate: number;
+  unique_contacts: number;
+  calls_per_contact: number | null;
+  positive_calls: number;
+  neutral_calls: number;
+  negative_calls: number;
+}
+
+export interface OutcomeReportRow extends CallReportGroup {
+  outcome: string; // outcome, or call_status when no outcome was recorded
+  calls: number;
+  share: number; // of the group's calls
+}
+
+export type TelephonyCallStatus = Exclude<CallStatus, 'dialing'>;
+
+export interface PlaceCallRequest {
+  session_id: string; // call_sessions.id the call is recorded against
+  to: string; // E.164 phone number
+  from?: string;
+  contact_name?: string;
+  project_name?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PlaceCallResult {
+  provider_call_id: string;
+  status: TelephonyCallStatus;
+}
+
+export interface TelephonyStatusEvent {
+  provider: string;
+  provider_call_id: string;
+  status: TelephonyCallStatus;
+  occurred_at: Date;
+  duration_seconds?: number;
+  answered_by?: 'human' | 'machine';
+  transcript?: string;
+  transcript_turns?: TranscriptTurn[]; // Structured transcript, appended to the session
+  recording_url?: string;
+  outcome?: string;
+  sentiment?: 'positive' | 'neutral' | 'negative';
+  detected_role?: string;
+  role_confidence?: number;
+}
+
+export type ImportFormat = 'projects' | 'contacts' | 'records'; // HubSpot CRM export files
+
+export type ImportRowStatus = 'created' | 'updated' | 'unchanged' | 'skipped' | 'error'; // unchanged: dry runs only
+
+export interface ImportRowResult {
+  row: number; // 1-based data row (header excluded)
+  key?: string; // project_id / contact_id / project_id:contact_id
+  status: ImportRowStatus;
+  message?: string; // Why the row was skipped or failed
+  changes?: FieldChange[]; // Dry run: fields that would change
+}
+
+export interface ImportReport {
+  format: ImportFormat;
+  file?: string;
+  dry_run: boolean; // Nothing was written; rows show what would change
+  total: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  errors: number;
+  rows: ImportRowResult[];
+}
+
+export type DiffTable = 'crm_projects' | 'contacts' | 'project_contacts';
+
+export interface FieldChange {
+  field: string;
+  current: unknown; // null for created records
+  new: unknown;
+}
+
+export interface RecordDiff {
+  table: DiffTable;
+  key: string; // project_id / contact_id (or id) / project_id:contact_id
+  status: 'created' | 'updated' | 'unchanged';
+  changes: FieldChange[];
+}
+
+export type SyncEntityType = 'project' | 'contact' | 'project_contact' | 'call_session' | 'terminal_session';
+
+export type SyncJobStatus = 'pending' | 'processing' | 'succeeded' | 'dead';
+
+export interface SyncJob {
+  id: string;
+  entity_type: SyncEntityType;
+  entity_id: string; // Internal UUID of the synced row
+  status: SyncJobStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  resync_requested: boolean; // Written again while processing: synced once more afterwards
+  locked_by?: string | null;
+  locked_until?: Date | null;
+  last_attempt_at?: Date | null;
+  last_error?: string | null;
+  completed_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface SyncRunResult {
+  claimed: number;
+  succeeded: number;
+  retried: number; // Failed, scheduled again with backoff
+  dead: number; // Failed on the last attempt
+  rate_limited_until?: Date; // HubSpot rate limit hit: unprocessed jobs wait until then
+}
+
+export type BatchItemStatus = 'created' | 'updated' | 'error';
+
+export interface BatchItemResult {
+  index: number; // Position in the request array
+  key?: string; // project_id / contact_id (internal id for contacts without one)
+  id?: string; // Internal UUID of the upserted record
+  status: BatchItemStatus;
+  error?: string; // Why the item failed
+  details?: unknown; // Validation errors
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  next_cursor: string | null; // Pass as cursor to get the next page (null on the last page)
 }
 
 export interface IdempotencyKey {
@@ -0,0 +1,15 @@
+/**
+ * Parse a budget band such as "$4.0m - $5.0m", "$500k - $1m", "$2.5m+" or "4000000"
+ * Returns min/max in dollars, or null if no amount can be read
+ */
+export function parseBudgetBand(budget?: string | null): { min: number; max: number } | null {
+  if (!budget) return null;
+  const amounts = Array.from(budget.toLowerCase().replace(/,/g, '').matchAll(/(\d+(?:\.\d+)?)\s*([kmb])?/g))
+    .map(([, value, unit]) => {
+      const multiplier = unit === 'b' ? 1_000_000_000 : unit === 'm' ? 1_000_000 : unit === 'k' ? 1_000 : 1;
+      return parseFloat(value) * multiplier;
+    })
+    .filter((n) => !isNaN(n));
+  if (amounts.length === 0) return null;
+  return { min: Math.min(...amounts), max: Math.max(...amounts) };
+}
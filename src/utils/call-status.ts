@@ -0,0 +1,72 @@
+import { CallStatus } from '../types';
+
+/**
+ * Call session lifecycle
+ *
+ * queued -> dialing -> ringing -> in_progress -> completed
+ * with early exits to no_answer / busy / voicemail / failed / canceled.
+ * Terminal statuses never transition again.
+ */
+export const CALL_STATUS_TRANSITIONS: Record<CallStatus, CallStatus[]> = {
+  queued: ['dialing', 'ringing', 'failed', 'canceled'],
+  dialing: ['ringing', 'in_progress', 'no_answer', 'busy', 'failed', 'canceled'],
+  ringing: ['in_progress', 'no_answer', 'busy', 'voicemail', 'failed', 'canceled'],
+  in_progress: ['completed', 'voicemail', 'failed'],
+  completed: [],
+  no_answer: [],
+  busy: [],
+  voicemail: [],
+  failed: [],
+  canceled: [],
+};
+
+export const CALL_STATUSES = Object.keys(CALL_STATUS_TRANSITIONS) as CallStatus[];
+
+export const TERMINAL_CALL_STATUSES: CallStatus[] = CALL_STATUSES.filter(
+  status => CALL_STATUS_TRANSITIONS[status].length === 0
+);
+
+export function isCallStatus(status: string): status is CallStatus {
+  return status in CALL_STATUS_TRANSITIONS;
+}
+
+export function isTerminalCallStatus(status: string): boolean {
+  return TERMINAL_CALL_STATUSES.includes(status as CallStatus);
+}
+
+/**
+ * Whether a session may move from one status to another
+ * Sessions recorded before the lifecycle existed (unknown status) may move to any status
+ */
+export function canTransitionCallStatus(from: string, to: CallStatus): boolean {
+  if (!isCallStatus(from)) return true;
+  return CALL_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Shortest chain of statuses leading from one status to another, ending with `to`
+ * (e.g. ringing -> completed: ['in_progress', 'completed']); null if `to` cannot be reached
+ */
+export function callStatusPath(from: string, to: CallStatus): CallStatus[] | null {
+  if (canTransitionCallStatus(from, to)) return [to];
+  if (!isCallStatus(from)) return null;
+
+  const previous = new Map<CallStatus, CallStatus>();
+  const queue: CallStatus[] = [from];
+  while (queue.length > 0) {
+    const status = queue.shift()!;
+    for (const next of CALL_STATUS_TRANSITIONS[status]) {
+      if (next === from || previous.has(next)) continue;
+      previous.set(next, status);
+      if (next === to) {
+        const path: CallStatus[] = [to];
+        for (let step = status; step !== from; step = previous.get(step)!) {
+          path.unshift(step);
+        }
+        return path;
+      }
+      queue.push(next);
+    }
+  }
+  return null;
+}
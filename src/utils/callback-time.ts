@@ -0,0 +1,115 @@
+import { fromLocal, toLocal } from './local-time';
+
+/**
+ * Callback time parsing
+ * Finds the callback slot in phrases like "call me back tomorrow at 2",
+ * "try me Thursday afternoon", "next week" or "in a couple of hours"
+ * Day and time phrases are interpreted in the given (project) timezone
+ */
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, 'a couple of': 2, couple: 2, two: 2, three: 3, four: 4, five: 5, six: 6,
+};
+
+const UNIT_MINUTES: Record<string, number> = {
+  minute: 1, min: 1, hour: 60, hr: 60, day: 24 * 60, week: 7 * 24 * 60,
+};
+
+/** Local time used for a part of the day ("tomorrow afternoon") */
+const PART_OF_DAY_MINUTES: Record<string, number> = {
+  morning: 9 * 60,
+  midday: 12 * 60,
+  noon: 12 * 60,
+  afternoon: 14 * 60,
+  arvo: 14 * 60,
+  evening: 17 * 60,
+  tonight: 17 * 60,
+};
+
+/** Time used when only a day is given */
+const DEFAULT_TIME_MINUTES = 9 * 60;
+
+const RELATIVE = /\bin (half an? hour|a couple of|couple|an?|one|two|three|four|five|six|\d+) ?(minute|min|hour|hr|day|week)?s?\b/;
+const CLOCK = /\b(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|o'?clock)\b|\b(?:at|around|about|after) (\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?\b/;
+const PART_OF_DAY = /\b(morning|midday|noon|afternoon|arvo|evening|tonight)\b/;
+const WEEKDAY = /\b(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/;
+
+/**
+ * Parse a callback slot from one utterance
+ * Returns null if the utterance has no callback time or it is not in the future
+ */
+export function parseCallbackTime(text: string, now: Date, timezone: string): Date | null {
+  const lower = text.toLowerCase();
+
+  const relative = RELATIVE.exec(lower);
+  if (relative) {
+    if (relative[1].startsWith('half')) {
+      return new Date(now.getTime() + 30 * 60 * 1000);
+    }
+    if (relative[2]) {
+      const amount = NUMBER_WORDS[relative[1]] ?? parseInt(relative[1], 10);
+      return new Date(now.getTime() + amount * UNIT_MINUTES[relative[2]] * 60 * 1000);
+    }
+  }
+
+  const local = toLocal(now, timezone);
+  let dayOffset: number | null = null;
+  if (/\b(today|later on|this (morning|afternoon|arvo|evening)|tonight)\b/.test(lower)) {
+    dayOffset = 0;
+  } else if (/\btomorrow\b/.test(lower)) {
+    dayOffset = 1;
+  } else if (/\bnext week\b/.test(lower)) {
+    dayOffset = ((1 - local.weekday + 7) % 7) || 7; // Next Monday
+  } else {
+    const weekday = WEEKDAY.exec(lower);
+    if (weekday) {
+      dayOffset = ((WEEKDAYS.indexOf(weekday[1]) - local.weekday + 7) % 7) || 7;
+    }
+  }
+
+  let minutes: number | null = null;
+  const clock = CLOCK.exec(lower);
+  if (clock) {
+    let hour = parseInt(clock[1] ?? clock[4], 10);
+    const minute = parseInt(clock[2] ?? clock[5] ?? '0', 10);
+    const suffix = clock[3] ?? clock[6];
+    if (suffix === 'pm' && hour < 12) hour += 12;
+    if (suffix === 'am' && hour === 12) hour = 0;
+    // Bare "at 3" during business hours means the afternoon
+    if (suffix !== 'am' && suffix !== 'pm' && hour >= 1 && hour <= 6) hour += 12;
+    if (hour <= 23 && minute <= 59) {
+      minutes = hour * 60 + minute;
+    }
+  }
+  if (minutes === null) {
+    const partOfDay = PART_OF_DAY.exec(lower);
+    if (partOfDay) {
+      minutes = PART_OF_DAY_MINUTES[partOfDay[1]];
+    }
+  }
+
+  if (dayOffset === null && minutes === null) {
+    return null;
+  }
+
+  const nowMinutes = local.hour * 60 + local.minute;
+  if (dayOffset === null) {
+    dayOffset = minutes! > nowMinutes ? 0 : 1;
+  }
+  minutes ??= DEFAULT_TIME_MINUTES;
+
+  // Calendar arithmetic on the local date, then back to an instant in the timezone
+  const date = new Date(Date.UTC(local.year, local.month - 1, local.day + dayOffset));
+  const slot = fromLocal(
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate(),
+    Math.floor(minutes / 60),
+    minutes % 60,
+    timezone
+  );
+
+  return slot > now ? slot : null;
+}
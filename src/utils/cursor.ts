@@ -0,0 +1,87 @@
+/**
+ * Cursor (keyset) pagination
+ *
+ * Rows are ordered by a sort expression with the row id as tie-breaker. The cursor
+ * is the last row's (sort key, id) pair, base64url-encoded, so pages stay stable
+ * while rows are inserted and deep pages cost no more than the first.
+ * Sort expressions must be NOT NULL (wrap nullable columns in COALESCE).
+ */
+
+export type SortDirection = 'asc' | 'desc';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface SortKey {
+  expression: string; // SQL expression, never NULL
+  type: 'text' | 'numeric' | 'date' | 'timestamptz';
+}
+
+export interface KeysetQuery {
+  select: string; // sort key column to add to the SELECT list (read back as sort_key)
+  condition: string | null; // rows after the cursor
+  orderBy: string;
+}
+
+/**
+ * Encode the cursor for the row a page ended on
+ */
+export function encodeCursor(sortKey: string, id: string): string {
+  return Buffer.from(JSON.stringify([sortKey, id])).toString('base64url');
+}
+
+/**
+ * Decode a cursor; throws 'Invalid cursor' if it was not produced by encodeCursor
+ */
+export function decodeCursor(cursor: string): { sortKey: string; id: string } {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      typeof decoded[0] === 'string' &&
+      typeof decoded[1] === 'string' &&
+      UUID_PATTERN.test(decoded[1])
+    ) {
+      return { sortKey: decoded[0], id: decoded[1] };
+    }
+  } catch {
+    // fall through
+  }
+  throw new Error('Invalid cursor');
+}
+
+/**
+ * SQL for one page: sort key column, condition for rows after the cursor and ORDER BY
+ * param() adds a query parameter and returns its placeholder
+ */
+export function buildKeysetQuery(
+  sort: SortKey,
+  idColumn: string,
+  direction: SortDirection,
+  cursor: string | undefined,
+  param: (value: any) => string
+): KeysetQuery {
+  const comparison = direction === 'asc' ? '>' : '<';
+  let condition: string | null = null;
+  if (cursor) {
+    const { sortKey, id } = decodeCursor(cursor);
+    condition = `(${sort.expression}, ${idColumn}) ${comparison} (${param(sortKey)}::${sort.type}, ${param(id)}::uuid)`;
+  }
+
+  return {
+    select: `(${sort.expression})::text AS sort_key`,
+    condition,
+    orderBy: `${sort.expression} ${direction.toUpperCase()}, ${idColumn} ${direction.toUpperCase()}`,
+  };
+}
+
+/**
+ * Cursor for the next page, given rows fetched with limit + 1 (null on the last page)
+ */
+export function nextCursor(rows: any[], limit: number, idField: string = 'id'): string | null {
+  if (rows.length <= limit) {
+    return null;
+  }
+  const last = rows[limit - 1];
+  return encodeCursor(last.sort_key, last[idField]);
+}
@@ -0,0 +1,66 @@
+/**
+ * Wall-clock time in IANA timezones (Intl-based, no timezone database needed)
+ */
+
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Whether a timezone name is a valid IANA timezone (as known to Intl)
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+/**
+ * Resolve the local wall-clock time of an instant in a timezone
+ */
+export function toLocal(at: Date, timezone: string): LocalDateTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    year: parseInt(get('year'), 10),
+    month: parseInt(get('month'), 10),
+    day: parseInt(get('day'), 10),
+    hour: parseInt(get('hour'), 10),
+    minute: parseInt(get('minute'), 10),
+    weekday: WEEKDAY_NAMES.indexOf(get('weekday')),
+  };
+}
+
+/**
+ * Convert a local wall-clock time in a timezone to a UTC instant
+ */
+export function fromLocal(year: number, month: number, day: number, hour: number, minute: number, timezone: string): Date {
+  const wallClockUtc = Date.UTC(year, month - 1, day, hour, minute);
+  let guess = wallClockUtc;
+  // Two passes settle DST transitions
+  for (let i = 0; i < 2; i++) {
+    const local = toLocal(new Date(guess), timezone);
+    const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+    guess = wallClockUtc - (localAsUtc - guess);
+  }
+  return new Date(guess);
+}
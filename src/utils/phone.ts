@@ -0,0 +1,164 @@
+/**
+ * Phone number normalization (E.164)
+ *
+ * AU-first: national numbers ("0438 079 822", "438079822", "61438079822") are read in the
+ * default country; international numbers ("+61 ...", "0011 61 ...") by calling code.
+ * A trunk 0 after the calling code ("+610432402083", common in CRM exports) is dropped.
+ * Only the number plans below are validated; other calling codes are accepted on length.
+ */
+
+import { PhoneType } from '../types';
+
+export interface NormalizedPhone {
+  raw: string; // As received
+  e164: string | null; // null when invalid
+  valid: boolean;
+  type: PhoneType | null; // null when invalid
+  country: string | null; // ISO 3166-1 alpha-2 (null for unknown calling codes)
+}
+
+interface NumberPlan {
+  callingCode: string;
+  trunkPrefix: string | null;
+  internationalPrefix: string;
+  types: [PhoneType, RegExp][]; // National significant number patterns, first match wins
+}
+
+const NUMBER_PLANS: Record<string, NumberPlan> = {
+  AU: {
+    callingCode: '61',
+    trunkPrefix: '0',
+    internationalPrefix: '0011',
+    types: [
+      ['mobile', /^4\d{8}$/],
+      ['landline', /^[2378]\d{8}$/],
+      ['non_geographic', /^(1[38]00\d{6}|13\d{4})$/],
+    ],
+  },
+  NZ: {
+    callingCode: '64',
+    trunkPrefix: '0',
+    internationalPrefix: '00',
+    types: [
+      ['mobile', /^2\d{7,9}$/],
+      ['landline', /^[34679]\d{7}$/],
+      ['non_geographic', /^(800|508)\d{6}$/],
+    ],
+  },
+  GB: {
+    callingCode: '44',
+    trunkPrefix: '0',
+    internationalPrefix: '00',
+    types: [
+      ['mobile', /^7[1-9]\d{8}$/],
+      ['landline', /^[12]\d{8,9}$/],
+      ['non_geographic', /^(3\d{9}|8\d{8,9})$/],
+    ],
+  },
+  US: {
+    callingCode: '1',
+    trunkPrefix: null,
+    internationalPrefix: '011',
+    types: [['unknown', /^[2-9]\d{2}[2-9]\d{6}$/]], // NANP does not distinguish mobiles
+  },
+  CA: {
+    callingCode: '1',
+    trunkPrefix: null,
+    internationalPrefix: '011',
+    types: [['unknown', /^[2-9]\d{2}[2-9]\d{6}$/]],
+  },
+};
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  AUSTRALIA: 'AU',
+  'NEW ZEALAND': 'NZ',
+  'UNITED KINGDOM': 'GB',
+  UK: 'GB',
+  'UNITED STATES': 'US',
+  USA: 'US',
+  CANADA: 'CA',
+};
+
+/**
+ * Default country for national-format numbers (PHONE_DEFAULT_COUNTRY, default AU)
+ */
+export const DEFAULT_PHONE_COUNTRY = resolvePhoneCountry(process.env.PHONE_DEFAULT_COUNTRY) ?? 'AU';
+
+/**
+ * Map a country as stored on projects ('AU', 'Australia', ...) to a supported ISO code
+ */
+export function resolvePhoneCountry(country?: string | null): string | null {
+  if (!country) return null;
+  const key = country.trim().toUpperCase();
+  const code = COUNTRY_ALIASES[key] ?? key;
+  return NUMBER_PLANS[code] ? code : null;
+}
+
+/**
+ * Normalize a phone number to E.164, classifying it as mobile/landline where the plan allows
+ */
+export function normalizePhoneNumber(raw: string, defaultCountry?: string | null): NormalizedPhone {
+  const country = resolvePhoneCountry(defaultCountry) ?? DEFAULT_PHONE_COUNTRY;
+  const plan = NUMBER_PLANS[country];
+  const invalid = (invalidCountry: string | null): NormalizedPhone =>
+    ({ raw, e164: null, valid: false, type: null, country: invalidCountry });
+
+  // Drop extensions and formatting characters
+  const text = raw.trim().replace(/\s*(?:ext\.?|x|#)\s*\d+$/i, '');
+  const compact = text.replace(/[\s().\-\/]/g, '');
+  if (!/^\+?\d+$/.test(compact)) {
+    return invalid(null);
+  }
+
+  let digits: string;
+  if (compact.startsWith('+')) {
+    digits = compact.slice(1);
+  } else if (compact.startsWith(plan.internationalPrefix)) {
+    digits = compact.slice(plan.internationalPrefix.length);
+  } else {
+    return classify(raw, country, nationalNumber(compact, plan)) ?? invalid(country);
+  }
+
+  // International format: find the plan by calling code (the default country wins on shared codes)
+  const candidates = [country, ...Object.keys(NUMBER_PLANS).filter(code => code !== country)];
+  const match = candidates.find(code => digits.startsWith(NUMBER_PLANS[code].callingCode));
+  if (!match) {
+    return digits.length >= 8 && digits.length <= 15
+      ? { raw, e164: `+${digits}`, valid: true, type: 'unknown', country: null }
+      : invalid(null);
+  }
+
+  const matchedPlan = NUMBER_PLANS[match];
+  let nsn = digits.slice(matchedPlan.callingCode.length);
+  if (matchedPlan.trunkPrefix && nsn.startsWith(matchedPlan.trunkPrefix)) {
+    nsn = nsn.slice(matchedPlan.trunkPrefix.length);
+  }
+  return classify(raw, match, nsn) ?? invalid(match);
+}
+
+/**
+ * National significant number of a number written without '+'
+ */
+function nationalNumber(digits: string, plan: NumberPlan): string {
+  if (plan.trunkPrefix && digits.startsWith(plan.trunkPrefix)) {
+    return digits.slice(plan.trunkPrefix.length);
+  }
+  // Calling code without '+' (e.g. "61438079822"), unless the digits are already a valid national number
+  if (digits.startsWith(plan.callingCode) && !matchType(digits, plan)) {
+    const nsn = digits.slice(plan.callingCode.length);
+    return plan.trunkPrefix && nsn.startsWith(plan.trunkPrefix) ? nsn.slice(plan.trunkPrefix.length) : nsn;
+  }
+  return digits;
+}
+
+function matchType(nsn: string, plan: NumberPlan): PhoneType | null {
+  const match = plan.types.find(([, pattern]) => pattern.test(nsn));
+  return match ? match[0] : null;
+}
+
+function classify(raw: string, country: string, nsn: string): NormalizedPhone | null {
+  const plan = NUMBER_PLANS[country];
+  const type = matchType(nsn, plan);
+  if (!type) return null;
+  return { raw, e164: `+${plan.callingCode}${nsn}`, valid: true, type, country };
+}
@@ -0,0 +1,91 @@
+/**
+ * Fuzzy matching helpers for contact deduplication
+ */
+
+/** Words in contact names that are not part of the person's name */
+const NAME_NOISE = /\([^)]*\)|\b(?:mr|mrs|ms|miss|dr)\b\.?/gi;
+
+/** Company suffixes ignored when comparing company names */
+const COMPANY_SUFFIXES = /\b(?:pty|ltd|limited|inc|llc|co|group|the)\b\.?/g;
+
+/** Free-mail domains: a shared domain says nothing about the employer */
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com', 'hotmail.com', 'outlook.com', 'live.com', 'yahoo.com', 'yahoo.com.au',
+  'bigpond.com', 'bigpond.net.au', 'icloud.com', 'me.com', 'optusnet.com.au',
+]);
+
+/**
+ * Lower-case name tokens in sorted order ("White, Ben (Sample Contact)" -> "ben white")
+ */
+export function normalizeName(name?: string | null): string {
+  if (!name) return '';
+  return name
+    .replace(NAME_NOISE, ' ')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+/**
+ * Company name without punctuation and legal suffixes ("Acme Pty. Ltd." -> "acme")
+ */
+export function normalizeCompany(company?: string | null): string {
+  if (!company) return '';
+  return company
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(COMPANY_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Lower-cased email split into local part and domain (null if not an email)
+ */
+export function splitEmail(email?: string | null): { local: string; domain: string; freeMail: boolean } | null {
+  const match = email?.trim().toLowerCase().match(/^([^@\s]+)@([^@\s]+)$/);
+  if (!match) return null;
+  return { local: match[1], domain: match[2], freeMail: FREE_MAIL_DOMAINS.has(match[2]) };
+}
+
+/**
+ * Name similarity in [0, 1]: Dice coefficient over character trigrams of the normalized names
+ */
+export function nameSimilarity(a?: string | null, b?: string | null): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftTrigrams = trigrams(left);
+  const rightTrigrams = trigrams(right);
+  let shared = 0;
+  for (const [trigram, count] of leftTrigrams) {
+    shared += Math.min(count, rightTrigrams.get(trigram) ?? 0);
+  }
+  const total = sumCounts(leftTrigrams) + sumCounts(rightTrigrams);
+  return total > 0 ? (2 * shared) / total : 0;
+}
+
+function trigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of text.split(' ')) {
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      const trigram = padded.slice(i, i + 3);
+      counts.set(trigram, (counts.get(trigram) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+function sumCounts(counts: Map<string, number>): number {
+  let total = 0;
+  for (const count of counts.values()) total += count;
+  return total;
+}
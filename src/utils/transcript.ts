@@ -0,0 +1,61 @@
+import { TranscriptTurn } from '../types';
+
+/**
+ * Transcript rendering (plain text, WebVTT, SRT)
+ * Turns are rendered in transcript order; callers pass them sorted by seq
+ */
+
+const SPEAKER_LABELS: Record<TranscriptTurn['speaker'], string> = {
+  agent: 'Agent',
+  callee: 'Contact',
+};
+
+/**
+ * Plain text, one "Speaker: text" line per turn (same layout as CallSession.transcript)
+ */
+export function renderTranscriptText(turns: TranscriptTurn[]): string {
+  return turns.map(turn => `${SPEAKER_LABELS[turn.speaker]}: ${turn.text}`).join('\n');
+}
+
+/**
+ * WebVTT with voice spans (<v Agent>...)
+ */
+export function renderTranscriptVtt(turns: TranscriptTurn[]): string {
+  const cues = turns.map(turn =>
+    `${formatTimestamp(turn.start_ms, '.')} --> ${formatTimestamp(turn.end_ms, '.')}\n` +
+    `<v ${SPEAKER_LABELS[turn.speaker]}>${escapeVtt(turn.text)}`
+  );
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+/**
+ * SubRip (SRT), speaker as a text prefix
+ */
+export function renderTranscriptSrt(turns: TranscriptTurn[]): string {
+  return turns.map((turn, index) =>
+    `${index + 1}\n` +
+    `${formatTimestamp(turn.start_ms, ',')} --> ${formatTimestamp(turn.end_ms, ',')}\n` +
+    `${SPEAKER_LABELS[turn.speaker]}: ${turn.text}\n`
+  ).join('\n');
+}
+
+/**
+ * HH:MM:SS.mmm (WebVTT) or HH:MM:SS,mmm (SRT)
+ */
+function formatTimestamp(offsetMs: number, separator: '.' | ','): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(offsetMs / 3_600_000);
+  const minutes = Math.floor(offsetMs / 60_000) % 60;
+  const seconds = Math.floor(offsetMs / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(offsetMs % 1000, 3)}`;
+}
+
+/**
+ * Escape &, < and > in cue text (which also rules out a stray "-->")
+ */
+function escapeVtt(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}